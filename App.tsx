@@ -2,7 +2,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Routes, Route, Link, useNavigate } from 'react-router-dom';
 import Logo from "./logo.svg";
-import { useAppContext } from './hooks/useAppContext';
+import { useAppActions, useAppState } from './hooks/useAppContext';
 import Auth from './components/Auth';
 import HomePage from './components/HomePage';
 import ProfileModal from './components/ProfileModal';
@@ -14,6 +14,7 @@ import { FootballIcon, BellIcon, MenuIcon } from './components/common/Icons';
 import ProfilePage from './components/ProfilePage';
 import PlayerProfilePage from './components/PlayerProfilePage';
 import MyMatchesPage from './components/MyMatchesPage';
+import PublicTournamentPage from './components/PublicTournamentPage';
 import { Notification } from './types';
 
 const NotificationsDropdown: React.FC<{
@@ -71,7 +72,8 @@ const NotificationsDropdown: React.FC<{
 
 
 const Header: React.FC<{ onToggleSidebar: () => void }> = ({ onToggleSidebar }) => {
-  const { currentUser, logout, notifications, markNotificationAsRead, markAllNotificationsAsRead } = useAppContext();
+  const { currentUser, notifications } = useAppState();
+  const { logout, markNotificationAsRead, markAllNotificationsAsRead } = useAppActions();
   const navigate = useNavigate();
   const [isNotificationsOpen, setNotificationsOpen] = useState(false);
 
@@ -141,7 +143,7 @@ const Header: React.FC<{ onToggleSidebar: () => void }> = ({ onToggleSidebar })
 
 
 const App: React.FC = () => {
-  const { currentUser, isProfileComplete, isLoading } = useAppContext();
+  const { currentUser, isProfileComplete, isLoading } = useAppState();
   const [isSidebarOpen, setSidebarOpen] = useState(false);
   
 if (isLoading) {
@@ -175,24 +177,30 @@ if (isLoading) {
           </>
         )}
         <main className="flex-grow p-4 sm:p-6 lg:p-8 overflow-y-auto">
-          {!currentUser ? (
-            <Auth />
-          ) : !isProfileComplete() ? (
-            <div className="container mx-auto">
-              <HomePage />
-              <ProfileModal isOpen={true} onClose={() => {}} />
-            </div>
-          ) : (
-            <Routes>
-              <Route path="/" element={<HomePage />} />
-              <Route path="/profile" element={<ProfilePage />} />
-              <Route path="/player/:playerId" element={<PlayerProfilePage />} />
-              <Route path="/matches" element={<MyMatchesPage />} />
-              <Route path="/team/:teamId" element={<TeamPage />} />
-              <Route path="/tournament/:tournamentId" element={<TournamentPage />} />
-              <Route path="/match/:matchId/score" element={<LiveScoringPage />} />
-            </Routes>
-          )}
+          <Routes>
+            {/* Public pages are shared with spectators, so they render with or without a login. */}
+            <Route path="/public/tournament/:tournamentId" element={<PublicTournamentPage />} />
+            <Route path="*" element={
+              !currentUser ? (
+                <Auth />
+              ) : !isProfileComplete() ? (
+                <div className="container mx-auto">
+                  <HomePage />
+                  <ProfileModal isOpen={true} onClose={() => {}} />
+                </div>
+              ) : (
+                <Routes>
+                  <Route path="/" element={<HomePage />} />
+                  <Route path="/profile" element={<ProfilePage />} />
+                  <Route path="/player/:playerId" element={<PlayerProfilePage />} />
+                  <Route path="/matches" element={<MyMatchesPage />} />
+                  <Route path="/team/:teamId" element={<TeamPage />} />
+                  <Route path="/tournament/:tournamentId" element={<TournamentPage />} />
+                  <Route path="/match/:matchId/score" element={<LiveScoringPage />} />
+                </Routes>
+              )
+            } />
+          </Routes>
         </main>
       </div>
     </div>
@@ -1,6 +1,6 @@
 
 import React, { useState } from 'react';
-import { useAppContext } from '../hooks/useAppContext';
+import { useAppActions } from '../hooks/useAppContext';
 import { FootballIcon } from './common/Icons';
 
 type AuthView = 'login' | 'register';
@@ -14,7 +14,7 @@ const Auth: React.FC = () => {
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   
-  const { login, register } = useAppContext();
+  const { login, register } = useAppActions();
 
   const handleLoginSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -83,7 +83,7 @@ const HomePage: React.FC = () => {
         return teams.filter(team =>
             // FIX: Check if any admin user object's _id matches the current user's _id.
             team.adminIds.some(admin => admin._id === currentUser._id) ||
-            (team.members || []).some(member => (typeof member === 'string' ? member : member._id) === currentUser._id)
+            team.members.some(member => member._id === currentUser._id)
         );
     }, [currentUser, teams]);
 
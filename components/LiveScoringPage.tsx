@@ -1,67 +1,101 @@
 import React, { useState, useMemo } from 'react';
 import { useParams, useSearchParams, useNavigate } from 'react-router-dom';
-import { useAppContext } from '../hooks/useAppContext';
-import { MatchStatus, CardType, Tournament, Match, Team, User } from '../types';
-import { FootballIcon } from './common/Icons';
+import { useAppActions, useAppState } from '../hooks/useAppContext';
+import { MatchStatus, CardType, Tournament, Match, Team, User, MatchPeriod, EventTime, Goal, Card, MatchEventType, MatchSlot, ShootoutKick } from '../types';
+import { FootballIcon, EditIcon, TrashIcon, CardYellowIcon, CardRedIcon } from './common/Icons';
+import { useMatchClock } from '../hooks/useMatchClock';
+import { PERIOD_LABELS, getClockTransitions, advanceClock, formatEventTime, compareEventTimes } from '../utils/matchClock';
+import { getTournamentFormat, isKnockoutMatch, allowsExtraTime, needsPenaltyShootout } from '../utils/tournamentFormat';
+import { getMatchEvents, getLastRecordedEvent, describeRecordedEvent, getSentOffPlayerIds, hasYellowCard, RecordedEvent, MATCH_EVENT_META, QUICK_ACTION_EVENT_TYPES } from '../utils/matchEvents';
+import { calculateSuspensions, getSuspendedPlayers, describeSuspension, Suspension } from '../utils/discipline';
+import { getTeamLineup, getPlayersOnPitch, getAvailableSubstitutes } from '../utils/lineups';
+import { getSquad } from '../utils/squads';
+import { usePermissions } from '../hooks/usePermissions';
+import { useTournament } from '../hooks/useEntities';
+import { useLiveTournament } from '../hooks/useLiveTournament';
+import { getShootoutState, isPossibleShootoutScore, SHOOTOUT_KICKS_PER_TEAM } from '../utils/shootout';
 const LiveScoringPage: React.FC = () => {
   const { matchId } = useParams<{ matchId: string }>();
   const [searchParams] = useSearchParams();
   const navigate = useNavigate();
  
   // Get global state and actions from context
-  const { tournaments, recordGoal, recordCard, endMatch, currentUser, isLoading: isAppLoading } = useAppContext();
+  const { recordGoal, recordCard, recordSubstitution, updateGoal, deleteGoal, updateCard, deleteCard, recordMatchEvent, deleteMatchEvent, overturnEvent, recordShootoutKick, deleteShootoutKick, endMatch, updateMatchClock, dismissSyncConflict } = useAppActions();
+  const { isOnline, pendingEvents, syncConflicts, isLoading: isAppLoading } = useAppState();
+  const { can } = usePermissions();
   // --- DERIVE STATE FROM CONTEXT ---
-  // Find the current tournament and match from the global 'tournaments' array.
-  const { tournament, match } = useMemo(() => {
-    const tournamentId = searchParams.get('tournamentId');
-    if (!tournamentId || !matchId || !tournaments) {
-        return { tournament: null, match: null };
-    }
-    const currentTournament = tournaments.find(t => t._id === tournamentId);
-    if (!currentTournament) {
-        return { tournament: null, match: null };
-    }
-    const currentMatch = currentTournament.matches.find(m => m._id === matchId);
-    return { tournament: currentTournament, match: currentMatch || null };
-  }, [tournaments, searchParams, matchId]);
+  // Find the current tournament and match in the entity store. Changes to other
+  // tournaments and matches leave both objects untouched.
+  const tournament = useTournament(searchParams.get('tournamentId') || undefined) || null;
+  useLiveTournament(searchParams.get('tournamentId') || undefined);
+  const match = useMemo(
+    () => (matchId && tournament?.matches.find(m => m._id === matchId)) || null,
+    [tournament, matchId]
+  );
   // FIX: The teamAId/teamBId on the match object might not be fully populated with members.
   // To ensure we have the full team data, we find the complete team object
   // from the tournament's top-level 'teams' array, which is guaranteed to be populated.
   const teamA = useMemo(() => {
     if (!match || !tournament) return null;
-    const teamAId = typeof match.teamAId === 'string' ? match.teamAId : match.teamAId?._id;
-    return tournament.teams.find(t => t._id === teamAId) || null;
+    return tournament.teams.find(t => t._id === match.teamAId?._id) || null;
   }, [match, tournament]);
   const teamB = useMemo(() => {
     if (!match || !tournament) return null;
-    const teamBId = typeof match.teamBId === 'string' ? match.teamBId : match.teamBId?._id;
-    return tournament.teams.find(t => t._id === teamBId) || null;
+    return tournament.teams.find(t => t._id === match.teamBId?._id) || null;
   }, [match, tournament]);
   const tournamentId = tournament?._id;
+  const { clock, isRunning: isClockRunning, display: clockDisplay, eventTime: currentEventTime } = useMatchClock(match?.clock);
   // Local UI state for modals
   const [isGoalModalOpen, setGoalModalOpen] = useState(false);
   const [isCardModalOpen, setCardModalOpen] = useState(false);
   const [isEndModalOpen, setEndModalOpen] = useState(false);
+  const [isSubModalOpen, setSubModalOpen] = useState(false);
+  const [subPlayerOffId, setSubPlayerOffId] = useState('');
+  const [subPlayerOnId, setSubPlayerOnId] = useState('');
+  // The quick action being recorded, if any.
+  const [eventModalType, setEventModalType] = useState<MatchEventType | null>(null);
+  const [eventPlayerId, setEventPlayerId] = useState('');
+  const [eventNote, setEventNote] = useState('');
+  const [isVarModalOpen, setVarModalOpen] = useState(false);
+  const [varTargetKey, setVarTargetKey] = useState('');
   const [modalTeamId, setModalTeamId] = useState('');
+  // Set when the goal/card modal is correcting an existing event rather than recording a new one.
+  const [editingGoalId, setEditingGoalId] = useState<string | null>(null);
+  const [editingCardId, setEditingCardId] = useState<string | null>(null);
  
   const [isOwnGoal, setIsOwnGoal] = useState(false);
+  const [isPenalty, setIsPenalty] = useState(false);
   const [scorerId, setScorerId] = useState('');
   const [assistId, setAssistId] = useState('');
   const [cardPlayerId, setCardPlayerId] = useState('');
   const [cardType, setCardType] = useState<CardType>(CardType.YELLOW);
   const [penaltyScores, setPenaltyScores] = useState<{ scoreA: string, scoreB: string }>({ scoreA: '', scoreB: '' });
+  // Kick-by-kick shootout entry. The first team to kick is only chosen before any kick is recorded.
+  const [isShootoutOpen, setShootoutOpen] = useState(false);
+  const [firstKickSlot, setFirstKickSlot] = useState<MatchSlot>('A');
+  const [shootoutTakerId, setShootoutTakerId] = useState('');
+  const [shootoutError, setShootoutError] = useState('');
   const [endMatchError, setEndMatchError] = useState('');
+  // Minute fields for the goal/card modals. Pre-filled from the clock, but the scorer can override them.
+  const [eventMinute, setEventMinute] = useState('');
+  const [eventAddedTime, setEventAddedTime] = useState('');
+  const [stoppageInput, setStoppageInput] = useState('');
  
   const [isSubmitting, setIsSubmitting] = useState(false);
+  // Pickers list the squads registered for the tournament, not the teams' current members.
   const modalTeamPlayers = useMemo(() => {
     const team = modalTeamId === teamA?._id ? teamA : teamB;
-    return (team?.members || []).filter(player => player && player.profile);
-  }, [modalTeamId, teamA, teamB]);
+    return tournament ? getSquad(tournament, team?._id) : [];
+  }, [modalTeamId, teamA, teamB, tournament]);
  
   const opposingTeamPlayers = useMemo(() => {
     const team = modalTeamId === teamA?._id ? teamB : teamA;
-    return (team?.members || []).filter(player => player && player.profile);
-  }, [modalTeamId, teamA, teamB]);
+    return tournament ? getSquad(tournament, team?._id) : [];
+  }, [modalTeamId, teamA, teamB, tournament]);
+  const suspendedPlayers = useMemo(
+    () => tournament && match ? getSuspendedPlayers(calculateSuspensions(tournament), match) : new Map<string, Suspension>(),
+    [tournament, match]
+  );
   const scorerPlayers = isOwnGoal ? opposingTeamPlayers : modalTeamPlayers;
   const assistPlayers = modalTeamPlayers.filter(p => p._id !== scorerId);
   // --- RENDER LOGIC ---
@@ -73,30 +107,99 @@ const LiveScoringPage: React.FC = () => {
     return <div className="text-center text-red-500">Match data could not be loaded. It might not exist.</div>;
   }
  
-  const isAdmin = currentUser?._id === tournament.adminId;
-  if (!isAdmin) {
-    return <div className="text-center text-yellow-500">Live scoring is only available for tournament admins.</div>;
+  if (!can('match:score', { tournament, match })) {
+    return <div className="text-center text-yellow-500">Live scoring is only available for tournament organizers and the match's scorekeeper.</div>;
   }
   // --- EVENT HANDLERS ---
+  const resetEventTime = () => {
+    setEventMinute(currentEventTime ? String(currentEventTime.minute) : '');
+    setEventAddedTime(currentEventTime?.addedTime ? String(currentEventTime.addedTime) : '');
+  };
+  // Returns the minute entered in the modal, or null if the fields don't form a valid minute.
+  const getEnteredEventTime = (): EventTime | null => {
+    const minute = parseInt(eventMinute, 10);
+    const addedTime = eventAddedTime ? parseInt(eventAddedTime, 10) : 0;
+    if (isNaN(minute) || minute < 0 || isNaN(addedTime) || addedTime < 0) return null;
+    return addedTime > 0 ? { minute, addedTime } : { minute };
+  };
+  const enteredEventTime = getEnteredEventTime();
   const openGoalModal = (teamId: string) => {
+    resetEventTime();
+    setEditingGoalId(null);
     setModalTeamId(teamId);
     setIsOwnGoal(false);
+    setIsPenalty(false);
     setScorerId('');
     setAssistId('');
     setGoalModalOpen(true);
   };
  
   const openCardModal = (teamId: string) => {
+    resetEventTime();
+    setEditingCardId(null);
     setModalTeamId(teamId);
     setCardPlayerId('');
     setCardType(CardType.YELLOW);
     setCardModalOpen(true);
   }
+  const openSubModal = (teamId: string) => {
+    resetEventTime();
+    setModalTeamId(teamId);
+    setSubPlayerOffId('');
+    setSubPlayerOnId('');
+    setSubModalOpen(true);
+  };
+  const openEventModal = (teamId: string, type: MatchEventType) => {
+    resetEventTime();
+    setModalTeamId(teamId);
+    setEventPlayerId('');
+    setEventNote('');
+    setEventModalType(type);
+  };
+  const openVarModal = () => {
+    resetEventTime();
+    setVarTargetKey('');
+    setVarModalOpen(true);
+  };
+  const openEditGoalModal = (goal: Goal) => {
+    if (!goal._id) return;
+    setEditingGoalId(goal._id);
+    setModalTeamId(goal.teamId);
+    setIsOwnGoal(goal.isOwnGoal);
+    setIsPenalty(!!goal.isPenalty);
+    setScorerId(goal.scorerId?._id || '');
+    setAssistId(goal.assistId?._id || '');
+    setEventMinute(String(goal.minute));
+    setEventAddedTime(goal.addedTime ? String(goal.addedTime) : '');
+    setGoalModalOpen(true);
+  };
+  const openEditCardModal = (card: Card) => {
+    if (!card._id) return;
+    setEditingCardId(card._id);
+    setModalTeamId(card.teamId);
+    setCardPlayerId(card.playerId?._id || '');
+    setCardType(card.type);
+    setEventMinute(String(card.minute));
+    setEventAddedTime(card.addedTime ? String(card.addedTime) : '');
+    setCardModalOpen(true);
+  };
   const handleRecordGoal = async () => {
-    if (!scorerId || !tournamentId || !matchId || !modalTeamId || isSubmitting) return;
+    if (!scorerId || !tournamentId || !matchId || !modalTeamId || !enteredEventTime || isSubmitting) return;
     setIsSubmitting(true);
     try {
-        await recordGoal(tournamentId, matchId, scorerId, modalTeamId, assistId || undefined, isOwnGoal);
+        if (editingGoalId) {
+            await updateGoal(tournamentId, matchId, editingGoalId, {
+                scorerId,
+                assistId: assistId || null,
+                isOwnGoal,
+                isPenalty: !isOwnGoal && isPenalty,
+                teamId: modalTeamId,
+                minute: enteredEventTime.minute,
+                addedTime: enteredEventTime.addedTime || 0,
+            });
+        } else {
+            await recordGoal(tournamentId, matchId, scorerId, modalTeamId, assistId || undefined, isOwnGoal, enteredEventTime, !isOwnGoal && isPenalty);
+        }
         setGoalModalOpen(false);
     } catch (error) {
         console.error("Failed to record goal:", error);
@@ -105,10 +208,19 @@ const LiveScoringPage: React.FC = () => {
     }
   };
   const handleRecordCard = async () => {
-    if (!cardPlayerId || !tournamentId || !matchId || !modalTeamId || isSubmitting) return;
+    if (!cardPlayerId || !tournamentId || !matchId || !modalTeamId || !enteredEventTime || isSubmitting) return;
     setIsSubmitting(true);
     try {
-        await recordCard(tournamentId, matchId, cardPlayerId, cardType, modalTeamId);
+        if (editingCardId) {
+            await updateCard(tournamentId, matchId, editingCardId, {
+                playerId: cardPlayerId,
+                type: cardType,
+                minute: enteredEventTime.minute,
+                addedTime: enteredEventTime.addedTime || 0,
+            });
+        } else {
+            await recordCard(tournamentId, matchId, cardPlayerId, cardType, modalTeamId, enteredEventTime);
+        }
         setCardModalOpen(false);
     } catch(error) {
         console.error("Failed to record card", error);
@@ -116,13 +228,232 @@ const LiveScoringPage: React.FC = () => {
         setIsSubmitting(false);
     }
   }
-  const isKnockout = ['Final', 'Semi-Final', 'Quarter-Final', 'Eliminator'].includes(match.round);
-  const needsPenalties = isKnockout && match.scoreA === match.scoreB;
+  const handleRecordSubstitution = async () => {
+    if (!subPlayerOffId || !subPlayerOnId || !tournamentId || !matchId || !modalTeamId || !enteredEventTime || isSubmitting) return;
+    setIsSubmitting(true);
+    try {
+        await recordSubstitution(tournamentId, matchId, modalTeamId, subPlayerOffId, subPlayerOnId, enteredEventTime);
+        setSubModalOpen(false);
+    } catch (error) {
+        console.error("Failed to record substitution:", error);
+    } finally {
+        setIsSubmitting(false);
+    }
+  };
+  const handleRecordMatchEvent = async () => {
+    if (!eventModalType || !eventPlayerId || !tournamentId || !matchId || !modalTeamId || !enteredEventTime || isSubmitting) return;
+    setIsSubmitting(true);
+    try {
+        await recordMatchEvent(tournamentId, matchId, eventModalType, modalTeamId, { playerId: eventPlayerId, note: eventNote.trim() || undefined }, enteredEventTime);
+        setEventModalType(null);
+    } catch (error) {
+        console.error("Failed to record event:", error);
+    } finally {
+        setIsSubmitting(false);
+    }
+  };
+  const handleOverturnEvent = async () => {
+    const target = varTargets.find(t => `${t.kind}-${t.event._id}` === varTargetKey);
+    if (!target || target.kind === 'event' || !target.event._id || !tournamentId || !matchId || !enteredEventTime || isSubmitting) return;
+    setIsSubmitting(true);
+    try {
+        await overturnEvent(tournamentId, matchId, { kind: target.kind, eventId: target.event._id }, enteredEventTime);
+        setVarModalOpen(false);
+    } catch (error) {
+        console.error("Failed to overturn event:", error);
+    } finally {
+        setIsSubmitting(false);
+    }
+  };
+  const removeEvent = async (recorded: RecordedEvent) => {
+    if (!tournamentId || !matchId || !recorded.event._id) return;
+    setIsSubmitting(true);
+    try {
+        if (recorded.kind === 'goal') {
+            await deleteGoal(tournamentId, matchId, recorded.event._id);
+        } else if (recorded.kind === 'card') {
+            await deleteCard(tournamentId, matchId, recorded.event._id);
+        } else {
+            await deleteMatchEvent(tournamentId, matchId, recorded.event._id);
+        }
+    } catch (error) {
+        console.error("Failed to remove event:", error);
+    } finally {
+        setIsSubmitting(false);
+    }
+  };
+  const handleDeleteEvent = (recorded: RecordedEvent) => {
+    if (isSubmitting) return;
+    if (window.confirm(`Remove the ${describeRecordedEvent(recorded)}?`)) {
+        removeEvent(recorded);
+    }
+  };
+  const lastRecordedEvent = getLastRecordedEvent(match);
+  const handleUndoLastEvent = () => {
+    if (!lastRecordedEvent || isSubmitting) return;
+    if (window.confirm(`Undo the ${describeRecordedEvent(lastRecordedEvent)}?`)) {
+        removeEvent(lastRecordedEvent);
+    }
+  };
+  const matchEvents = getMatchEvents(match);
+  // Only synced goals and cards can be reviewed, since the overturn removes them on the server.
+  const varTargets = matchEvents.filter(recorded => recorded.kind !== 'event' && recorded.event._id);
+  const queuedEventCount = pendingEvents.filter(e => e.matchId === match._id).length;
+  const matchConflicts = syncConflicts.filter(c => c.event.matchId === match._id);
+  const auditLog = [...(match.auditLog || [])].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  const format = getTournamentFormat(tournament);
+  const isKnockout = isKnockoutMatch(match, format);
+  const needsPenalties = needsPenaltyShootout(match, format);
+  const shootoutKicks = match.shootoutKicks || [];
+  const shootout = getShootoutState(match);
+  const kickingSlot: MatchSlot | null = shootoutKicks.length > 0 ? shootout.nextSlot : firstKickSlot;
+  const kickingTeam = kickingSlot === 'A' ? teamA : kickingSlot === 'B' ? teamB : null;
+  const shootoutWinner = shootout.winnerSlot === 'A' ? teamA : shootout.winnerSlot === 'B' ? teamB : null;
+  // Players sent off during the match can't take part in the shootout.
+  const kickingTeamTakers = kickingTeam ? getSquad(tournament, kickingTeam._id).filter(p => !getSentOffPlayerIds(match).has(p._id)) : [];
+  const handleRecordKick = async (scored: boolean) => {
+    if (!tournamentId || !matchId || !kickingTeam || !shootoutTakerId || isSubmitting) return;
+    setShootoutError('');
+    setIsSubmitting(true);
+    try {
+        await recordShootoutKick(tournamentId, matchId, kickingTeam._id, shootoutTakerId, scored);
+        setShootoutTakerId('');
+    } catch (err: any) {
+        setShootoutError(err.message || 'Failed to record the kick.');
+    } finally {
+        setIsSubmitting(false);
+    }
+  };
+  const handleUndoKick = async () => {
+    const lastKick = shootoutKicks[shootoutKicks.length - 1];
+    if (!tournamentId || !matchId || !lastKick?._id || isSubmitting) return;
+    setShootoutError('');
+    setIsSubmitting(true);
+    try {
+        await deleteShootoutKick(tournamentId, matchId, lastKick._id);
+    } catch (err: any) {
+        setShootoutError(err.message || 'Failed to undo the kick.');
+    } finally {
+        setIsSubmitting(false);
+    }
+  };
+  // One marker per kick, padded to five with empty slots until sudden death.
+  const renderKickMarkers = (kicks: ShootoutKick[]) => (
+    <div className="flex flex-wrap gap-1">
+      {kicks.map((kick, index) => (
+        <span key={kick._id || index} title={kick.takerId?.profile?.name} className={`w-6 h-6 rounded-full flex items-center justify-center text-xs font-bold ${kick.scored ? 'bg-green-600' : 'bg-red-600'}`}>
+          {kick.scored ? '✓' : '✗'}
+        </span>
+      ))}
+      {Array.from({ length: Math.max(0, SHOOTOUT_KICKS_PER_TEAM - kicks.length) }).map((_, index) => (
+        <span key={`empty-${index}`} className="w-6 h-6 rounded-full border border-gray-500" />
+      ))}
+    </div>
+  );
+  const clockTransitions = getClockTransitions(clock, allowsExtraTime(match, format));
+  const handleClockTransition = async (period: MatchPeriod) => {
+    if (!tournamentId || !matchId || isSubmitting) return;
+    setIsSubmitting(true);
+    try {
+        await updateMatchClock(tournamentId, matchId, advanceClock(period));
+        setStoppageInput('');
+    } catch (error) {
+        console.error("Failed to update match clock:", error);
+    } finally {
+        setIsSubmitting(false);
+    }
+  };
+  const handleSetStoppage = async () => {
+    const stoppageMinutes = parseInt(stoppageInput, 10);
+    if (!tournamentId || !matchId || isNaN(stoppageMinutes) || stoppageMinutes < 0 || isSubmitting) return;
+    setIsSubmitting(true);
+    try {
+        await updateMatchClock(tournamentId, matchId, { ...clock, stoppageMinutes });
+        setStoppageInput('');
+    } catch (error) {
+        console.error("Failed to set stoppage time:", error);
+    } finally {
+        setIsSubmitting(false);
+    }
+  };
+  const sentOffPlayerIds = getSentOffPlayerIds(match);
+  const playerOptionLabel = (player: User) =>
+    sentOffPlayerIds.has(player._id) ? `${player.profile.name} (sent off)` :
+    suspendedPlayers.has(player._id) ? `${player.profile.name} (suspended)` :
+    player.profile.name;
+  // Sent-off players can't be picked for new events, but stay selectable when correcting one of their own.
+  const playerOption = (player: User, selectedId: string) => {
+    const isUnavailable = sentOffPlayerIds.has(player._id) && player._id !== selectedId;
+    return (
+      <option key={player._id} value={player._id} disabled={isUnavailable} className={isUnavailable ? 'text-gray-500' : ''}>
+        {playerOptionLabel(player)}
+      </option>
+    );
+  };
+  // Without a recorded lineup we can't tell who is on the pitch, so any team member can be swapped.
+  const modalTeamHasLineup = !!getTeamLineup(match, modalTeamId);
+  const subOffOptions = modalTeamHasLineup ? getPlayersOnPitch(match, modalTeamId) : modalTeamPlayers.filter(p => !sentOffPlayerIds.has(p._id));
+  const subOnOptions = (modalTeamHasLineup ? getAvailableSubstitutes(match, modalTeamId) : modalTeamPlayers).filter(p => p._id !== subPlayerOffId);
+  const substitutions = [...(match.substitutions || [])].sort(compareEventTimes);
+  const renderOnPitch = (team: Team) => {
+    const onPitch = getPlayersOnPitch(match, team._id);
+    if (onPitch.length === 0) return null;
+    return (
+      <div className="text-xs text-gray-400 mt-2 max-w-xs">
+        <p className="font-semibold text-gray-300">On the pitch ({onPitch.length})</p>
+        <p>{onPitch.map(p => p.profile?.name).join(', ')}</p>
+      </div>
+    );
+  };
+  const renderQuickActions = (team: Team) => (
+    <div className="grid grid-cols-2 gap-2 w-full max-w-xs">
+      {QUICK_ACTION_EVENT_TYPES.map(type => (
+        <button key={type} onClick={() => openEventModal(team._id, type)} className="bg-gray-600 hover:bg-gray-500 text-white font-semibold py-1 px-2 rounded-lg text-xs">
+          <span className={MATCH_EVENT_META[type].color}>{MATCH_EVENT_META[type].icon}</span> {MATCH_EVENT_META[type].label}
+        </button>
+      ))}
+    </div>
+  );
+  const renderEventIcon = (recorded: RecordedEvent) => {
+    if (recorded.kind === 'goal') return <span className="font-bold text-green-400">⚽</span>;
+    if (recorded.kind === 'card') {
+      return recorded.event.type === CardType.YELLOW ? <CardYellowIcon /> : <span className="flex">{recorded.event.isSecondYellow && <CardYellowIcon />}<CardRedIcon /></span>;
+    }
+    const meta = MATCH_EVENT_META[recorded.event.type];
+    return <span className={`font-bold text-xs ${meta?.color || 'text-gray-300'}`}>{meta?.icon || '•'}</span>;
+  };
+  const isSecondYellow = !editingCardId && cardType === CardType.YELLOW && !!cardPlayerId && hasYellowCard(match, cardPlayerId);
+  const suspensionWarning = (playerId: string) => {
+    const suspension = suspendedPlayers.get(playerId);
+    return suspension ? <p className="text-xs text-red-300 mt-1">{describeSuspension(suspension)} and should not be playing.</p> : null;
+  };
+  const eventTimeFields = (
+    <div>
+      <label className="block text-sm font-medium text-gray-300">Minute</label>
+      <div className="flex items-center gap-2 mt-1">
+        <input type="number" min={0} value={eventMinute} onChange={(e) => setEventMinute(e.target.value)} className="w-20 bg-gray-700 text-white p-2 rounded" placeholder="Min" />
+        <span className="text-gray-400">+</span>
+        <input type="number" min={0} value={eventAddedTime} onChange={(e) => setEventAddedTime(e.target.value)} className="w-20 bg-gray-700 text-white p-2 rounded" placeholder="Added" />
+        {enteredEventTime && <span className="text-sm text-gray-400">{formatEventTime(enteredEventTime)}</span>}
+      </div>
+      {!enteredEventTime && <p className="text-xs text-red-400 mt-1">Enter the minute of the event.</p>}
+    </div>
+  );
   const handleConfirmEndMatch = async () => {
     if (!tournamentId || !matchId || isSubmitting) return;
+    if (queuedEventCount > 0) {
+      setEndMatchError("Events recorded for this match are still waiting to sync. End the match once they have been sent.");
+      return;
+    }
    
     let penaltyPayload: { penaltyScoreA: number, penaltyScoreB: number } | undefined = undefined;
-    if (needsPenalties) {
+    if (needsPenalties && shootoutKicks.length > 0) {
+      if (!shootout.winnerSlot) {
+        setEndMatchError("The penalty shootout has not been decided yet.");
+        return;
+      }
+      penaltyPayload = { penaltyScoreA: shootout.scoreA, penaltyScoreB: shootout.scoreB };
+    } else if (needsPenalties) {
       const scoreA = parseInt(penaltyScores.scoreA, 10);
       const scoreB = parseInt(penaltyScores.scoreB, 10);
       if (isNaN(scoreA) || isNaN(scoreB) || scoreA < 0 || scoreB < 0) {
@@ -133,6 +464,10 @@ const LiveScoringPage: React.FC = () => {
         setEndMatchError("Penalty scores cannot be a draw.");
         return;
       }
+      if (!isPossibleShootoutScore(scoreA, scoreB)) {
+        setEndMatchError(`A shootout can't finish ${scoreA} - ${scoreB}; it would have been decided earlier.`);
+        return;
+      }
       penaltyPayload = { penaltyScoreA: scoreA, penaltyScoreB: scoreB };
     }
    
@@ -152,6 +487,46 @@ const LiveScoringPage: React.FC = () => {
     <div className="bg-gray-800 p-4 sm:p-6 rounded-lg shadow-lg max-w-4xl mx-auto">
       <h1 className="text-3xl font-bold text-center mb-2">Live Scoring</h1>
       <p className="text-center text-red-500 font-semibold animate-pulse mb-6">MATCH IS LIVE</p>
+      {(!isOnline || queuedEventCount > 0) && (
+        <div className="mb-4 p-3 rounded-lg text-sm bg-yellow-500/20 text-yellow-300">
+          {!isOnline ? "You're offline. " : ''}
+          {queuedEventCount > 0
+            ? `${queuedEventCount} event${queuedEventCount === 1 ? '' : 's'} waiting to sync. They will be sent automatically when the connection returns.`
+            : 'New goals, cards and other events will be saved on this device and synced automatically.'}
+        </div>
+      )}
+      {matchConflicts.map(conflict => (
+        <div key={conflict.event.id} className="mb-4 p-3 rounded-lg text-sm bg-red-500/20 text-red-300 flex items-start justify-between gap-4">
+          <span>A {conflict.event.kind} recorded offline could not be synced: {conflict.message}</span>
+          <button onClick={() => dismissSyncConflict(conflict.event.id!)} className="text-red-200 hover:text-white font-bold">&times;</button>
+        </div>
+      ))}
+      {suspendedPlayers.size > 0 && (
+        <div className="mb-4 p-3 rounded-lg text-sm bg-red-500/20 text-red-300">
+          <p className="font-semibold mb-1">Suspended for this match:</p>
+          <ul className="list-disc list-inside">
+            {[...suspendedPlayers.values()].map(s => <li key={s.player._id}>{describeSuspension(s)}</li>)}
+          </ul>
+        </div>
+      )}
+      <div className="bg-gray-700 rounded-lg p-4 mb-8 text-center">
+        <p className="text-sm uppercase tracking-wider text-gray-400">{PERIOD_LABELS[clock.period]}</p>
+        <p className={`text-5xl font-mono font-bold my-2 ${isClockRunning ? 'text-green-400' : 'text-gray-300'}`}>{clockDisplay}</p>
+        {clock.stoppageMinutes > 0 && <p className="text-sm text-yellow-400 font-semibold">+{clock.stoppageMinutes} min added time</p>}
+        <div className="flex flex-wrap justify-center gap-2 mt-3">
+          {clockTransitions.map(transition => (
+            <button key={transition.period} onClick={() => handleClockTransition(transition.period)} className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-lg text-sm disabled:bg-gray-500" disabled={isSubmitting}>
+              {transition.label}
+            </button>
+          ))}
+        </div>
+        {isClockRunning && (
+          <div className="flex justify-center items-center gap-2 mt-3">
+            <input type="number" min={0} value={stoppageInput} onChange={(e) => setStoppageInput(e.target.value)} className="w-24 bg-gray-800 text-white p-2 rounded text-sm" placeholder="Added min" />
+            <button onClick={handleSetStoppage} className="bg-yellow-600 hover:bg-yellow-700 text-white font-bold py-2 px-4 rounded-lg text-sm disabled:bg-gray-500" disabled={!stoppageInput || isSubmitting}>Set Added Time</button>
+          </div>
+        )}
+      </div>
       <div className="grid grid-cols-1 md:grid-cols-3 items-start mb-8 text-center">
         <div className="flex flex-col items-center gap-2">
            {teamA.logoUrl ? (
@@ -165,7 +540,10 @@ const LiveScoringPage: React.FC = () => {
           <div className="flex flex-col gap-2 w-full max-w-xs mt-2">
             <button onClick={() => openGoalModal(teamA._id)} className="bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-6 rounded-lg text-md"> + Goal </button>
             <button onClick={() => openCardModal(teamA._id)} className="bg-yellow-500 hover:bg-yellow-600 text-white font-bold py-2 px-6 rounded-lg text-md"> + Card </button>
+            <button onClick={() => openSubModal(teamA._id)} className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-6 rounded-lg text-md"> ⇄ Sub </button>
           </div>
+          {renderQuickActions(teamA)}
+          {renderOnPitch(teamA)}
         </div>
         <div className="text-4xl md:text-6xl font-extrabold mt-4 md:mt-12">{match.scoreA} - {match.scoreB}</div>
         <div className="flex flex-col items-center gap-2">
@@ -180,10 +558,125 @@ const LiveScoringPage: React.FC = () => {
            <div className="flex flex-col gap-2 w-full max-w-xs mt-2">
             <button onClick={() => openGoalModal(teamB._id)} className="bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-6 rounded-lg text-md"> + Goal </button>
             <button onClick={() => openCardModal(teamB._id)} className="bg-yellow-500 hover:bg-yellow-600 text-white font-bold py-2 px-6 rounded-lg text-md"> + Card </button>
+            <button onClick={() => openSubModal(teamB._id)} className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-6 rounded-lg text-md"> ⇄ Sub </button>
+          </div>
+          {renderQuickActions(teamB)}
+          {renderOnPitch(teamB)}
+        </div>
+      </div>
+      <div className="border-t border-gray-700 pt-6">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-xl font-bold">Match Events</h3>
+          <div className="flex gap-2">
+            <button onClick={openVarModal} className="bg-purple-600 hover:bg-purple-700 text-white font-bold py-1 px-3 rounded-lg text-sm disabled:opacity-50 disabled:cursor-not-allowed" disabled={varTargets.length === 0 || isSubmitting}>
+              VAR Review
+            </button>
+            <button onClick={handleUndoLastEvent} className="bg-gray-600 hover:bg-gray-700 text-white font-bold py-1 px-3 rounded-lg text-sm disabled:opacity-50 disabled:cursor-not-allowed" disabled={!lastRecordedEvent?.event._id || isSubmitting}>
+              Undo Last Event
+            </button>
           </div>
         </div>
+        {matchEvents.length > 0 ? (
+          <ul className="space-y-2">
+            {matchEvents.map((recorded, index) => {
+              const team = recorded.event.teamId === teamA._id ? teamA : teamB;
+              return (
+                <li key={recorded.event._id || `${recorded.kind}-${index}`} className="flex items-center gap-3 bg-gray-700 p-2 rounded-md text-sm">
+                  <span className="w-12 flex-shrink-0 font-mono text-gray-400">{formatEventTime(recorded.event)}</span>
+                  {renderEventIcon(recorded)}
+                  <span className="flex-grow first-letter:uppercase">{describeRecordedEvent(recorded)} <span className="text-gray-400">- {team.name}</span>{!recorded.event._id && <span className="ml-2 text-xs text-yellow-400">(not synced)</span>}</span>
+                  {recorded.kind !== 'event' && <button onClick={() => recorded.kind === 'goal' ? openEditGoalModal(recorded.event) : openEditCardModal(recorded.event)} className="text-gray-400 hover:text-white disabled:opacity-50" title="Edit event" disabled={!recorded.event._id || isSubmitting}><EditIcon /></button>}
+                  <button onClick={() => handleDeleteEvent(recorded)} className="text-red-400 hover:text-red-300 disabled:opacity-50" title="Delete event" disabled={!recorded.event._id || isSubmitting}><TrashIcon /></button>
+                </li>
+              );
+            })}
+          </ul>
+        ) : (
+          <p className="text-gray-400 text-sm">No events recorded yet.</p>
+        )}
+        {substitutions.length > 0 && (
+          <div className="mt-6">
+            <h4 className="font-semibold text-gray-300 mb-2">Substitutions</h4>
+            <ul className="space-y-1 text-sm">
+              {substitutions.map((sub, index) => (
+                <li key={sub._id || index} className="flex items-center gap-3 bg-gray-700 p-2 rounded-md">
+                  <span className="w-12 flex-shrink-0 font-mono text-gray-400">{formatEventTime(sub)}</span>
+                  <span className="font-bold text-blue-400">⇄</span>
+                  <span className="flex-grow">
+                    <span className="text-green-400">{sub.playerOnId?.profile?.name || 'Unknown player'}</span> on, <span className="text-red-400">{sub.playerOffId?.profile?.name || 'unknown player'}</span> off
+                    <span className="text-gray-400"> - {sub.teamId === teamA._id ? teamA.name : teamB.name}</span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        {auditLog.length > 0 && (
+          <div className="mt-6">
+            <h4 className="font-semibold text-gray-300 mb-2">Change Log</h4>
+            <ul className="space-y-1 text-xs text-gray-400">
+              {auditLog.map((entry, index) => (
+                <li key={entry._id || index}>
+                  <span className="text-gray-300 font-semibold">{entry.changedBy?.profile?.name || 'Unknown user'}</span>: {entry.description}
+                  <span className="ml-2">{new Date(entry.createdAt).toLocaleString()}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
       </div>
+      {needsPenalties && (isShootoutOpen || shootoutKicks.length > 0) && (
+        <div className="mt-8 border-t border-gray-700 pt-6">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-xl font-bold">Penalty Shootout{shootout.isSuddenDeath && !shootoutWinner && <span className="ml-2 text-sm text-yellow-400">Sudden death</span>}</h3>
+            <button onClick={handleUndoKick} className="bg-gray-600 hover:bg-gray-700 text-white font-bold py-1 px-3 rounded-lg text-sm disabled:opacity-50 disabled:cursor-not-allowed" disabled={!shootoutKicks[shootoutKicks.length - 1]?._id || isSubmitting}>
+              Undo Last Kick
+            </button>
+          </div>
+          <div className="bg-gray-700 rounded-lg p-4 space-y-3">
+            {[{ team: teamA, kicks: shootout.kicksA, score: shootout.scoreA }, { team: teamB, kicks: shootout.kicksB, score: shootout.scoreB }].map(({ team, kicks, score }) => (
+              <div key={team._id} className="flex items-center gap-4">
+                <span className="w-32 font-semibold truncate">{team.name}</span>
+                <span className="w-6 text-2xl font-bold text-center">{score}</span>
+                {renderKickMarkers(kicks)}
+              </div>
+            ))}
+          </div>
+          {shootoutWinner ? (
+            <div className="mt-4 p-3 rounded-lg bg-green-500/20 text-green-300 flex items-center justify-between gap-4">
+              <span className="font-semibold">{shootoutWinner.name} win the shootout {Math.max(shootout.scoreA, shootout.scoreB)} - {Math.min(shootout.scoreA, shootout.scoreB)}.</span>
+              <button onClick={() => setEndModalOpen(true)} className="bg-red-600 hover:bg-red-700 text-white font-bold py-2 px-4 rounded-lg text-sm">End Match</button>
+            </div>
+          ) : kickingTeam && (
+            <div className="mt-4 space-y-3">
+              {shootoutKicks.length === 0 && (
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="text-gray-300">Kicking first:</span>
+                  {([['A', teamA], ['B', teamB]] as [MatchSlot, Team][]).map(([slot, team]) => (
+                    <button key={slot} onClick={() => { setFirstKickSlot(slot); setShootoutTakerId(''); }} className={`py-1 px-3 rounded-lg font-semibold ${firstKickSlot === slot ? 'bg-green-600 text-white' : 'bg-gray-600 text-gray-300 hover:bg-gray-500'}`}>{team.name}</button>
+                  ))}
+                </div>
+              )}
+              <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                <span className="font-semibold whitespace-nowrap">Kick {kickingTeam === teamA ? shootout.kicksA.length + 1 : shootout.kicksB.length + 1} for {kickingTeam.name}:</span>
+                <select value={shootoutTakerId} onChange={(e) => setShootoutTakerId(e.target.value)} className="flex-grow bg-gray-700 text-white p-2 rounded">
+                  <option value="">Select taker</option>
+                  {kickingTeamTakers.map(p => <option key={p._id} value={p._id}>{p.profile.name}</option>)}
+                </select>
+                <button onClick={() => handleRecordKick(true)} className="bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-lg disabled:bg-gray-500 disabled:cursor-not-allowed" disabled={!shootoutTakerId || isSubmitting}>Scored</button>
+                <button onClick={() => handleRecordKick(false)} className="bg-red-600 hover:bg-red-700 text-white font-bold py-2 px-4 rounded-lg disabled:bg-gray-500 disabled:cursor-not-allowed" disabled={!shootoutTakerId || isSubmitting}>Missed</button>
+              </div>
+            </div>
+          )}
+          {shootoutError && <p className="text-red-400 text-sm mt-2">{shootoutError}</p>}
+        </div>
+      )}
       <div className="text-center mt-12 border-t border-gray-700 pt-6">
+        {needsPenalties && !isShootoutOpen && shootoutKicks.length === 0 && (
+          <button onClick={() => setShootoutOpen(true)} className="bg-yellow-600 hover:bg-yellow-700 text-white font-bold py-3 px-10 rounded-lg text-lg mr-4">
+            Start Penalty Shootout
+          </button>
+        )}
         <button
           onClick={() => setEndModalOpen(true)}
           className="bg-red-600 hover:bg-red-700 text-white font-bold py-3 px-10 rounded-lg text-lg"
@@ -195,31 +688,40 @@ const LiveScoringPage: React.FC = () => {
       {isGoalModalOpen && (
         <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50">
           <div className="bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-md">
-            <h3 className="text-xl font-bold mb-4">Record Goal</h3>
+            <h3 className="text-xl font-bold mb-4">{editingGoalId ? 'Edit Goal' : 'Record Goal'}</h3>
             <div className="space-y-4">
               <div className="flex items-center">
                 <input type="checkbox" id="ownGoal" checked={isOwnGoal} onChange={(e) => setIsOwnGoal(e.target.checked)} className="h-4 w-4 rounded bg-gray-700 border-gray-600 text-green-500 focus:ring-green-500"/>
                 <label htmlFor="ownGoal" className="ml-2 text-sm font-medium text-gray-300">Is this an Own Goal?</label>
               </div>
+              {!isOwnGoal && (
+                <div className="flex items-center">
+                  <input type="checkbox" id="penaltyGoal" checked={isPenalty} onChange={(e) => setIsPenalty(e.target.checked)} className="h-4 w-4 rounded bg-gray-700 border-gray-600 text-green-500 focus:ring-green-500"/>
+                  <label htmlFor="penaltyGoal" className="ml-2 text-sm font-medium text-gray-300">Scored from the penalty spot</label>
+                </div>
+              )}
               <div>
                 <label className="block text-sm font-medium text-gray-300">Scorer</label>
                 <select value={scorerId} onChange={(e) => setScorerId(e.target.value)} className="w-full bg-gray-700 text-white p-2 rounded mt-1">
                   <option value="">Select scorer</option>
-                  {scorerPlayers.map((p) => (<option key={p._id} value={p._id}>{p.profile.name}</option>))}
+                  {scorerPlayers.map((p) => playerOption(p, scorerId))}
                 </select>
+                {suspensionWarning(scorerId)}
               </div>
               <div>
                 <label className="block text-sm font-medium text-gray-300">Assist (Optional)</label>
                 <select value={assistId} onChange={(e) => setAssistId(e.target.value)} className="w-full bg-gray-700 text-white p-2 rounded mt-1">
                   <option value="">Select assist provider</option>
-                  {assistPlayers.map((p) => (<option key={p._id} value={p._id}>{p.profile.name}</option>))}
+                  {assistPlayers.map((p) => playerOption(p, assistId))}
                 </select>
+                {suspensionWarning(assistId)}
               </div>
+              {eventTimeFields}
             </div>
             <div className="flex justify-end gap-4 mt-6">
               <button onClick={() => setGoalModalOpen(false)} className="bg-gray-600 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded-lg"> Cancel </button>
-              <button onClick={handleRecordGoal} className="bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-lg disabled:bg-gray-500 disabled:cursor-not-allowed" disabled={!scorerId || isSubmitting}>
-                 {isSubmitting ? 'Confirming...' : 'Confirm Goal'}
+              <button onClick={handleRecordGoal} className="bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-lg disabled:bg-gray-500 disabled:cursor-not-allowed" disabled={!scorerId || !enteredEventTime || isSubmitting}>
+                 {isSubmitting ? 'Confirming...' : editingGoalId ? 'Save Goal' : 'Confirm Goal'}
               </button>
             </div>
           </div>
@@ -228,14 +730,15 @@ const LiveScoringPage: React.FC = () => {
       {isCardModalOpen && (
         <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50">
           <div className="bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-md">
-            <h3 className="text-xl font-bold mb-4">Record Card</h3>
+            <h3 className="text-xl font-bold mb-4">{editingCardId ? 'Edit Card' : 'Record Card'}</h3>
             <div className="space-y-4">
               <div>
                 <label className="block text-sm font-medium text-gray-300">Player</label>
                 <select value={cardPlayerId} onChange={(e) => setCardPlayerId(e.target.value)} className="w-full bg-gray-700 text-white p-2 rounded mt-1">
                   <option value="">Select player</option>
-                  {modalTeamPlayers.map((p) => (<option key={p._id} value={p._id}>{p.profile.name}</option>))}
+                  {modalTeamPlayers.map((p) => playerOption(p, cardPlayerId))}
                 </select>
+                {suspensionWarning(cardPlayerId)}
               </div>
                <div>
                 <label className="block text-sm font-medium text-gray-300">Card Type</label>
@@ -250,11 +753,99 @@ const LiveScoringPage: React.FC = () => {
                   </label>
                 </div>
               </div>
+              {isSecondYellow && <p className="text-sm text-red-300">This is the player's second yellow card of the match. It will be recorded as a red card and the player sent off.</p>}
+              {eventTimeFields}
             </div>
             <div className="flex justify-end gap-4 mt-6">
               <button onClick={() => setCardModalOpen(false)} className="bg-gray-600 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded-lg">Cancel</button>
-              <button onClick={handleRecordCard} className="bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-lg disabled:bg-gray-500 disabled:cursor-not-allowed" disabled={!cardPlayerId || isSubmitting}>
-                 {isSubmitting ? 'Confirming...' : 'Confirm Card'}
+              <button onClick={handleRecordCard} className="bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-lg disabled:bg-gray-500 disabled:cursor-not-allowed" disabled={!cardPlayerId || !enteredEventTime || isSubmitting}>
+                 {isSubmitting ? 'Confirming...' : editingCardId ? 'Save Card' : 'Confirm Card'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+      {isSubModalOpen && (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50">
+          <div className="bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-md">
+            <h3 className="text-xl font-bold mb-4">Substitution</h3>
+            <div className="space-y-4">
+              {!modalTeamHasLineup && <p className="text-sm text-yellow-300">No lineup was recorded for this team, so every squad member is listed.</p>}
+              <div>
+                <label className="block text-sm font-medium text-gray-300">Player Off</label>
+                <select value={subPlayerOffId} onChange={(e) => setSubPlayerOffId(e.target.value)} className="w-full bg-gray-700 text-white p-2 rounded mt-1">
+                  <option value="">Select player leaving the pitch</option>
+                  {subOffOptions.map((p) => (<option key={p._id} value={p._id}>{p.profile.name}</option>))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300">Player On</label>
+                <select value={subPlayerOnId} onChange={(e) => setSubPlayerOnId(e.target.value)} className="w-full bg-gray-700 text-white p-2 rounded mt-1">
+                  <option value="">Select substitute</option>
+                  {subOnOptions.map((p) => (<option key={p._id} value={p._id}>{playerOptionLabel(p)}</option>))}
+                </select>
+                {suspensionWarning(subPlayerOnId)}
+                {modalTeamHasLineup && subOnOptions.length === 0 && <p className="text-xs text-gray-400 mt-1">No substitutes left on the bench.</p>}
+              </div>
+              {eventTimeFields}
+            </div>
+            <div className="flex justify-end gap-4 mt-6">
+              <button onClick={() => setSubModalOpen(false)} className="bg-gray-600 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded-lg">Cancel</button>
+              <button onClick={handleRecordSubstitution} className="bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-lg disabled:bg-gray-500 disabled:cursor-not-allowed" disabled={!subPlayerOffId || !subPlayerOnId || !enteredEventTime || isSubmitting}>
+                 {isSubmitting ? 'Confirming...' : 'Confirm Substitution'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+      {eventModalType && (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50">
+          <div className="bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-md">
+            <h3 className="text-xl font-bold mb-4">{MATCH_EVENT_META[eventModalType].label} - {modalTeamId === teamA._id ? teamA.name : teamB.name}</h3>
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-300">{MATCH_EVENT_META[eventModalType].playerLabel}</label>
+                <select value={eventPlayerId} onChange={(e) => setEventPlayerId(e.target.value)} className="w-full bg-gray-700 text-white p-2 rounded mt-1">
+                  <option value="">Select player</option>
+                  {modalTeamPlayers.map((p) => playerOption(p, eventPlayerId))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300">Note (Optional)</label>
+                <input type="text" value={eventNote} onChange={(e) => setEventNote(e.target.value)} className="w-full bg-gray-700 text-white p-2 rounded mt-1" placeholder={eventModalType === MatchEventType.INJURY ? 'e.g. Hamstring, stretchered off' : ''} />
+              </div>
+              {eventTimeFields}
+            </div>
+            <div className="flex justify-end gap-4 mt-6">
+              <button onClick={() => setEventModalType(null)} className="bg-gray-600 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded-lg">Cancel</button>
+              <button onClick={handleRecordMatchEvent} className="bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-lg disabled:bg-gray-500 disabled:cursor-not-allowed" disabled={!eventPlayerId || !enteredEventTime || isSubmitting}>
+                 {isSubmitting ? 'Confirming...' : 'Confirm'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+      {isVarModalOpen && (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50">
+          <div className="bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-md">
+            <h3 className="text-xl font-bold mb-2">VAR Review</h3>
+            <p className="text-sm text-gray-400 mb-4">The overturned goal or card is removed and the review is noted on the timeline.</p>
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-300">Decision to Overturn</label>
+                <select value={varTargetKey} onChange={(e) => setVarTargetKey(e.target.value)} className="w-full bg-gray-700 text-white p-2 rounded mt-1">
+                  <option value="">Select goal or card</option>
+                  {varTargets.map(target => (
+                    <option key={`${target.kind}-${target.event._id}`} value={`${target.kind}-${target.event._id}`}>{describeRecordedEvent(target)}</option>
+                  ))}
+                </select>
+              </div>
+              {eventTimeFields}
+            </div>
+            <div className="flex justify-end gap-4 mt-6">
+              <button onClick={() => setVarModalOpen(false)} className="bg-gray-600 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded-lg">Cancel</button>
+              <button onClick={handleOverturnEvent} className="bg-purple-600 hover:bg-purple-700 text-white font-bold py-2 px-4 rounded-lg disabled:bg-gray-500 disabled:cursor-not-allowed" disabled={!varTargetKey || !enteredEventTime || isSubmitting}>
+                 {isSubmitting ? 'Confirming...' : 'Overturn Decision'}
               </button>
             </div>
           </div>
@@ -268,10 +859,17 @@ const LiveScoringPage: React.FC = () => {
               Are you sure you want to end this match? Final Score: {teamA.name} {match.scoreA} - {match.scoreB}{' '}
               {teamB.name}
             </p>
-            {needsPenalties && (
+            {needsPenalties && shootoutKicks.length > 0 && (
+                <div className="my-4 border-t border-b border-gray-700 py-4">
+                    <h4 className="font-semibold text-lg text-yellow-400 mb-2">Penalty Shootout</h4>
+                    <p className="text-gray-300">{teamA.name} {shootout.scoreA} - {shootout.scoreB} {teamB.name}</p>
+                    {!shootoutWinner && <p className="text-sm text-gray-400 mt-1">Finish recording the shootout before ending the match.</p>}
+                </div>
+            )}
+            {needsPenalties && shootoutKicks.length === 0 && (
                 <div className="my-4 border-t border-b border-gray-700 py-4">
                     <h4 className="font-semibold text-lg text-yellow-400 mb-3">Penalty Shootout Required</h4>
-                    <p className="text-sm text-gray-400 mb-4">This is a knockout match that ended in a draw. Please enter the final penalty shootout scores to determine a winner.</p>
+                    <p className="text-sm text-gray-400 mb-4">This is a knockout match that ended in a draw. Please enter the final penalty shootout scores to determine a winner, or record the shootout kick by kick instead.</p>
                     <div className="grid grid-cols-2 gap-4 items-center">
                         <div className="text-center">
                             <label className="font-bold text-lg">{teamA.name}</label>
@@ -296,10 +894,15 @@ const LiveScoringPage: React.FC = () => {
                     </div>
                 </div>
             )}
+            {queuedEventCount > 0 && (
+                <p className="text-sm text-yellow-300 mt-2">
+                    {queuedEventCount} event{queuedEventCount === 1 ? ' is' : 's are'} still waiting to sync. The match can be ended once {queuedEventCount === 1 ? 'it has' : 'they have'} been sent, so the final score includes {queuedEventCount === 1 ? 'it' : 'them'}.
+                </p>
+            )}
             {endMatchError && <p className="text-red-400 text-sm mt-2">{endMatchError}</p>}
             <div className="flex justify-end gap-4 mt-6">
               <button onClick={() => setEndModalOpen(false)} className="bg-gray-600 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded-lg"> Cancel </button>
-              <button onClick={handleConfirmEndMatch} className="bg-red-600 hover:bg-red-700 text-white font-bold py-2 px-4 rounded-lg disabled:bg-gray-500 disabled:cursor-not-allowed" disabled={isSubmitting}>
+              <button onClick={handleConfirmEndMatch} className="bg-red-600 hover:bg-red-700 text-white font-bold py-2 px-4 rounded-lg disabled:bg-gray-500 disabled:cursor-not-allowed" disabled={isSubmitting || queuedEventCount > 0}>
                  {isSubmitting ? 'Confirming...' : 'Confirm End Match'}
               </button>
             </div>
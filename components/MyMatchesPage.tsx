@@ -3,6 +3,8 @@ import React, { useMemo } from 'react';
 import { useSearchParams, Link } from 'react-router-dom';
 import { useAppContext } from '../hooks/useAppContext';
 import { Match, MatchStatus, Team, Tournament, User } from '../types';
+import { isInMatchSquad } from '../utils/lineups';
+import { getSquad } from '../utils/squads';
 
 const MatchCard: React.FC<{ match: Match }> = ({ match }) => {
     const { tournaments } = useAppContext();
@@ -61,7 +63,7 @@ const MatchCard: React.FC<{ match: Match }> = ({ match }) => {
 type MatchView = 'upcoming' | 'live' | 'past';
 
 const MyMatchesPage: React.FC = () => {
-    const { currentUser, tournaments } = useAppContext();
+    const { currentUser, tournaments, liveConnectionStatus } = useAppContext();
     const [searchParams, setSearchParams] = useSearchParams();
 
     const activeView = (searchParams.get('view') as MatchView) || 'upcoming';
@@ -90,10 +92,12 @@ const MyMatchesPage: React.FC = () => {
                     return;
                 }
 
-                // Check if the current user is a member of either team
-                const isUserInMatch = 
-                    fullTeamA.members.some(m => m?._id === currentUser._id) ||
-                    fullTeamB.members.some(m => m?._id === currentUser._id);
+                // Once lineups are set only the named players count; before that (and for older
+                // matches without lineups) fall back to either team's registered squad.
+                const isUserInMatch = match.lineups?.length
+                    ? isInMatchSquad(match, currentUser._id)
+                    : getSquad(tournament, fullTeamA._id).some(m => m._id === currentUser._id) ||
+                      getSquad(tournament, fullTeamB._id).some(m => m._id === currentUser._id);
 
                 if (isUserInMatch) {
                     // Create a new match object for the UI, ensuring it has the fully populated team data.
@@ -151,6 +155,12 @@ const MyMatchesPage: React.FC = () => {
                 </nav>
             </div>
             
+            {activeView === 'live' && liveConnectionStatus === 'reconnecting' && (
+                <div className="mb-4 p-3 rounded-lg text-sm bg-yellow-500/20 text-yellow-300">
+                    Reconnecting to live updates. Scores may be out of date.
+                </div>
+            )}
+
             <div className="space-y-4">
                 {matchesToDisplay.length > 0 ? (
                     matchesToDisplay.map(match => (
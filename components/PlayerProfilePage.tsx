@@ -4,6 +4,9 @@ import { useParams, Link } from 'react-router-dom';
 import { useAppContext } from '../hooks/useAppContext';
 import { MatchStatus, User, Team } from '../types';
 import { FootballIcon } from './common/Icons';
+import { getCareerAppearances } from '../utils/lineups';
+import { getCareerDefensiveRecord, isDefensivePlayer } from '../utils/playerStats';
+import { getSquadTeam } from '../utils/squads';
 
 const PlayerProfilePage: React.FC = () => {
   const { playerId } = useParams<{ playerId: string }>();
@@ -38,32 +41,16 @@ const PlayerProfilePage: React.FC = () => {
   }, [playerId, getUserById]);
   
   const stats = useMemo(() => {
-    if (!player) return { matchesPlayed: 0, goals: 0, assists: 0, potm: 0 };
+    if (!player) return { matchesPlayed: 0, minutesPlayed: 0, goals: 0, assists: 0, potm: 0 };
     
-    let matchesPlayed = 0;
+    // Appearances come from match lineups, falling back to the registered squads for older matches.
+    const { matchesPlayed, minutesPlayed } = getCareerAppearances(tournaments, player._id);
     let goals = 0;
     let assists = 0;
     let potm = 0;
 
     tournaments.forEach(tournament => {
       tournament.matches.forEach(match => {
-        if (!match.teamAId?._id || !match.teamBId?._id) return;
-
-        // FIX: Look up the full team objects from the tournament's teams list
-        // to ensure the 'members' array is fully populated.
-        const fullTeamA = tournament.teams.find(t => t._id === match.teamAId._id);
-        const fullTeamB = tournament.teams.find(t => t._id === match.teamBId._id);
-
-        if (!fullTeamA || !fullTeamB) return; // Cannot determine player involvement
-        
-        const isPlayerInMatch = 
-            (fullTeamA.members || []).some(m => m?._id === player._id) || 
-            (fullTeamB.members || []).some(m => m?._id === player._id);
-        
-        if (isPlayerInMatch && match.status === MatchStatus.FINISHED) {
-          matchesPlayed++;
-        }
-        
         match.goals.forEach(goal => {
           if (goal.scorerId?._id === player._id && !goal.isOwnGoal) {
             goals++;
@@ -79,9 +66,15 @@ const PlayerProfilePage: React.FC = () => {
       });
     });
 
-    return { matchesPlayed, goals, assists, potm };
+    return { matchesPlayed, minutesPlayed, goals, assists, potm };
   }, [player, tournaments]);
 
+  const defensiveRecord = useMemo(
+    () => player ? getCareerDefensiveRecord(tournaments, player._id) : null,
+    [player, tournaments]
+  );
+  const showDefensiveStats = !!player && !!defensiveRecord && (isDefensivePlayer(player) || defensiveRecord.saves > 0);
+
   if (isLoading) {
     return <div className="text-center p-10"><FootballIcon className="h-12 w-12 mx-auto text-green-500 animate-spin"/></div>;
   }
@@ -91,6 +84,10 @@ const PlayerProfilePage: React.FC = () => {
   }
   
   const playerTeams = teams.filter(team => team.members.some(m => m._id === player._id));
+  // Registered squads rather than current teams, so past tournaments stay listed after a transfer.
+  const tournamentHistory = tournaments
+    .map(tournament => ({ tournament, team: getSquadTeam(tournament, player._id) }))
+    .filter(entry => entry.team);
 
   return (
     <div className="bg-gray-800 p-6 rounded-lg shadow-lg max-w-4xl mx-auto">
@@ -108,10 +105,14 @@ const PlayerProfilePage: React.FC = () => {
       
       <div className="mt-8 border-t border-gray-700 pt-6">
         <h2 className="text-2xl font-semibold mb-4">Career Statistics</h2>
-        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 text-center">
+        <div className="grid grid-cols-2 lg:grid-cols-5 gap-4 text-center">
             <div className="bg-gray-700 p-4 rounded-lg">
                 <p className="text-3xl font-bold text-green-400">{stats.matchesPlayed}</p>
                 <p className="text-gray-400">Matches Played</p>
+            </div>
+            <div className="bg-gray-700 p-4 rounded-lg">
+                <p className="text-3xl font-bold text-green-400">{stats.minutesPlayed}</p>
+                <p className="text-gray-400">Minutes Played</p>
             </div>
              <div className="bg-gray-700 p-4 rounded-lg">
                 <p className="text-3xl font-bold text-green-400">{stats.goals}</p>
@@ -126,6 +127,22 @@ const PlayerProfilePage: React.FC = () => {
                 <p className="text-gray-400">Player of the Match</p>
             </div>
         </div>
+        {showDefensiveStats && (
+          <div className="grid grid-cols-3 gap-4 text-center mt-4">
+              <div className="bg-gray-700 p-4 rounded-lg">
+                  <p className="text-3xl font-bold text-blue-400">{defensiveRecord.cleanSheets}</p>
+                  <p className="text-gray-400">Clean Sheets</p>
+              </div>
+              <div className="bg-gray-700 p-4 rounded-lg">
+                  <p className="text-3xl font-bold text-blue-400">{defensiveRecord.goalsConceded}</p>
+                  <p className="text-gray-400">Goals Conceded</p>
+              </div>
+              <div className="bg-gray-700 p-4 rounded-lg">
+                  <p className="text-3xl font-bold text-blue-400">{defensiveRecord.saves}</p>
+                  <p className="text-gray-400">Saves</p>
+              </div>
+          </div>
+        )}
       </div>
 
       <div className="mt-8 grid grid-cols-1 md:grid-cols-2 gap-6 border-t border-gray-700 pt-6">
@@ -166,6 +183,20 @@ const PlayerProfilePage: React.FC = () => {
           )}
         </div>
       </div>
+
+      {tournamentHistory.length > 0 && (
+        <div className="mt-8 border-t border-gray-700 pt-6">
+          <h2 className="text-2xl font-semibold mb-4">Tournaments</h2>
+          <div className="space-y-3">
+            {tournamentHistory.map(({ tournament, team }) => (
+              <Link to={`/tournament/${tournament._id}`} key={tournament._id} className="flex items-center justify-between gap-4 bg-gray-700 p-3 rounded-lg hover:bg-gray-600 transition-colors">
+                <span className="font-bold text-lg">{tournament.name}</span>
+                <span className="text-gray-400">{team!.name}</span>
+              </Link>
+            ))}
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -1,6 +1,6 @@
 
 import React, { useState } from 'react';
-import { useAppContext } from '../hooks/useAppContext';
+import { useAppActions, useAppState } from '../hooks/useAppContext';
 import { PlayerPosition } from '../types';
 
 interface ProfileModalProps {
@@ -52,7 +52,8 @@ const fileToDataUri = (file: File, maxSize = 256): Promise<string> => {
 };
 
 const ProfileModal: React.FC<ProfileModalProps> = ({ isOpen, onClose }) => {
-  const { currentUser, updateProfile } = useAppContext();
+  const { currentUser } = useAppState();
+  const { updateProfile } = useAppActions();
   const [age, setAge] = useState<number | ''>('');
   const [position, setPosition] = useState<PlayerPosition | ''>('');
   const [image, setImage] = useState<File | null>(null);
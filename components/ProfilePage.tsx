@@ -3,6 +3,8 @@ import React, { useState, useEffect, useMemo } from 'react';
 import { useAppContext } from '../hooks/useAppContext';
 import { PlayerPosition, PlayerProfile, MatchStatus, Team, User } from '../types';
 import { TrophyIcon, StarIcon } from './common/Icons';
+import { getCareerAppearances } from '../utils/lineups';
+import { getCareerDefensiveRecord, isDefensivePlayer } from '../utils/playerStats';
 
 const fileToDataUri = (file: File, maxSize = 256): Promise<string> => {
     return new Promise((resolve, reject) => {
@@ -54,32 +56,16 @@ const ProfilePage: React.FC = () => {
   const [imageFile, setImageFile] = useState<File | null>(null);
 
   const stats = useMemo(() => {
-    if (!currentUser) return { matchesPlayed: 0, goals: 0, assists: 0, potm: 0 };
+    if (!currentUser) return { matchesPlayed: 0, minutesPlayed: 0, goals: 0, assists: 0, potm: 0 };
     
-    let matchesPlayed = 0;
+    // Appearances come from match lineups, falling back to the registered squads for older matches.
+    const { matchesPlayed, minutesPlayed } = getCareerAppearances(tournaments, currentUser._id);
     let goals = 0;
     let assists = 0;
     let potm = 0;
 
     tournaments.forEach(tournament => {
       tournament.matches.forEach(match => {
-        if (!match.teamAId?._id || !match.teamBId?._id) return;
-
-        // FIX: Look up the full team objects from the tournament's teams list
-        // to ensure the 'members' array is fully populated.
-        const fullTeamA = tournament.teams.find(t => t._id === match.teamAId._id);
-        const fullTeamB = tournament.teams.find(t => t._id === match.teamBId._id);
-
-        if (!fullTeamA || !fullTeamB) return; // Cannot determine player involvement
-
-        const isPlayerInMatch = 
-            (fullTeamA.members || []).some(m => m?._id === currentUser._id) || 
-            (fullTeamB.members || []).some(m => m?._id === currentUser._id);
-        
-        if (isPlayerInMatch && match.status === MatchStatus.FINISHED) {
-          matchesPlayed++;
-        }
-        
         match.goals.forEach(goal => {
           if (goal.scorerId?._id === currentUser._id && !goal.isOwnGoal) {
             goals++;
@@ -95,9 +81,15 @@ const ProfilePage: React.FC = () => {
       });
     });
 
-    return { matchesPlayed, goals, assists, potm };
+    return { matchesPlayed, minutesPlayed, goals, assists, potm };
   }, [currentUser, tournaments]);
 
+  const defensiveRecord = useMemo(
+    () => currentUser ? getCareerDefensiveRecord(tournaments, currentUser._id) : null,
+    [currentUser, tournaments]
+  );
+  const showDefensiveStats = !!currentUser && !!defensiveRecord && (isDefensivePlayer(currentUser) || defensiveRecord.saves > 0);
+
   useEffect(() => {
     if (currentUser) {
       setFormData({ ...currentUser.profile });
@@ -215,10 +207,14 @@ const ProfilePage: React.FC = () => {
       
       <div className="mt-8 border-t border-gray-700 pt-6">
         <h2 className="text-2xl font-semibold mb-4">Career Statistics</h2>
-        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 text-center">
+        <div className="grid grid-cols-2 lg:grid-cols-5 gap-4 text-center">
             <div className="bg-gray-700 p-4 rounded-lg">
                 <p className="text-3xl font-bold text-green-400">{stats.matchesPlayed}</p>
                 <p className="text-gray-400">Matches Played</p>
+            </div>
+            <div className="bg-gray-700 p-4 rounded-lg">
+                <p className="text-3xl font-bold text-green-400">{stats.minutesPlayed}</p>
+                <p className="text-gray-400">Minutes Played</p>
             </div>
              <div className="bg-gray-700 p-4 rounded-lg">
                 <p className="text-3xl font-bold text-green-400">{stats.goals}</p>
@@ -233,6 +229,22 @@ const ProfilePage: React.FC = () => {
                 <p className="text-gray-400">Player of the Match</p>
             </div>
         </div>
+        {showDefensiveStats && (
+          <div className="grid grid-cols-3 gap-4 text-center mt-4">
+              <div className="bg-gray-700 p-4 rounded-lg">
+                  <p className="text-3xl font-bold text-blue-400">{defensiveRecord.cleanSheets}</p>
+                  <p className="text-gray-400">Clean Sheets</p>
+              </div>
+              <div className="bg-gray-700 p-4 rounded-lg">
+                  <p className="text-3xl font-bold text-blue-400">{defensiveRecord.goalsConceded}</p>
+                  <p className="text-gray-400">Goals Conceded</p>
+              </div>
+              <div className="bg-gray-700 p-4 rounded-lg">
+                  <p className="text-3xl font-bold text-blue-400">{defensiveRecord.saves}</p>
+                  <p className="text-gray-400">Saves</p>
+              </div>
+          </div>
+        )}
       </div>
     </div>
   );
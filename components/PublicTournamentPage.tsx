@@ -0,0 +1,103 @@
+import React, { useState, useEffect } from 'react';
+import { useParams } from 'react-router-dom';
+import { useAppActions } from '../hooks/useAppContext';
+import { Tournament } from '../types';
+import { FootballIcon } from './common/Icons';
+import { FixturesTab, PointsTableTab, BracketTab, LeadersTab } from './TournamentPage';
+import { getTournamentFormat, FORMAT_LABELS } from '../utils/tournamentFormat';
+import { getPointsRules } from '../utils/standings';
+
+type PublicTab = 'fixtures' | 'table' | 'bracket' | 'leaders';
+
+// Spectators get no live updates, so the page refreshes itself while it is open.
+const REFRESH_INTERVAL_MS = 30000;
+
+const noop = () => {};
+
+// Read-only view of a public tournament for parents and spectators, shown with or without a login.
+const PublicTournamentPage: React.FC = () => {
+    const { tournamentId } = useParams<{ tournamentId: string }>();
+    const { getPublicTournament } = useAppActions();
+    const [tournament, setTournament] = useState<Tournament | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState('');
+    const [activeTab, setActiveTab] = useState<PublicTab>('fixtures');
+
+    useEffect(() => {
+        if (!tournamentId) {
+            setError("No tournament ID provided.");
+            setIsLoading(false);
+            return;
+        }
+        const fetchTournament = async () => {
+            try {
+                const fetchedTournament = await getPublicTournament(tournamentId);
+                if (fetchedTournament) {
+                    setTournament(fetchedTournament);
+                    setError('');
+                } else {
+                    setError("Tournament not found.");
+                }
+            } catch (err: any) {
+                setError(err.message);
+            } finally {
+                setIsLoading(false);
+            }
+        };
+        fetchTournament();
+        const interval = setInterval(fetchTournament, REFRESH_INTERVAL_MS);
+        return () => clearInterval(interval);
+    // getPublicTournament is recreated on every render, so only the ID restarts polling.
+    }, [tournamentId]);
+
+    if (isLoading) {
+        return <div className="text-center p-10"><FootballIcon className="h-12 w-12 mx-auto text-green-500 animate-spin"/></div>;
+    }
+
+    if (!tournament) {
+        return <div className="text-center text-red-500">{error || 'This tournament is not public.'}</div>;
+    }
+
+    const format = getTournamentFormat(tournament);
+    return (
+        <div className="bg-gray-800 p-4 sm:p-6 rounded-lg shadow-lg max-w-5xl mx-auto">
+            <div className="flex flex-col md:flex-row items-center gap-6 mb-6">
+                {tournament.logoUrl ? (
+                    <img src={tournament.logoUrl} alt={tournament.name} className="w-24 h-24 rounded-full border-4 border-purple-500 object-cover" />
+                ) : (
+                    <div className="w-24 h-24 rounded-full border-4 border-purple-500 bg-gray-700 flex items-center justify-center">
+                        <span className="text-4xl font-bold text-gray-500">{tournament.name.charAt(0)}</span>
+                    </div>
+                )}
+                <div className="flex-grow">
+                    <div className="flex items-center gap-4">
+                        <h1 className="text-3xl sm:text-4xl font-bold">{tournament.name}</h1>
+                        <span className="text-xs font-semibold bg-purple-500/20 text-purple-300 px-2 py-1 rounded-full whitespace-nowrap">{FORMAT_LABELS[format.type]}</span>
+                    </div>
+                    <p className="text-sm text-gray-400 mt-2">Results update automatically every {REFRESH_INTERVAL_MS / 1000} seconds.</p>
+                </div>
+            </div>
+            {error && (
+                <div className="mb-4 p-3 rounded-lg text-sm bg-yellow-500/20 text-yellow-300">
+                    Couldn't refresh the results. They may be out of date.
+                </div>
+            )}
+            <div className="border-b border-gray-700 mb-6">
+                <nav className="flex space-x-4 overflow-x-auto">
+                    {(['fixtures', 'table', 'bracket', 'leaders'] as PublicTab[]).map(tab => (
+                        <button key={tab} onClick={() => setActiveTab(tab)} className={`capitalize py-2 px-4 font-semibold rounded-t-lg ${activeTab === tab ? 'bg-gray-700 text-green-400' : 'text-gray-400 hover:bg-gray-700/50'} whitespace-nowrap`}>
+                            {tab}
+                        </button>
+                    ))}
+                </nav>
+            </div>
+
+            {activeTab === 'fixtures' && <FixturesTab matches={tournament.matches} groups={tournament.groups} isAdmin={false} canScore={() => false} onStartMatch={noop} onScoreMatch={noop} onEditMatch={noop} onAssignOfficials={noop} onSetPlayerOfTheMatch={noop} />}
+            {activeTab === 'table' && <PointsTableTab tournament={tournament} format={format} rules={getPointsRules(tournament)} />}
+            {activeTab === 'bracket' && <BracketTab matches={tournament.matches} format={format} isAdmin={false} onSeedSlot={noop} />}
+            {activeTab === 'leaders' && <LeadersTab tournament={tournament} matches={tournament.matches} teams={tournament.teams} />}
+        </div>
+    );
+};
+
+export default PublicTournamentPage;
@@ -4,6 +4,7 @@ import { NavLink } from 'react-router-dom';
 import { useAppContext } from '../hooks/useAppContext';
 import { TrophyIcon } from './common/Icons';
 import { Team, Tournament, User } from '../types';
+import { isTournamentStaff } from '../utils/tournamentRoles';
 
 const ChevronDownIcon: React.FC<{className?: string}> = ({ className }) => (
     <svg xmlns="http://www.w3.org/2000/svg" className={`h-4 w-4 transition-transform duration-200 ${className}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -24,7 +25,7 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, onClose }) => {
         if (!currentUser || !teams) return [];
         return teams.filter(team =>
             team.adminIds.some(admin => admin._id === currentUser._id) ||
-            (team.members || []).some(member => (typeof member === 'string' ? member : member._id) === currentUser._id)
+            team.members.some(member => member._id === currentUser._id)
         );
     }, [currentUser, teams]);
 
@@ -34,10 +35,9 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, onClose }) => {
         const myTeamIds = new Set(myTeams.map(t => t._id));
 
         const relevantTournaments = tournaments.filter(tourn => {
-            const teamsInTournament = (tourn.teams || []).map(t => typeof t === 'string' ? t : t._id);
             return (
-                tourn.adminId === currentUser._id || 
-                teamsInTournament.some(teamId => myTeamIds.has(teamId))
+                isTournamentStaff(tourn, currentUser._id) || 
+                tourn.teams.some(t => myTeamIds.has(t._id))
             );
         });
 
@@ -3,6 +3,12 @@ import { useParams, Link } from 'react-router-dom';
 import { useAppContext } from '../hooks/useAppContext';
 import { Match, MatchStatus, Team, User, Tournament } from '../types';
 import { ShieldCheckIcon, StarIcon, TrashIcon, FootballIcon, EditIcon } from './common/Icons';
+import { getTournamentFormat, countsTowardsTable, hasGroupStage } from '../utils/tournamentFormat';
+import { calculateStandings, calculateGroupStandings, getPointsRules } from '../utils/standings';
+import { getSquad } from '../utils/squads';
+import { isTeamAdmin } from '../utils/permissions';
+import { usePermissions } from '../hooks/usePermissions';
+import { useTeam } from '../hooks/useEntities';
 
 const fileToDataUri = (file: File, maxSize = 256): Promise<string> => {
     return new Promise((resolve, reject) => {
@@ -54,53 +60,10 @@ const getOrdinal = (n: number | string) => {
     return s[(v - 20) % 10] || s[v] || s[0];
 };
 
-const calculatePointsTable = (matches: Match[], teams: Team[]) => {
-    const stats: { [key: string]: { p: number, w: number, d: number, l: number, pts: number, gf: number, ga: number } } = {};
-    teams.forEach(t => { stats[t._id] = { p: 0, w: 0, d: 0, l: 0, pts: 0, gf: 0, ga: 0 }; });
-
-    matches.filter(m => m.status === MatchStatus.FINISHED).forEach(m => {
-        if (!m.teamAId?._id || !m.teamBId?._id) return; // a little safeguard
-        const teamAId = m.teamAId._id;
-        const teamBId = m.teamBId._id;
-        
-        if(stats[teamAId]) {
-            stats[teamAId].p++;
-            stats[teamAId].gf += m.scoreA;
-            stats[teamAId].ga += m.scoreB;
-        }
-        if(stats[teamBId]) {
-            stats[teamBId].p++;
-            stats[teamBId].gf += m.scoreB;
-            stats[teamBId].ga += m.scoreA;
-        }
-
-        if (m.winnerId === teamAId) {
-            if(stats[teamAId]) { stats[teamAId].w++; stats[teamAId].pts += 3; }
-            if(stats[teamBId]) { stats[teamBId].l++; }
-        } else if (m.winnerId === teamBId) {
-            if(stats[teamBId]) { stats[teamBId].w++; stats[teamBId].pts += 3; }
-            if(stats[teamAId]) { stats[teamAId].l++; }
-        } else { 
-            if(stats[teamAId]) { stats[teamAId].d++; stats[teamAId].pts++; }
-            if(stats[teamBId]) { stats[teamBId].d++; stats[teamBId].pts++; }
-        }
-    });
-
-    return teams.map(t => {
-        const teamStats = stats[t._id] || { p: 0, w: 0, d: 0, l: 0, pts: 0, gf: 0, ga: 0 };
-        const gd = teamStats.gf - teamStats.ga;
-        return { ...t, ...teamStats, gd };
-    }).sort((a, b) => {
-        if (b.pts !== a.pts) return b.pts - a.pts;
-        return b.gd - a.gd;
-    });
-};
-
 const TeamPage: React.FC = () => {
     const { teamId } = useParams<{ teamId: string }>();
     const { 
         currentUser, 
-        teams,
         tournaments: allTournaments,
         addMemberToTeam, 
         removeMemberFromTeam,
@@ -109,11 +72,12 @@ const TeamPage: React.FC = () => {
         updateTeam,
         isLoading: isAppLoading
     } = useAppContext();
+    const { can } = usePermissions();
     
-    // Derive the current team directly from the global context.
+    // Derive the current team directly from the entity store.
     // This makes the component reactive to any changes in the global state,
     // ensuring the UI is always in sync without race conditions from local state.
-    const team = useMemo(() => teams.find(t => t._id === teamId), [teams, teamId]);
+    const team = useTeam(teamId);
     
     // Local state is now only used for UI concerns like inputs and modals.
     const [memberIdToAdd, setMemberIdToAdd] = useState('');
@@ -133,53 +97,58 @@ const TeamPage: React.FC = () => {
                 matchesPlayed: 0, wins: 0, losses: 0, draws: 0,
                 topScorer: null as { player: User, goals: number } | null,
                 topAssister: null as { player: User, assists: number } | null,
-                tournamentPositions: [] as { tournamentName: string, position: number | string }[],
+                tournamentPositions: [] as { tournamentName: string, groupName?: string, position: number | string }[],
             };
         }
 
         const goalCounts: { [key: string]: number } = {};
         const assistCounts: { [key: string]: number } = {};
-        team.members.forEach(m => {
-            if (m) {
-                goalCounts[m._id] = 0;
-                assistCounts[m._id] = 0;
-            }
-        });
+        const squadPlayers: { [key: string]: User } = {};
 
         let wins = 0, losses = 0, draws = 0, matchesPlayed = 0;
 
-        const teamMatches = allTournaments.flatMap(t => t.matches).filter(m => (m.teamAId?._id === team._id || m.teamBId?._id === team._id));
-
-        teamMatches.filter(m => m.status === MatchStatus.FINISHED).forEach(match => {
-            matchesPlayed++;
-            if (match.winnerId === team._id) wins++;
-            else if (match.winnerId === null) draws++;
-            else losses++;
-
-            match.goals.forEach(goal => {
-                if (goal.scorerId && team.members.some(m => m?._id === goal.scorerId._id) && !goal.isOwnGoal) {
-                    goalCounts[goal.scorerId._id]++;
-                }
-                if (goal.assistId && team.members.some(m => m?._id === goal.assistId._id)) {
-                    assistCounts[goal.assistId._id]++;
-                }
+        allTournaments.forEach(tourn => {
+            // Goals count for whoever was registered with the team in that tournament,
+            // including players who have since left the team.
+            const squad = getSquad(tourn, team._id);
+            const isInSquad = (player?: User) => !!player && squad.some(p => p._id === player._id);
+            const teamMatches = tourn.matches.filter(m => (m.teamAId?._id === team._id || m.teamBId?._id === team._id));
+
+            teamMatches.filter(m => m.status === MatchStatus.FINISHED).forEach(match => {
+                matchesPlayed++;
+                if (match.winnerId === team._id) wins++;
+                else if (match.winnerId === null) draws++;
+                else losses++;
+
+                match.goals.forEach(goal => {
+                    if (isInSquad(goal.scorerId) && !goal.isOwnGoal) {
+                        goalCounts[goal.scorerId._id] = (goalCounts[goal.scorerId._id] || 0) + 1;
+                        squadPlayers[goal.scorerId._id] = goal.scorerId;
+                    }
+                    if (isInSquad(goal.assistId)) {
+                        assistCounts[goal.assistId!._id] = (assistCounts[goal.assistId!._id] || 0) + 1;
+                        squadPlayers[goal.assistId!._id] = goal.assistId!;
+                    }
+                });
             });
         });
 
         const topScorerId = Object.keys(goalCounts).length ? Object.keys(goalCounts).reduce((a, b) => goalCounts[a] > goalCounts[b] ? a : b) : null;
         const topAssisterId = Object.keys(assistCounts).length ? Object.keys(assistCounts).reduce((a, b) => assistCounts[a] > assistCounts[b] ? a : b) : null;
 
-        const topScorerPlayer = topScorerId ? team.members.find(m => m?._id === topScorerId) : undefined;
-        const topAssisterPlayer = topAssisterId ? team.members.find(m => m?._id === topAssisterId) : undefined;
+        const topScorerPlayer = topScorerId ? squadPlayers[topScorerId] : undefined;
+        const topAssisterPlayer = topAssisterId ? squadPlayers[topAssisterId] : undefined;
 
         const topScorer = (topScorerPlayer && topScorerPlayer.profile) ? { player: topScorerPlayer, goals: goalCounts[topScorerId!] } : null;
         const topAssister = (topAssisterPlayer && topAssisterPlayer.profile) ? { player: topAssisterPlayer, assists: assistCounts[topAssisterId!] } : null;
 
         const tournamentPositions = teamTournaments.map(tourn => {
-            const knockoutRounds = ['Final', 'Semi-Final', 'Quarter-Final', 'Eliminator'];
-            const tableData = calculatePointsTable(tourn.matches.filter(m => !knockoutRounds.includes(m.round)), tourn.teams);
-            const teamRank = tableData.findIndex(t => t._id === team._id) + 1;
-            return { tournamentName: tourn.name, position: teamRank > 0 ? teamRank : 'N/A' };
+            const format = getTournamentFormat(tourn);
+            // In a group stage the position that matters is the one within the team's group.
+            const groupTable = hasGroupStage(format) ? calculateGroupStandings(tourn).find(g => g.group.teamIds.includes(team._id)) : undefined;
+            const tableData = groupTable ? groupTable.rows : calculateStandings(tourn.matches.filter(m => countsTowardsTable(m, format)), tourn.teams, getPointsRules(tourn));
+            const teamRank = tableData.findIndex(t => t.team._id === team._id) + 1;
+            return { tournamentName: tourn.name, groupName: groupTable?.group.name, position: teamRank > 0 ? teamRank : 'N/A' };
         });
 
         return { matchesPlayed, wins, losses, draws, topScorer: (topScorer && topScorer.goals > 0) ? topScorer : null, topAssister: (topAssister && topAssister.assists > 0) ? topAssister : null, tournamentPositions, };
@@ -190,7 +159,7 @@ const TeamPage: React.FC = () => {
         return <div className="text-center p-10"><FootballIcon className="h-12 w-12 mx-auto text-green-500 animate-spin"/></div>;
     }
 
-    const isAdmin = team.adminIds.some(admin => admin?._id === currentUser?._id);
+    const isAdmin = can('team:manage', team);
 
     const showMessage = (type: 'success' | 'error', text: string) => {
         setMessage({ type, text });
@@ -242,11 +211,6 @@ const TeamPage: React.FC = () => {
     try {
         const result = await toggleTeamAdmin(team._id, memberId);
         showMessage(result.success ? 'success' : 'error', result.message);
-
-        if (result.success) {
-            // 🔑 Re-fetch updated team so 🛡️ icon updates immediately
-            await updateTeam(team._id);
-        }
     } catch (err: any) {
         showMessage('error', err.message || 'An error occurred.');
     } finally {
@@ -262,11 +226,6 @@ const TeamPage: React.FC = () => {
     try {
         const result = await setTeamRole(team._id, memberId, role);
         showMessage(result.success ? 'success' : 'error', result.message);
-
-        if (result.success) {
-            // 🔑 Force re-fetch updated team so UI (C/VC labels) updates
-            await updateTeam(team._id);
-        }
     } catch (err: any) {
         showMessage('error', err.message || 'An error occurred.');
     } finally {
@@ -313,7 +272,7 @@ const TeamPage: React.FC = () => {
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4">
                     <div className="bg-gray-700 p-4 rounded-lg"><h3 className="font-bold text-lg mb-2">Top Scorer</h3>{stats.topScorer ? (<Link to={`/player/${stats.topScorer.player._id}`} className="flex items-center gap-3 hover:bg-gray-600 p-2 rounded-md -m-2 transition-colors"><img src={stats.topScorer.player.profile.imageUrl!} alt={stats.topScorer.player.profile.name} className="w-10 h-10 rounded-full object-cover" /><p className="font-bold">{stats.topScorer.player.profile.name}</p><p className="ml-auto font-extrabold text-xl text-green-400">{stats.topScorer.goals}</p></Link>) : (<p className="text-gray-400">No goals scored yet.</p>)}</div>
                     <div className="bg-gray-700 p-4 rounded-lg"><h3 className="font-bold text-lg mb-2">Top Assister</h3>{stats.topAssister ? (<Link to={`/player/${stats.topAssister.player._id}`} className="flex items-center gap-3 hover:bg-gray-600 p-2 rounded-md -m-2 transition-colors"><img src={stats.topAssister.player.profile.imageUrl!} alt={stats.topAssister.player.profile.name} className="w-10 h-10 rounded-full object-cover" /><p className="font-bold">{stats.topAssister.player.profile.name}</p><p className="ml-auto font-extrabold text-xl text-green-400">{stats.topAssister.assists}</p></Link>) : (<p className="text-gray-400">No assists recorded yet.</p>)}</div>
-                    <div className="bg-gray-700 p-4 rounded-lg"><h3 className="font-bold text-lg mb-2">Standings</h3>{stats.tournamentPositions.length > 0 ? (<ul className="space-y-2">{stats.tournamentPositions.map(pos => (<li key={pos.tournamentName} className="flex justify-between items-center text-sm"><span className="text-gray-300 truncate pr-2">{pos.tournamentName}</span><span className="font-bold text-lg text-green-400">{pos.position}{getOrdinal(pos.position)}</span></li>))}</ul>) : (<p className="text-gray-400 text-sm">Not in any tournaments with a points table.</p>)}</div>
+                    <div className="bg-gray-700 p-4 rounded-lg"><h3 className="font-bold text-lg mb-2">Standings</h3>{stats.tournamentPositions.length > 0 ? (<ul className="space-y-2">{stats.tournamentPositions.map(pos => (<li key={pos.tournamentName} className="flex justify-between items-center text-sm"><span className="text-gray-300 truncate pr-2">{pos.tournamentName}{pos.groupName && <span className="text-gray-400"> &bull; {pos.groupName}</span>}</span><span className="font-bold text-lg text-green-400">{pos.position}{getOrdinal(pos.position)}</span></li>))}</ul>) : (<p className="text-gray-400 text-sm">Not in any tournaments with a points table.</p>)}</div>
                 </div>
             </div>
 
@@ -353,7 +312,7 @@ const TeamPage: React.FC = () => {
                     <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                         {team.members.map((member: User) => {
                              if (!member || !member.profile) return null;
-                            const isMemberAdmin = team.adminIds.some(admin => admin?._id === member._id);
+                            const isMemberAdmin = isTeamAdmin(team, member._id);
                             return (
                                 <div key={member._id} className="bg-gray-700 p-4 rounded-lg flex items-center justify-between gap-4">
                                     <div className="flex items-center gap-4">
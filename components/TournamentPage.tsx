@@ -1,9 +1,22 @@
 import React, { useState, useMemo, useEffect } from 'react';
 import { useParams, useNavigate, Link } from 'react-router-dom';
-import { useAppContext } from '../hooks/useAppContext';
-import { MatchStatus, Team, Match, User, Card, Goal, CardType, Tournament } from '../types';
+import { useAppActions, useAppState } from '../hooks/useAppContext';
+import { MatchStatus, Team, Match, User, Card, Goal, CardType, PlayerPosition, Tournament, TournamentFormat, TournamentFormatType, TournamentGroup, PointsRules, PointsAdjustment, TieBreaker, DisciplineRules, LineupSelection, TransferWindow, MatchEventType, TournamentStaffRole, MatchOfficials } from '../types';
 import { EditIcon, ClipboardCopyIcon, TrophyIcon, CardYellowIcon, CardRedIcon, FootballIcon } from './common/Icons';
-type Tab = 'fixtures' | 'table' | 'leaders' | 'teams';
+import { compareEventTimes, formatEventTime } from '../utils/matchClock';
+import { MATCH_EVENT_META } from '../utils/matchEvents';
+import { calculatePlayerStats, calculateGoldenGlove, calculateLeaderRows, rankLeaderRows, getShotsOnTarget, getPenaltiesTaken, PlayerStats, LeaderStat } from '../utils/playerStats';
+import { buildBracket, BracketSlot } from '../utils/bracket';
+import { MAX_STARTERS } from '../utils/lineups';
+import { getSquad, canChangeSquads, describeRegistrationStatus, isRegistrationOpen } from '../utils/squads';
+import { getStaff, STAFF_ROLE_LABELS } from '../utils/tournamentRoles';
+import { usePermissions } from '../hooks/usePermissions';
+import { useTournament } from '../hooks/useEntities';
+import { useLiveTournament } from '../hooks/useLiveTournament';
+import { calculateSuspensions, getDisciplineRules, getSuspendedPlayers, describeSuspension, Suspension } from '../utils/discipline';
+import { calculateStandings, calculateGroupStandings, rankTeamsAtPosition, getPointsRules, StandingRow, TIE_BREAKER_LABELS, TIE_BREAKER_SHORT_LABELS } from '../utils/standings';
+import { getTournamentFormat, getRoundOptions, countsTowardsTable, hasGroupStage, getGroupNames, getTeamGroup, getMatchGroup, FORMAT_LABELS, GROUP_ROUND } from '../utils/tournamentFormat';
+type Tab = 'fixtures' | 'table' | 'bracket' | 'leaders' | 'discipline' | 'teams';
 const fileToDataUri = (file: File, maxSize = 256): Promise<string> => {
     return new Promise((resolve, reject) => {
         const reader = new FileReader();
@@ -46,8 +59,13 @@ const fileToDataUri = (file: File, maxSize = 256): Promise<string> => {
 };
 const TournamentPage: React.FC = () => {
     const { tournamentId } = useParams<{ tournamentId: string }>();
-    const { getTournamentById, currentUser, addTeamToTournament, scheduleMatches, startMatch, addMatchManually, updateMatchDetails, setPlayerOfTheMatch, tournaments, updateTournament } = useAppContext();
-    const [tournament, setTournament] = useState<Tournament | null>(null);
+    const { loadTournament, addTeamToTournament, addTournamentStaff, removeTournamentStaff, assignMatchOfficials, registerSquadPlayer, deregisterSquadPlayer, scheduleMatches, startMatch, setMatchLineups, addMatchManually, updateMatchDetails, setPlayerOfTheMatch, updateTournament } = useAppActions();
+    const { liveConnectionStatus } = useAppState();
+    const { can } = usePermissions();
+    const navigate = useNavigate();
+    // Loaded into the entity store, where live updates patch it in place, including for spectators.
+    const tournament = useTournament(tournamentId);
+    useLiveTournament(tournamentId);
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState('');
    
@@ -55,8 +73,16 @@ const TournamentPage: React.FC = () => {
     const [teamIdToAdd, setTeamIdToAdd] = useState('');
     const [isMatchModalOpen, setIsMatchModalOpen] = useState(false);
     const [isEditModalOpen, setIsEditModalOpen] = useState(false);
+    const [isFormatModalOpen, setIsFormatModalOpen] = useState(false);
+    const [isPointsRulesModalOpen, setIsPointsRulesModalOpen] = useState(false);
+    const [isGroupsModalOpen, setIsGroupsModalOpen] = useState(false);
+    const [isRegistrationModalOpen, setIsRegistrationModalOpen] = useState(false);
+    const [isStaffModalOpen, setIsStaffModalOpen] = useState(false);
+    const [officialsMatch, setOfficialsMatch] = useState<Match | null>(null);
     const [editingMatch, setEditingMatch] = useState<Match | null>(null);
     const [potmModalMatch, setPotmModalMatch] = useState<Match | null>(null);
+    const [seedingSlot, setSeedingSlot] = useState<BracketSlot | null>(null);
+    const [lineupMatch, setLineupMatch] = useState<Match | null>(null);
     const [newMatchData, setNewMatchData] = useState({ teamAId: '', teamBId: '', round: 'League Match' });
     const [message, setMessage] = useState({ type: '', text: '' });
     useEffect(() => {
@@ -68,12 +94,8 @@ const TournamentPage: React.FC = () => {
             }
             try {
                 setIsLoading(true);
-                const fetchedTournament = await getTournamentById(tournamentId);
-                if (fetchedTournament) {
-                    setTournament(fetchedTournament);
-                } else {
-                    setError("Tournament not found.");
-                }
+                setError('');
+                await loadTournament(tournamentId);
             } catch (err: any) {
                 setError(err.message);
             } finally {
@@ -81,8 +103,8 @@ const TournamentPage: React.FC = () => {
             }
         };
         fetchTournamentData();
-    }, [tournamentId, getTournamentById, tournaments]);
-    const isAdmin = currentUser?._id === tournament?.adminId;
+    }, [tournamentId, loadTournament]);
+    const isAdmin = can('tournament:manage', tournament);
     const handleAddTeam = async () => {
         if (tournamentId && teamIdToAdd) {
             const result = await addTeamToTournament(tournamentId, teamIdToAdd);
@@ -93,18 +115,66 @@ const TournamentPage: React.FC = () => {
             setTimeout(() => setMessage({ type: '', text: '' }), 3000);
         }
     };
-    const handleAutoSchedule = async () => {
+    const handleAutoSchedule = async (format: TournamentFormat) => {
         if (!tournamentId) return;
         if (tournament?.isSchedulingDone) {
             if (window.confirm("This will overwrite all existing matches, including any results. Are you sure?")) {
-                await scheduleMatches(tournamentId);
+                await scheduleMatches(tournamentId, format);
+                setIsFormatModalOpen(false);
             }
         } else {
-            await scheduleMatches(tournamentId);
+            await scheduleMatches(tournamentId, format);
+            setIsFormatModalOpen(false);
         }
     };
+    const handleSavePointsRules = async (pointsRules: PointsRules) => {
+        if (!tournamentId) return;
+        await updateTournament(tournamentId, { pointsRules });
+        setIsPointsRulesModalOpen(false);
+    };
+    const handleSaveGroups = async (groups: TournamentGroup[]) => {
+        if (!tournamentId) return;
+        await updateTournament(tournamentId, { groups });
+        setIsGroupsModalOpen(false);
+    };
+    const handleSaveDisciplineRules = async (disciplineRules: DisciplineRules) => {
+        if (!tournamentId) return;
+        await updateTournament(tournamentId, { disciplineRules });
+    };
+    const handleSaveRegistration = async (registrationDeadline: string | null, transferWindow: TransferWindow | null) => {
+        if (!tournamentId) return;
+        await updateTournament(tournamentId, { registrationDeadline, transferWindow });
+        setIsRegistrationModalOpen(false);
+    };
+    const handleRegisterSquadPlayer = async (teamId: string, playerId: string) => {
+        if (!tournamentId) return;
+        await registerSquadPlayer(tournamentId, teamId, playerId);
+    };
+    const handleDeregisterSquadPlayer = async (teamId: string, playerId: string) => {
+        if (!tournamentId) return;
+        await deregisterSquadPlayer(tournamentId, teamId, playerId);
+    };
+    const handleAddStaff = async (role: TournamentStaffRole, userId: string) => {
+        if (!tournamentId) return { success: false, message: 'No tournament ID provided.' };
+        return addTournamentStaff(tournamentId, role, userId);
+    };
+    const handleRemoveStaff = async (role: TournamentStaffRole, userId: string) => {
+        if (!tournamentId) return;
+        await removeTournamentStaff(tournamentId, role, userId);
+    };
+    const handleSaveOfficials = async (officials: MatchOfficials) => {
+        if (!tournamentId || !officialsMatch) return;
+        await assignMatchOfficials(tournamentId, officialsMatch._id, officials);
+        setOfficialsMatch(null);
+    };
+    const handleSaveFormat = async (format: TournamentFormat) => {
+        if (!tournamentId) return;
+        await updateTournament(tournamentId, { format });
+        setIsFormatModalOpen(false);
+    };
    
-    if (isLoading) {
+    // Refreshing a tournament that is already in the store keeps showing it.
+    if (isLoading && !tournament) {
         return <div className="text-center p-10"><FootballIcon className="h-12 w-12 mx-auto text-green-500 animate-spin"/></div>;
     }
    
@@ -113,11 +183,21 @@ const TournamentPage: React.FC = () => {
     }
    
     const tournamentTeams = tournament.teams;
+    const format = getTournamentFormat(tournament);
+    const pointsRules = getPointsRules(tournament);
+    const suspensions = calculateSuspensions(tournament);
+    const roundOptions = getRoundOptions(format);
+    const openMatchModal = () => {
+        setNewMatchData({ teamAId: '', teamBId: '', round: roundOptions[0] });
+        setIsMatchModalOpen(true);
+    };
     const handleManualMatchCreate = async () => {
         if(tournamentId && newMatchData.teamAId && newMatchData.teamBId && newMatchData.round && newMatchData.teamAId !== newMatchData.teamBId) {
-            await addMatchManually(tournamentId, newMatchData);
+            // Group matches are labelled with the group the two teams share.
+            const teamAGroup = getTeamGroup(tournament.groups, newMatchData.teamAId);
+            const group = newMatchData.round === GROUP_ROUND && teamAGroup === getTeamGroup(tournament.groups, newMatchData.teamBId) ? teamAGroup?.name : undefined;
+            await addMatchManually(tournamentId, { ...newMatchData, group });
             setIsMatchModalOpen(false);
-            setNewMatchData({ teamAId: '', teamBId: '', round: 'League Match' });
         } else {
             alert("Please select two different teams and a round.");
         }
@@ -135,11 +215,47 @@ const TournamentPage: React.FC = () => {
             setPotmModalMatch(null);
         }
     };
+    const handleStartMatch = async (lineups: LineupSelection[]) => {
+        if (!tournamentId || !lineupMatch) return;
+        const matchId = lineupMatch._id;
+        await setMatchLineups(tournamentId, matchId, lineups);
+        await startMatch(tournamentId, matchId);
+        setLineupMatch(null);
+        navigate(`/match/${matchId}/score?tournamentId=${tournamentId}`);
+    };
+    // Fills a bracket slot: updates the fixture if it exists, otherwise creates it in the slot's round.
+    const handleSeedSlot = async (teamAId: string, teamBId: string) => {
+        if (!tournamentId || !seedingSlot) return;
+        if (seedingSlot.match) {
+            const teamA = tournamentTeams.find(t => t._id === teamAId);
+            const teamB = tournamentTeams.find(t => t._id === teamBId);
+            await updateMatchDetails(tournamentId, seedingSlot.match._id, { teamAId: teamA, teamBId: teamB });
+        } else {
+            await addMatchManually(tournamentId, { teamAId: teamAId || undefined, teamBId: teamBId || undefined, round: seedingSlot.round });
+        }
+        setSeedingSlot(null);
+    };
     const copyInviteCode = () => {
         navigator.clipboard.writeText(tournament.inviteCode);
         setMessage({ type: 'success', text: 'Invite code copied!' });
         setTimeout(() => setMessage({ type: '', text: '' }), 2000);
     };
+    // The app uses hash routing, so the public link has to go through the hash as well.
+    const publicLink = `${window.location.origin}${window.location.pathname}#/public/tournament/${tournament._id}`;
+    const copyPublicLink = () => {
+        navigator.clipboard.writeText(publicLink);
+        setMessage({ type: 'success', text: 'Public link copied!' });
+        setTimeout(() => setMessage({ type: '', text: '' }), 2000);
+    };
+    const handleTogglePublic = async () => {
+        if (!tournamentId) return;
+        try {
+            await updateTournament(tournamentId, { isPublic: !tournament.isPublic });
+        } catch (err: any) {
+            setMessage({ type: 'error', text: err.message || 'The tournament visibility could not be changed.' });
+            setTimeout(() => setMessage({ type: '', text: '' }), 3000);
+        }
+    };
     return (
         <div className="bg-gray-800 p-4 sm:p-6 rounded-lg shadow-lg">
             <div className="flex flex-col md:flex-row items-center gap-6 mb-6">
@@ -153,6 +269,7 @@ const TournamentPage: React.FC = () => {
                 <div className="flex-grow">
                      <div className="flex items-center gap-4">
                         <h1 className="text-3xl sm:text-4xl font-bold">{tournament.name}</h1>
+                        <span className="text-xs font-semibold bg-purple-500/20 text-purple-300 px-2 py-1 rounded-full whitespace-nowrap">{FORMAT_LABELS[format.type]}</span>
                         {isAdmin && (
                             <button onClick={() => setIsEditModalOpen(true)} className="text-gray-400 hover:text-white" title="Edit Tournament Details">
                                 <EditIcon />
@@ -168,9 +285,27 @@ const TournamentPage: React.FC = () => {
                             </span>
                         </div>
                     )}
+                    {isAdmin && (
+                        <div className="mt-2 flex flex-wrap items-center gap-2">
+                            <span className="text-gray-400">Public Page: </span>
+                            <button onClick={handleTogglePublic} className={`text-sm font-semibold px-3 py-1 rounded-full ${tournament.isPublic ? 'bg-green-500/20 text-green-300 hover:bg-green-500/30' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`} title={tournament.isPublic ? 'Anyone with the link can view fixtures, table, bracket and leaders' : 'Only members can view this tournament'}>
+                                {tournament.isPublic ? 'Visible' : 'Hidden'}
+                            </button>
+                            {tournament.isPublic && (
+                                <button onClick={copyPublicLink} className="text-sm text-green-400 hover:underline flex items-center gap-1">
+                                    Copy link <ClipboardCopyIcon />
+                                </button>
+                            )}
+                        </div>
+                    )}
                 </div>
             </div>
            
+            {liveConnectionStatus === 'reconnecting' && (
+                <div className="mb-4 p-3 rounded-lg text-sm bg-yellow-500/20 text-yellow-300">
+                    Reconnecting to live updates. Scores may be out of date.
+                </div>
+            )}
             {message.text && (
                 <div className={`mb-4 p-3 rounded-lg text-sm ${message.type === 'success' ? 'bg-green-500/20 text-green-300' : 'bg-red-500/20 text-red-300'}`}>
                     {message.text}
@@ -188,18 +323,22 @@ const TournamentPage: React.FC = () => {
                                 placeholder="Enter Team ID or Invite Code"
                                 className="w-full bg-gray-800 text-white p-2 rounded border border-gray-600"
                             />
-                            <button onClick={handleAddTeam} className="bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-lg" disabled={!teamIdToAdd}>Add Team</button>
+                            <button onClick={handleAddTeam} className="bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-lg disabled:bg-gray-500 disabled:cursor-not-allowed" disabled={!teamIdToAdd || !isRegistrationOpen(tournament)} title={isRegistrationOpen(tournament) ? undefined : 'The registration deadline has passed'}>Add Team</button>
                         </div>
                         <div className="flex flex-wrap items-center gap-2">
-                            <button onClick={handleAutoSchedule} className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-lg">Auto-Schedule</button>
-                            <button onClick={() => setIsMatchModalOpen(true)} className="bg-purple-600 hover:bg-purple-700 text-white font-bold py-2 px-4 rounded-lg">Add Match Manually</button>
+                            <button onClick={() => setIsFormatModalOpen(true)} className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-lg">Format & Schedule</button>
+                            {hasGroupStage(format) && <button onClick={() => setIsGroupsModalOpen(true)} className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-lg">Groups</button>}
+                            <button onClick={() => setIsPointsRulesModalOpen(true)} className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-lg">Table Rules</button>
+                            <button onClick={() => setIsRegistrationModalOpen(true)} className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-lg">Registration</button>
+                            {can('tournament:manageStaff', tournament) && <button onClick={() => setIsStaffModalOpen(true)} className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-lg">Staff</button>}
+                            <button onClick={openMatchModal} className="bg-purple-600 hover:bg-purple-700 text-white font-bold py-2 px-4 rounded-lg">Add Match Manually</button>
                         </div>
                     </div>
                 </div>
             )}
             <div className="border-b border-gray-700 mb-6">
                 <nav className="flex space-x-4 overflow-x-auto">
-                    {(['fixtures', 'table', 'leaders', 'teams'] as Tab[]).map(tab => (
+                    {(['fixtures', 'table', 'bracket', 'leaders', 'discipline', 'teams'] as Tab[]).map(tab => (
                         <button key={tab} onClick={() => setActiveTab(tab)} className={`capitalize py-2 px-4 font-semibold rounded-t-lg ${activeTab === tab ? 'bg-gray-700 text-green-400' : 'text-gray-400 hover:bg-gray-700/50'} whitespace-nowrap`}>
                             {tab}
                         </button>
@@ -207,13 +346,23 @@ const TournamentPage: React.FC = () => {
                 </nav>
             </div>
            
-            {activeTab === 'teams' && <TeamsTab teams={tournamentTeams} />}
-            {activeTab === 'fixtures' && <FixturesTab matches={tournament.matches} isAdmin={isAdmin} tournamentId={tournament._id} startMatch={startMatch} onEditMatch={setEditingMatch} onSetPlayerOfTheMatch={setPotmModalMatch} />}
-            {activeTab === 'table' && <PointsTableTab matches={tournament.matches} teams={tournamentTeams} />}
-            {activeTab === 'leaders' && <LeadersTab matches={tournament.matches} teams={tournamentTeams} />}
+            {activeTab === 'teams' && <TeamsTab tournament={tournament} canManageSquad={team => can('squad:manage', { tournament, team })} onRegisterPlayer={handleRegisterSquadPlayer} onDeregisterPlayer={handleDeregisterSquadPlayer} />}
+            {activeTab === 'fixtures' && <FixturesTab matches={tournament.matches} groups={tournament.groups} isAdmin={isAdmin} canScore={match => can('match:score', { tournament, match })} onStartMatch={setLineupMatch} onScoreMatch={match => navigate(`/match/${match._id}/score?tournamentId=${tournamentId}`)} onEditMatch={setEditingMatch} onAssignOfficials={setOfficialsMatch} onSetPlayerOfTheMatch={setPotmModalMatch} />}
+            {activeTab === 'table' && <PointsTableTab tournament={tournament} format={format} rules={pointsRules} />}
+            {activeTab === 'bracket' && <BracketTab matches={tournament.matches} format={format} isAdmin={isAdmin} onSeedSlot={setSeedingSlot} />}
+            {activeTab === 'leaders' && <LeadersTab tournament={tournament} matches={tournament.matches} teams={tournamentTeams} />}
+            {activeTab === 'discipline' && <DisciplineTab rules={getDisciplineRules(tournament)} suspensions={suspensions} teams={tournamentTeams} isAdmin={isAdmin} onSaveRules={handleSaveDisciplineRules} />}
+            {lineupMatch && <LineupModal match={lineupMatch} tournament={tournament} suspendedPlayers={getSuspendedPlayers(suspensions, lineupMatch)} onClose={() => setLineupMatch(null)} onConfirm={handleStartMatch} />}
+            {seedingSlot && <SeedBracketSlotModal slot={seedingSlot} teams={tournamentTeams} onClose={() => setSeedingSlot(null)} onSave={handleSeedSlot} />}
             {editingMatch && <EditMatchModal match={editingMatch} teams={tournamentTeams} onClose={() => setEditingMatch(null)} onSave={handleUpdateMatch} />}
-            {potmModalMatch && <PlayerOfTheMatchModal match={potmModalMatch} tournamentTeams={tournament.teams} onClose={() => setPotmModalMatch(null)} onSave={handleSetPotm} />}
+            {potmModalMatch && <PlayerOfTheMatchModal match={potmModalMatch} tournament={tournament} suspendedPlayers={getSuspendedPlayers(suspensions, potmModalMatch)} onClose={() => setPotmModalMatch(null)} onSave={handleSetPotm} />}
             {isEditModalOpen && <EditTournamentModal tournament={tournament} onClose={() => setIsEditModalOpen(false)} onSave={updateTournament} />}
+            {isGroupsModalOpen && <GroupsModal groupNames={getGroupNames(format)} groups={tournament.groups || []} teams={tournamentTeams} onClose={() => setIsGroupsModalOpen(false)} onSave={handleSaveGroups} />}
+            {isStaffModalOpen && <StaffModal tournament={tournament} onClose={() => setIsStaffModalOpen(false)} onAdd={handleAddStaff} onRemove={handleRemoveStaff} />}
+            {officialsMatch && <MatchOfficialsModal match={officialsMatch} tournament={tournament} onClose={() => setOfficialsMatch(null)} onSave={handleSaveOfficials} />}
+            {isRegistrationModalOpen && <RegistrationModal tournament={tournament} onClose={() => setIsRegistrationModalOpen(false)} onSave={handleSaveRegistration} />}
+            {isPointsRulesModalOpen && <PointsRulesModal rules={pointsRules} teams={tournamentTeams} onClose={() => setIsPointsRulesModalOpen(false)} onSave={handleSavePointsRules} />}
+            {isFormatModalOpen && <TournamentFormatModal format={format} teamCount={tournamentTeams.length} onClose={() => setIsFormatModalOpen(false)} onSave={handleSaveFormat} onSchedule={handleAutoSchedule} />}
             {isMatchModalOpen && (
             <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50">
                 <div className="bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-lg">
@@ -226,11 +375,7 @@ const TournamentPage: React.FC = () => {
                         onChange={e => setNewMatchData(prev => ({ ...prev, round: e.target.value }))}
                         className="w-full bg-gray-700 text-white p-2 rounded mt-1"
                     >
-                        <option>League Match</option>
-                        <option>Quarter-Final</option>
-                        <option>Semi-Final</option>
-                        <option>Eliminator</option>
-                        <option>Final</option>
+                        {roundOptions.map(round => <option key={round}>{round}</option>)}
                     </select>
                     </div>
                     <div>
@@ -270,32 +415,81 @@ const TournamentPage: React.FC = () => {
         </div>
     );
 };
-const TeamsTab: React.FC<{ teams: Team[] }> = ({ teams }) => (
-    <div>
-        <h3 className="text-xl font-bold mb-4">Participating Teams ({teams.length})</h3>
-        <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-4 gap-4">
-            {teams.map(team => (
-                <Link to={`/team/${team._id}`} key={team._id} className="bg-gray-700 p-3 rounded text-center hover:bg-gray-600 transition-colors">
-                    {team.logoUrl ? (
-                         <img src={team.logoUrl} className="w-16 h-16 rounded-full mx-auto mb-2 object-cover" alt={team.name} />
-                    ) : (
-                        <div className="w-16 h-16 rounded-full bg-gray-600 flex items-center justify-center mx-auto mb-2">
-                             <span className="text-2xl font-bold text-gray-400">{team.name.charAt(0)}</span>
+const TeamsTab: React.FC<{ tournament: Tournament, canManageSquad: (team: Team) => boolean, onRegisterPlayer: (teamId: string, playerId: string) => Promise<void>, onDeregisterPlayer: (teamId: string, playerId: string) => Promise<void> }> = ({ tournament, canManageSquad, onRegisterPlayer, onDeregisterPlayer }) => {
+    const teams = tournament.teams;
+    const [playerToRegister, setPlayerToRegister] = useState<Record<string, string>>({});
+    const [error, setError] = useState('');
+    const squadsOpen = canChangeSquads(tournament);
+    // Tournament admins manage every squad; team admins manage their own.
+    const runSquadChange = async (change: () => Promise<void>) => {
+        setError('');
+        try {
+            await change();
+        } catch (err: any) {
+            setError(err.message || 'The squad could not be updated.');
+        }
+    };
+    const handleRegister = (teamId: string) => runSquadChange(async () => {
+        const playerId = playerToRegister[teamId];
+        if (!playerId) return;
+        await onRegisterPlayer(teamId, playerId);
+        setPlayerToRegister(prev => ({ ...prev, [teamId]: '' }));
+    });
+    return (
+        <div>
+            <h3 className="text-xl font-bold mb-4">Participating Teams ({teams.length})</h3>
+            <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-4 gap-4">
+                {teams.map(team => (
+                    <Link to={`/team/${team._id}`} key={team._id} className="bg-gray-700 p-3 rounded text-center hover:bg-gray-600 transition-colors">
+                        {team.logoUrl ? (
+                             <img src={team.logoUrl} className="w-16 h-16 rounded-full mx-auto mb-2 object-cover" alt={team.name} />
+                        ) : (
+                            <div className="w-16 h-16 rounded-full bg-gray-600 flex items-center justify-center mx-auto mb-2">
+                                 <span className="text-2xl font-bold text-gray-400">{team.name.charAt(0)}</span>
+                            </div>
+                        )}
+                        <p className="font-semibold">{team.name}</p>
+                    </Link>
+                ))}
+            </div>
+            <h3 className="text-xl font-bold mt-8 mb-2">Registered Squads</h3>
+            <p className="text-sm text-gray-400 mb-4">{describeRegistrationStatus(tournament)}</p>
+            {error && <div className="mb-4 p-3 rounded-lg text-sm bg-red-500/20 text-red-300">{error}</div>}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {teams.map(team => {
+                    const squad = getSquad(tournament, team._id);
+                    const unregistered = (team.members || []).filter(m => m && m.profile && !squad.some(p => p._id === m._id));
+                    const canManage = squadsOpen && canManageSquad(team);
+                    return (
+                        <div key={team._id} className="bg-gray-700 p-4 rounded-lg">
+                            <h4 className="font-semibold mb-2">{team.name} <span className="text-sm text-gray-400">({squad.length})</span></h4>
+                            <ul className="space-y-1 text-sm">
+                                {squad.map(player => (
+                                    <li key={player._id} className="flex items-center justify-between gap-2">
+                                        <Link to={`/player/${player._id}`} className="hover:underline">{player.profile.name}</Link>
+                                        {canManage && <button onClick={() => runSquadChange(() => onDeregisterPlayer(team._id, player._id))} className="text-xs text-red-400 hover:text-red-300">Remove</button>}
+                                    </li>
+                                ))}
+                                {squad.length === 0 && <li className="text-gray-400">No players registered.</li>}
+                            </ul>
+                            {canManage && unregistered.length > 0 && (
+                                <div className="flex gap-2 mt-3">
+                                    <select value={playerToRegister[team._id] || ''} onChange={e => setPlayerToRegister(prev => ({ ...prev, [team._id]: e.target.value }))} className="flex-grow bg-gray-800 text-white p-2 rounded text-sm">
+                                        <option value="">Register a team member</option>
+                                        {unregistered.map(m => <option key={m._id} value={m._id}>{m.profile.name}</option>)}
+                                    </select>
+                                    <button onClick={() => handleRegister(team._id)} className="bg-green-600 hover:bg-green-700 text-white font-bold py-1 px-3 rounded-lg text-sm disabled:bg-gray-500" disabled={!playerToRegister[team._id]}>Register</button>
+                                </div>
+                            )}
                         </div>
-                    )}
-                    <p className="font-semibold">{team.name}</p>
-                </Link>
-            ))}
+                    );
+                })}
+            </div>
         </div>
-    </div>
-);
-const FixturesTab: React.FC<{ matches: Match[], isAdmin: boolean, tournamentId: string, startMatch: (tournId: string, matchId: string) => Promise<void>, onEditMatch: (match: Match) => void, onSetPlayerOfTheMatch: (match: Match) => void }> = ({ matches, isAdmin, tournamentId, startMatch, onEditMatch, onSetPlayerOfTheMatch }) => {
-    const navigate = useNavigate();
+    );
+};
+export const FixturesTab: React.FC<{ matches: Match[], groups?: TournamentGroup[], isAdmin: boolean, canScore: (match: Match) => boolean, onStartMatch: (match: Match) => void, onScoreMatch: (match: Match) => void, onEditMatch: (match: Match) => void, onAssignOfficials: (match: Match) => void, onSetPlayerOfTheMatch: (match: Match) => void }> = ({ matches, groups, isAdmin, canScore, onStartMatch, onScoreMatch, onEditMatch, onAssignOfficials, onSetPlayerOfTheMatch }) => {
     const [viewingDetailsMatchId, setViewingDetailsMatchId] = useState<string | null>(null);
-    const handleStartMatch = async (matchId: string) => {
-        await startMatch(tournamentId, matchId);
-        navigate(`/match/${matchId}/score?tournamentId=${tournamentId}`);
-    };
     const getTeamClasses = (teamId: string, match: Match): string => {
         if (match.status !== MatchStatus.FINISHED) return 'font-semibold';
         if (match.winnerId === teamId) return 'font-bold text-green-400';
@@ -303,9 +497,11 @@ const FixturesTab: React.FC<{ matches: Match[], isAdmin: boolean, tournamentId:
         return 'font-semibold text-gray-400';
     };
     const getTimelineEvents = (match: Match) => {
-        const goals = match.goals.map(g => ({ ...g, eventType: 'goal' as const, time: g.minute }));
-        const cards = match.cards.map(c => ({ ...c, eventType: 'card' as const, time: c.minute }));
-        return [...goals, ...cards].sort((a, b) => a.time - b.time);
+        const goals = match.goals.map(g => ({ ...g, eventType: 'goal' as const }));
+        const cards = match.cards.map(c => ({ ...c, eventType: 'card' as const }));
+        const substitutions = (match.substitutions || []).map(s => ({ ...s, eventType: 'substitution' as const }));
+        const otherEvents = (match.events || []).map(e => ({ ...e, eventType: 'event' as const }));
+        return [...goals, ...cards, ...substitutions, ...otherEvents].sort(compareEventTimes);
     };
     return (
         <div>
@@ -330,8 +526,18 @@ const FixturesTab: React.FC<{ matches: Match[], isAdmin: boolean, tournamentId:
                             }}
                         >
                             <div className="flex items-center justify-between">
-                                <div className="text-xs text-gray-400">Match #{match.matchNumber} &bull; {match.round}</div>
+                                <div className="text-xs text-gray-400">Match #{match.matchNumber} &bull; {match.round}{getMatchGroup(match, groups) && <> &bull; {getMatchGroup(match, groups)}</>}</div>
                                 <div className="flex items-center gap-2">
+                                {(match.refereeId?.profile || match.scorekeeperId?.profile) && (
+                                    <span className="text-xs text-gray-400">
+                                        {match.refereeId?.profile && <>Ref: {match.refereeId.profile.name}</>}
+                                        {match.refereeId?.profile && match.scorekeeperId?.profile && <> &bull; </>}
+                                        {match.scorekeeperId?.profile && <>Scorer: {match.scorekeeperId.profile.name}</>}
+                                    </span>
+                                )}
+                                {isAdmin && match.status !== MatchStatus.FINISHED && (
+                                    <button onClick={(e) => { e.stopPropagation(); onAssignOfficials(match); }} className="text-xs text-gray-400 hover:text-white underline">Officials</button>
+                                )}
                                 {isAdmin && match.status === MatchStatus.SCHEDULED && (
                                     <button onClick={(e) => { e.stopPropagation(); onEditMatch(match); }} className="text-gray-400 hover:text-white"><EditIcon /></button>
                                 )}
@@ -374,8 +580,11 @@ const FixturesTab: React.FC<{ matches: Match[], isAdmin: boolean, tournamentId:
                                         </div>
                                     )}
                                 </Link>
-                                {isAdmin && match.status === MatchStatus.SCHEDULED && (
-                                    <button onClick={(e) => { e.stopPropagation(); handleStartMatch(match._id); }} className="bg-green-500 hover:bg-green-600 text-white font-bold py-1 px-3 rounded text-sm ml-4">Start</button>
+                                {canScore(match) && match.status === MatchStatus.SCHEDULED && (
+                                    <button onClick={(e) => { e.stopPropagation(); onStartMatch(match); }} className="bg-green-500 hover:bg-green-600 text-white font-bold py-1 px-3 rounded text-sm ml-4">Start</button>
+                                )}
+                                {canScore(match) && match.status === MatchStatus.LIVE && (
+                                    <button onClick={(e) => { e.stopPropagation(); onScoreMatch(match); }} className="bg-red-500 hover:bg-red-600 text-white font-bold py-1 px-3 rounded text-sm ml-4">Score</button>
                                 )}
                             </div>
                              {viewingDetailsMatchId === match._id && (
@@ -391,27 +600,63 @@ const FixturesTab: React.FC<{ matches: Match[], isAdmin: boolean, tournamentId:
                                                     const benefitingTeam = goal.teamId === teamA._id ? teamA : teamB;
                                                     return (
                                                         <li key={`goal-${index}`} className="flex items-center gap-2">
+                                                            <span className="w-12 flex-shrink-0 font-mono text-gray-400">{formatEventTime(goal)}</span>
                                                             <span className="font-bold text-green-400">⚽</span>
                                                             <span>
                                                                 Goal for <Link to={`/team/${benefitingTeam._id}`} className="font-semibold hover:underline">{benefitingTeam.name}</Link>.
                                                                 {scorer && scorer.profile ? (
                                                                     <> Scored by <Link to={`/player/${scorer._id}`} className="font-semibold hover:underline">{scorer.profile.name}</Link></>
                                                                 ) : ( ' Scorer details unavailable.' )}
-                                                                {goal.isOwnGoal && <span className="text-red-400 font-semibold"> (OG)</span>}.
+                                                                {goal.isOwnGoal && <span className="text-red-400 font-semibold"> (OG)</span>}
+                                                                {goal.isPenalty && <span className="text-gray-400 font-semibold"> (P)</span>}.
                                                                 {assister && assister.profile && <span className="text-gray-400"> (A: <Link to={`/player/${assister._id}`} className="hover:underline">{assister.profile.name}</Link>)</span>}
                                                             </span>
                                                         </li>
                                                     );
+                                                } else if (event.eventType === 'event') {
+                                                    const meta = MATCH_EVENT_META[event.type];
+                                                    const team = event.teamId === teamA._id ? teamA : teamB;
+                                                    return (
+                                                        <li key={`event-${index}`} className="flex items-center gap-2">
+                                                            <span className="w-12 flex-shrink-0 font-mono text-gray-400">{formatEventTime(event)}</span>
+                                                            <span className={`font-bold text-xs ${meta?.color || 'text-gray-300'}`}>{meta?.icon || '•'}</span>
+                                                            <span>
+                                                                {event.type === MatchEventType.VAR_OVERTURN ? (
+                                                                    <>VAR review: the {event.note || 'decision'} was overturned.</>
+                                                                ) : (
+                                                                    <>
+                                                                        {meta?.label || 'Event'} ({team.name}):{' '}
+                                                                        {event.playerId?.profile ? <Link to={`/player/${event.playerId._id}`} className="font-semibold hover:underline">{event.playerId.profile.name}</Link> : 'Player details unavailable'}
+                                                                        {event.note && <span className="text-gray-400"> - {event.note}</span>}.
+                                                                    </>
+                                                                )}
+                                                            </span>
+                                                        </li>
+                                                    );
+                                                } else if (event.eventType === 'substitution') {
+                                                    const team = event.teamId === teamA._id ? teamA : teamB;
+                                                    return (
+                                                        <li key={`sub-${index}`} className="flex items-center gap-2">
+                                                            <span className="w-12 flex-shrink-0 font-mono text-gray-400">{formatEventTime(event)}</span>
+                                                            <span className="font-bold text-blue-400">⇄</span>
+                                                            <span>
+                                                                Substitution for {team.name}: <span className="text-green-400 font-semibold">{event.playerOnId?.profile?.name || 'Unknown player'}</span> on,
+                                                                {' '}<span className="text-red-400">{event.playerOffId?.profile?.name || 'unknown player'}</span> off.
+                                                            </span>
+                                                        </li>
+                                                    );
                                                 } else {
                                                     const card = event as Card & { eventType: 'card' };
                                                     const player = card.playerId;
                                                     return (
                                                         <li key={`card-${index}`} className="flex items-center gap-2">
+                                                            <span className="w-12 flex-shrink-0 font-mono text-gray-400">{formatEventTime(card)}</span>
+                                                            {card.isSecondYellow && <CardYellowIcon />}
                                                             {card.type === CardType.YELLOW ? <CardYellowIcon /> : <CardRedIcon />}
                                                             <span>
                                                                 {player && player.profile ? (
                                                                     <>
-                                                                        <Link to={`/player/${player._id}`} className="font-semibold hover:underline">{player.profile.name}</Link> received a {card.type} Card.
+                                                                        <Link to={`/player/${player._id}`} className="font-semibold hover:underline">{player.profile.name}</Link> received a {card.isSecondYellow ? 'second Yellow Card and was sent off' : `${card.type} Card`}.
                                                                     </>
                                                                 ) : (
                                                                     `A ${card.type} Card was given to a player whose details are unavailable.`
@@ -427,6 +672,16 @@ const FixturesTab: React.FC<{ matches: Match[], isAdmin: boolean, tournamentId:
                                                     <span>Penalty Shootout: {teamA.name} {match.penaltyScoreA} - {match.penaltyScoreB} {teamB.name}</span>
                                                 </li>
                                             )}
+                                            {hasPenalties && (match.shootoutKicks || []).map((kick, index) => (
+                                                <li key={kick._id || `kick-${index}`} className="flex items-center gap-2 pl-6">
+                                                    <span className="w-6 flex-shrink-0 font-mono text-gray-400">{index + 1}.</span>
+                                                    <span className={`font-bold ${kick.scored ? 'text-green-400' : 'text-red-400'}`}>{kick.scored ? '✓' : '✗'}</span>
+                                                    <span>
+                                                        {kick.takerId?.profile ? <Link to={`/player/${kick.takerId._id}`} className="font-semibold hover:underline">{kick.takerId.profile.name}</Link> : 'Unknown player'}
+                                                        <span className="text-gray-400"> ({kick.teamId === teamA._id ? teamA.name : teamB.name})</span> {kick.scored ? 'scored' : 'missed'}.
+                                                    </span>
+                                                </li>
+                                            ))}
                                         </ul>
                                     ) : <p className="text-gray-400">No events were recorded for this match.</p>}
                                    
@@ -465,127 +720,230 @@ const FixturesTab: React.FC<{ matches: Match[], isAdmin: boolean, tournamentId:
         </div>
     );
 };
-const PointsTableTab: React.FC<{ matches: Match[], teams: Team[] }> = ({ matches, teams }) => {
-    const tableData = useMemo(() => {
-        const stats: { [key: string]: { p: number, w: number, d: number, l: number, pts: number, gf: number, ga: number } } = {};
-        teams.forEach(t => { stats[t._id] = { p: 0, w: 0, d: 0, l: 0, pts: 0, gf: 0, ga: 0 }; });
-       
-        const knockoutRounds = ['Final', 'Semi-Final', 'Quarter-Final', 'Eliminator'];
-        matches
-            .filter(m => m.status === MatchStatus.FINISHED && !knockoutRounds.includes(m.round))
-            .forEach(m => {
-                 if (!m.teamAId || !m.teamBId) return;
-                const teamAId = m.teamAId._id;
-                const teamBId = m.teamBId._id;
-               
-                stats[teamAId].p++;
-                stats[teamBId].p++;
-               
-                stats[teamAId].gf += m.scoreA;
-                stats[teamAId].ga += m.scoreB;
-                stats[teamBId].gf += m.scoreB;
-                stats[teamBId].ga += m.scoreA;
-                if (m.winnerId === teamAId) { // A wins
-                    stats[teamAId].w++;
-                    stats[teamAId].pts += 3;
-                    stats[teamBId].l++;
-                } else if (m.winnerId === teamBId) { // B wins
-                    stats[teamBId].w++;
-                    stats[teamBId].pts += 3;
-                    stats[teamAId].l++;
-                } else { // Draw
-                    stats[teamAId].d++;
-                    stats[teamAId].pts++;
-                    stats[teamBId].d++;
-                    stats[teamBId].pts++;
-                }
-            });
-        return teams.map(t => {
-            const teamStats = stats[t._id];
-            const gd = teamStats.gf - teamStats.ga;
-            return { ...t, ...teamStats, gd };
-        }).sort((a, b) => {
-            if (b.pts !== a.pts) {
-                return b.pts - a.pts;
-            }
-            return b.gd - a.gd;
-        });
-    }, [matches, teams]);
+const StandingsTable: React.FC<{ rows: (StandingRow & { groupName?: string })[], rules: PointsRules, qualifyCount: number, title?: string }> = ({ rows: tableData, rules, qualifyCount, title }) => {
+    const showGroup = tableData.some(t => t.groupName);
+    const hasAdjustments = tableData.some(t => t.adj !== 0);
+    const usedTieBreakers = rules.tieBreakers.filter(tb => tableData.some(t => t.decidedBy === tb));
+    const describeTie = (i: number) => {
+        const row = tableData[i];
+        const next = tableData[i + 1];
+        if (!row.decidedBy || !next) return undefined;
+        return `Level on points with ${next.team.name}; placed above on ${TIE_BREAKER_LABELS[row.decidedBy].toLowerCase()}`;
+    };
     return (
         <div className="overflow-x-auto">
+            {title && <h4 className="font-bold text-lg mb-2">{title}</h4>}
             <table className="w-full table-auto text-sm text-left">
                 <thead className="bg-gray-700">
                     <tr>
                         <th className="p-2 sm:p-3">Team</th>
+                        {showGroup && <th className="p-2 sm:p-3">Group</th>}
                         <th className="p-2 sm:p-3">P</th>
                         <th className="p-2 sm:p-3">W</th>
                         <th className="p-2 sm:p-3">D</th>
                         <th className="p-2 sm:p-3">L</th>
                         <th className="p-2 sm:p-3">GD</th>
+                        {hasAdjustments && <th className="p-2 sm:p-3" title="Bonus points minus deductions">Adj</th>}
                         <th className="p-2 sm:p-3">Pts</th>
                     </tr>
                 </thead>
                 <tbody>
                     {tableData.map((t, i) => (
-                        <tr key={t._id} className="border-b border-gray-700">
+                        <tr key={t.team._id} className={`border-b border-gray-700 ${i < qualifyCount ? 'border-l-4 border-l-green-500 bg-green-500/5' : ''}`}>
                             <td className="p-2 sm:p-3">
-                                <Link to={`/team/${t._id}`} className="flex items-center gap-2 font-bold hover:opacity-80 min-w-0">
+                                <Link to={`/team/${t.team._id}`} className="flex items-center gap-2 font-bold hover:opacity-80 min-w-0">
                                     <span className="w-6 flex-shrink-0">{i+1}</span>
-                                    {t.logoUrl ? (
-                                        <img src={t.logoUrl} alt={t.name} className="w-6 h-6 rounded-full object-cover flex-shrink-0"/>
+                                    {t.team.logoUrl ? (
+                                        <img src={t.team.logoUrl} alt={t.team.name} className="w-6 h-6 rounded-full object-cover flex-shrink-0"/>
                                     ) : (
                                         <div className="w-6 h-6 rounded-full bg-gray-600 flex-shrink-0 flex items-center justify-center">
-                                            <span className="font-bold text-gray-400 text-xs">{t.name.charAt(0)}</span>
+                                            <span className="font-bold text-gray-400 text-xs">{t.team.name.charAt(0)}</span>
                                         </div>
                                     )}
-                                    <span className="truncate">{t.name}</span>
+                                    <span className="truncate">{t.team.name}</span>
                                 </Link>
                             </td>
+                            {showGroup && <td className="p-2 sm:p-3 text-gray-300 whitespace-nowrap">{t.groupName}</td>}
                             <td className="p-2 sm:p-3">{t.p}</td>
                             <td className="p-2 sm:p-3">{t.w}</td>
                             <td className="p-2 sm:p-3">{t.d}</td>
                             <td className="p-2 sm:p-3">{t.l}</td>
                             <td className="p-2 sm:p-3">{t.gd > 0 ? `+${t.gd}` : t.gd}</td>
-                            <td className="p-2 sm:p-3 font-bold">{t.pts}</td>
+                            {hasAdjustments && <td className={`p-2 sm:p-3 ${t.adj < 0 ? 'text-red-400' : t.adj > 0 ? 'text-green-400' : ''}`}>{t.adj > 0 ? `+${t.adj}` : t.adj}</td>}
+                            <td className="p-2 sm:p-3 font-bold whitespace-nowrap">
+                                {t.pts}
+                                {t.decidedBy && <span className="ml-1 text-xs font-semibold text-yellow-300 cursor-help" title={describeTie(i)}>{TIE_BREAKER_SHORT_LABELS[t.decidedBy]}</span>}
+                            </td>
                         </tr>
                     ))}
                 </tbody>
             </table>
+            {qualifyCount > 0 && tableData.length > 0 && (
+                <p className="text-xs text-gray-400 mt-2"><span className="inline-block w-2 h-2 bg-green-500 mr-1"></span>Qualification places</p>
+            )}
+            {usedTieBreakers.length > 0 && (
+                <p className="text-xs text-gray-400 mt-2">
+                    Tie-breaker that placed a team above the team below it: {usedTieBreakers.map(tb => `${TIE_BREAKER_SHORT_LABELS[tb]} = ${TIE_BREAKER_LABELS[tb]}`).join(', ')}.
+                </p>
+            )}
         </div>
     );
 };
-const LeadersTab: React.FC<{ matches: Match[], teams: Team[] }> = ({ matches, teams }) => {
-    const { topScorers, topAssisters } = useMemo(() => {
-        const goalCounts: { [key: string]: { player: User, goals: number } } = {};
-        const assistCounts: { [key: string]: { player: User, assists: number } } = {};
-        matches.forEach(m => {
-            m.goals.forEach(g => {
-                if (g.scorerId && !g.isOwnGoal) {
-                    if (!goalCounts[g.scorerId._id]) {
-                        goalCounts[g.scorerId._id] = { player: g.scorerId, goals: 0 };
-                    }
-                    goalCounts[g.scorerId._id].goals++;
-                }
-                if(g.assistId) {
-                    if (!assistCounts[g.assistId._id]) {
-                        assistCounts[g.assistId._id] = { player: g.assistId, assists: 0 };
-                    }
-                    assistCounts[g.assistId._id].assists++;
-                }
-            });
-        });
-       
-        const sortedScorers = Object.values(goalCounts)
-            .filter(item => item.player && item.player.profile)
-            .sort((a, b) => b.goals - a.goals)
-            .slice(0, 10);
-        const sortedAssisters = Object.values(assistCounts)
-            .filter(item => item.player && item.player.profile)
-            .sort((a, b) => b.assists - a.assists)
+const PLACE_NAMES = ['', 'first', 'second', 'third', 'fourth', 'fifth', 'sixth', 'seventh', 'eighth'];
+export const PointsTableTab: React.FC<{ tournament: Tournament, format: TournamentFormat, rules: PointsRules }> = ({ tournament, format, rules }) => {
+    const { matches, teams, groups } = tournament;
+    const usesGroups = hasGroupStage(format) && !!groups?.length;
+    const groupStandings = useMemo(() => usesGroups ? calculateGroupStandings(tournament) : [], [usesGroups, tournament]);
+    const tableData = useMemo(
+        () => usesGroups ? [] : calculateStandings(matches.filter(m => countsTowardsTable(m, format)), teams, rules),
+        [usesGroups, matches, teams, format, rules]
+    );
+    if (!usesGroups) {
+        return (
+            <div>
+                {hasGroupStage(format) && <p className="text-sm text-yellow-300 mb-4">Teams have not been drawn into groups yet, so all group matches are shown in one table.</p>}
+                <StandingsTable rows={tableData} rules={rules} qualifyCount={format.qualifiersPerGroup} />
+            </div>
+        );
+    }
+    const bestPlacedPosition = format.qualifiersPerGroup + 1;
+    const bestPlaced = format.bestThirdPlacedQualifiers > 0 ? rankTeamsAtPosition(groupStandings, bestPlacedPosition) : [];
+    return (
+        <div className="space-y-8">
+            <div className="grid grid-cols-1 xl:grid-cols-2 gap-8">
+                {groupStandings.map(({ group, rows }) => (
+                    <StandingsTable key={group.name} title={group.name} rows={rows} rules={rules} qualifyCount={format.qualifiersPerGroup} />
+                ))}
+            </div>
+            {bestPlaced.length > 0 && (
+                <StandingsTable
+                    title={`Best ${PLACE_NAMES[bestPlacedPosition] || `${bestPlacedPosition}th`}-placed teams`}
+                    rows={bestPlaced}
+                    rules={rules}
+                    qualifyCount={format.bestThirdPlacedQualifiers}
+                />
+            )}
+        </div>
+    );
+};
+export const BracketTab: React.FC<{ matches: Match[], format: TournamentFormat, isAdmin: boolean, onSeedSlot: (slot: BracketSlot) => void }> = ({ matches, format, isAdmin, onSeedSlot }) => {
+    const rounds = useMemo(() => buildBracket(matches, format), [matches, format]);
+    if (rounds.length === 0) {
+        return <p className="text-center text-gray-400 py-4">No knockout matches yet.</p>;
+    }
+    const renderSide = (slot: BracketSlot, side: 'A' | 'B') => {
+        const { team, placeholder } = side === 'A' ? slot.sideA : slot.sideB;
+        const match = slot.match;
+        const isFinished = match?.status === MatchStatus.FINISHED;
+        const score = side === 'A' ? match?.scoreA : match?.scoreB;
+        const penalties = side === 'A' ? match?.penaltyScoreA : match?.penaltyScoreB;
+        const isWinner = !!team && slot.winnerId === team._id;
+        return (
+            <div className={`flex items-center justify-between gap-2 px-3 py-2 ${isWinner ? 'text-green-400 font-bold' : isFinished ? 'text-gray-400' : ''}`}>
+                <span className={`truncate ${team ? 'font-semibold' : 'italic text-gray-500'}`}>{team ? team.name : placeholder}</span>
+                {match && match.status !== MatchStatus.SCHEDULED && (
+                    <span className="flex-shrink-0 font-mono">
+                        {score}
+                        {typeof penalties === 'number' && <span className="text-xs text-gray-400"> ({penalties})</span>}
+                    </span>
+                )}
+            </div>
+        );
+    };
+    return (
+        <div className="overflow-x-auto">
+            <div className="flex gap-6 min-w-max">
+                {rounds.map(round => (
+                    <div key={round.name} className="flex flex-col w-56">
+                        <h4 className="text-center font-bold text-gray-300 mb-3">{round.name}</h4>
+                        <div className="flex flex-col justify-around flex-grow gap-4">
+                            {round.slots.map(slot => {
+                                const canSeed = isAdmin && (!slot.match || slot.match.status === MatchStatus.SCHEDULED);
+                                return (
+                                    <div
+                                        key={slot.key}
+                                        onClick={() => canSeed && onSeedSlot(slot)}
+                                        className={`bg-gray-700 rounded-lg divide-y divide-gray-600 text-sm ${canSeed ? 'cursor-pointer hover:ring-2 hover:ring-green-500' : ''}`}
+                                        title={canSeed ? 'Click to seed teams' : undefined}
+                                    >
+                                        {slot.match && <div className="px-3 pt-1 text-xs text-gray-400">Match #{slot.match.matchNumber}{slot.match.status === MatchStatus.LIVE && <span className="text-red-500 font-semibold"> &bull; LIVE</span>}</div>}
+                                        {renderSide(slot, 'A')}
+                                        {renderSide(slot, 'B')}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+const SeedBracketSlotModal: React.FC<{ slot: BracketSlot; teams: Team[]; onClose: () => void; onSave: (teamAId: string, teamBId: string) => Promise<void> }> = ({ slot, teams, onClose, onSave }) => {
+    const [teamAId, setTeamAId] = useState(slot.sideA.team?._id || '');
+    const [teamBId, setTeamBId] = useState(slot.sideB.team?._id || '');
+    const [isSaving, setIsSaving] = useState(false);
+    // A side fed by an earlier match can stay empty; the winner advances into it.
+    const isValid = (!!teamAId || !!slot.sideA.feederMatchId) && (!!teamBId || !!slot.sideB.feederMatchId) && (!teamAId || teamAId !== teamBId);
+    const handleSave = async () => {
+        if (!isValid) return;
+        setIsSaving(true);
+        try {
+            await onSave(teamAId, teamBId);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50">
+            <div className="bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-md">
+                <h3 className="text-xl font-bold mb-4">Seed {slot.round}{slot.match ? ` - Match #${slot.match.matchNumber}` : ''}</h3>
+                <div className="space-y-4">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-300">Team A</label>
+                        <select value={teamAId} onChange={e => setTeamAId(e.target.value)} className="w-full bg-gray-700 text-white p-2 rounded mt-1">
+                            <option value="">{slot.sideA.placeholder}</option>
+                            {teams.filter(t => t._id !== teamBId).map(team => <option key={team._id} value={team._id}>{team.name}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-300">Team B</label>
+                        <select value={teamBId} onChange={e => setTeamBId(e.target.value)} className="w-full bg-gray-700 text-white p-2 rounded mt-1">
+                            <option value="">{slot.sideB.placeholder}</option>
+                            {teams.filter(t => t._id !== teamAId).map(team => <option key={team._id} value={team._id}>{team.name}</option>)}
+                        </select>
+                    </div>
+                </div>
+                <div className="flex justify-end gap-4 mt-6">
+                    <button onClick={onClose} className="bg-gray-600 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded-lg" disabled={isSaving}>Cancel</button>
+                    <button onClick={handleSave} className="bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-lg disabled:bg-gray-500" disabled={!isValid || isSaving}>
+                        {isSaving ? 'Saving...' : slot.match ? 'Update Match' : 'Create Match'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+export const LeadersTab: React.FC<{ tournament: Tournament, matches: Match[], teams: Team[] }> = ({ tournament, matches, teams }) => {
+    const { topScorers, goldenGlove, topAssisters, topShooters, topGoalkeepers, topPenaltyTakers } = useMemo(() => {
+        const playerStats = calculatePlayerStats(matches);
+        // The ten best players by a stat, leaving out anyone who hasn't registered it.
+        const top = (value: (stats: PlayerStats) => number) => playerStats
+            .filter(stats => value(stats) > 0)
+            .sort((a, b) => value(b) - value(a))
             .slice(0, 10);
-           
-        return { topScorers: sortedScorers, topAssisters: sortedAssisters };
-    }, [matches, teams]);
+        return {
+            topScorers: top(s => s.goals).map(s => ({ player: s.player, goals: s.goals })),
+            // Goalkeepers by clean sheets, with goals conceded and saves breaking ties.
+            goldenGlove: calculateGoldenGlove(tournament).slice(0, 10).map(g => ({ player: g.player, cleanSheets: `${g.cleanSheets} CS · ${g.goalsConceded} GA` })),
+            topAssisters: top(s => s.assists).map(s => ({ player: s.player, assists: s.assists })),
+            topShooters: top(getShotsOnTarget).map(s => ({ player: s.player, shots: getShotsOnTarget(s) })),
+            topGoalkeepers: top(s => s.events[MatchEventType.SAVE]).map(s => ({ player: s.player, saves: s.events[MatchEventType.SAVE] })),
+            topPenaltyTakers: top(getPenaltiesTaken)
+                .sort((a, b) => b.penaltiesScored - a.penaltiesScored || getPenaltiesTaken(a) - getPenaltiesTaken(b))
+                .map(s => ({ player: s.player, penalties: `${s.penaltiesScored}/${getPenaltiesTaken(s)}` })),
+        };
+    }, [tournament, matches, teams]);
     const Leaderboard: React.FC<{title: string; data: { player: User, [key: string]: any }[], metric: string}> = ({title, data, metric}) => {
         return (
             <div className="bg-gray-700 p-4 rounded-lg">
@@ -614,9 +972,105 @@ const LeadersTab: React.FC<{ matches: Match[], teams: Team[] }> = ({ matches, te
     }
    
     return (
-        <div className="grid md:grid-cols-2 gap-8">
-            <Leaderboard title="Top Goalscorers" data={topScorers} metric="goals" />
-            <Leaderboard title="Top Assists" data={topAssisters} metric="assists" />
+        <div className="space-y-8">
+            <div className="grid md:grid-cols-2 gap-8">
+                <Leaderboard title="Top Goalscorers" data={topScorers} metric="goals" />
+                <Leaderboard title="Golden Glove" data={goldenGlove} metric="cleanSheets" />
+                <Leaderboard title="Top Assists" data={topAssisters} metric="assists" />
+                <Leaderboard title="Shots on Target" data={topShooters} metric="shots" />
+                <Leaderboard title="Most Saves" data={topGoalkeepers} metric="saves" />
+                <Leaderboard title="Penalties (Scored/Taken)" data={topPenaltyTakers} metric="penalties" />
+            </div>
+            <PlayerStatsTable tournament={tournament} teams={teams} />
+        </div>
+    );
+};
+const PLAYER_STATS_COLUMNS: { stat: LeaderStat; label: string; title: string; rate?: boolean }[] = [
+    { stat: 'appearances', label: 'App', title: 'Appearances' },
+    { stat: 'minutes', label: 'Min', title: 'Minutes played' },
+    { stat: 'goals', label: 'G', title: 'Goals' },
+    { stat: 'assists', label: 'A', title: 'Assists' },
+    { stat: 'goalContributions', label: 'G+A', title: 'Goals plus assists' },
+    { stat: 'yellowCards', label: 'YC', title: 'Yellow cards' },
+    { stat: 'redCards', label: 'RC', title: 'Red cards' },
+    { stat: 'potm', label: 'POTM', title: 'Player of the Match awards' },
+    { stat: 'goalsPerMatch', label: 'G/M', title: 'Goals per match', rate: true },
+    { stat: 'contributionsPerMatch', label: 'G+A/M', title: 'Goals plus assists per match', rate: true },
+    { stat: 'goalsPer90', label: 'G/90', title: 'Goals per 90 minutes', rate: true },
+    { stat: 'contributionsPer90', label: 'G+A/90', title: 'Goals plus assists per 90 minutes', rate: true },
+];
+const PlayerStatsTable: React.FC<{ tournament: Tournament, teams: Team[] }> = ({ tournament, teams }) => {
+    const [sortStat, setSortStat] = useState<LeaderStat>('goals');
+    const [descending, setDescending] = useState(true);
+    const [teamFilter, setTeamFilter] = useState('');
+    const [positionFilter, setPositionFilter] = useState('');
+    const allRows = useMemo(() => calculateLeaderRows(tournament), [tournament]);
+    // Filtering happens before ranking, so ranks are always 1-based within the players shown.
+    const rows = useMemo(() => rankLeaderRows(
+        allRows.filter(row => (!teamFilter || row.teamId === teamFilter) && (!positionFilter || row.player.profile.position === positionFilter)),
+        sortStat,
+        descending
+    ), [allRows, teamFilter, positionFilter, sortStat, descending]);
+    const teamNames = useMemo(() => new Map(teams.map(t => [t._id, t.name])), [teams]);
+
+    const handleSort = (stat: LeaderStat) => {
+        if (stat === sortStat) {
+            setDescending(d => !d);
+        } else {
+            setSortStat(stat);
+            setDescending(true);
+        }
+    };
+    const formatValue = (value: number | null, rate?: boolean) => value === null ? '–' : rate ? value.toFixed(2) : value;
+
+    return (
+        <div className="bg-gray-700 p-4 rounded-lg">
+            <div className="flex flex-wrap justify-between items-center gap-2 mb-3">
+                <h4 className="text-lg font-bold">Player Statistics</h4>
+                <div className="flex gap-2">
+                    <select value={teamFilter} onChange={e => setTeamFilter(e.target.value)} className="bg-gray-800 text-white p-2 rounded text-sm">
+                        <option value="">All teams</option>
+                        {teams.map(team => <option key={team._id} value={team._id}>{team.name}</option>)}
+                    </select>
+                    <select value={positionFilter} onChange={e => setPositionFilter(e.target.value)} className="bg-gray-800 text-white p-2 rounded text-sm">
+                        <option value="">All positions</option>
+                        {Object.values(PlayerPosition).map(pos => <option key={pos} value={pos}>{pos}</option>)}
+                    </select>
+                </div>
+            </div>
+            <div className="overflow-x-auto">
+                <table className="w-full table-auto text-sm text-left">
+                    <thead className="bg-gray-800">
+                        <tr>
+                            <th className="p-2">#</th>
+                            <th className="p-2">Player</th>
+                            <th className="p-2">Team</th>
+                            {PLAYER_STATS_COLUMNS.map(col => (
+                                <th key={col.stat} className="p-2 whitespace-nowrap">
+                                    <button onClick={() => handleSort(col.stat)} title={col.title} className={`hover:text-white ${sortStat === col.stat ? 'text-green-400' : 'text-gray-300'}`}>
+                                        {col.label}{sortStat === col.stat && (descending ? ' ▼' : ' ▲')}
+                                    </button>
+                                </th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rows.map(row => (
+                            <tr key={row.player._id} className="border-b border-gray-600">
+                                <td className="p-2 font-bold">{row.rank}</td>
+                                <td className="p-2">
+                                    <Link to={`/player/${row.player._id}`} className="hover:underline whitespace-nowrap">{row.player.profile.name}</Link>
+                                </td>
+                                <td className="p-2 text-gray-300 whitespace-nowrap">{row.teamId ? teamNames.get(row.teamId) : '–'}</td>
+                                {PLAYER_STATS_COLUMNS.map(col => (
+                                    <td key={col.stat} className={`p-2 ${sortStat === col.stat ? 'font-bold text-green-400' : ''}`}>{formatValue(row[col.stat], col.rate)}</td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                {rows.length === 0 && <p className="text-center text-gray-400 py-4">No players match these filters.</p>}
+            </div>
         </div>
     );
 };
@@ -671,12 +1125,184 @@ const EditMatchModal: React.FC<{match: Match; teams: Team[]; onClose: () => void
         </div>
     );
 };
-const PlayerOfTheMatchModal: React.FC<{ match: Match; tournamentTeams: Team[]; onClose: () => void; onSave: (playerId: string) => void; }> = ({ match, tournamentTeams, onClose, onSave }) => {
+type LineupRole = 'starter' | 'bench' | 'out';
+const LineupModal: React.FC<{ match: Match; tournament: Tournament; suspendedPlayers: Map<string, Suspension>; onClose: () => void; onConfirm: (lineups: LineupSelection[]) => Promise<void> }> = ({ match, tournament, suspendedPlayers, onClose, onConfirm }) => {
+    const matchTeams = [match.teamAId, match.teamBId]
+        .map(side => tournament.teams.find(t => t._id === side?._id))
+        .filter((t): t is Team => !!t);
+    // Player ID -> role, starting from any lineup already saved for the match.
+    const [roles, setRoles] = useState<Record<string, LineupRole>>(() => {
+        const initial: Record<string, LineupRole> = {};
+        (match.lineups || []).forEach(l => {
+            l.starters.forEach(p => { if (p) initial[p._id] = 'starter'; });
+            l.bench.forEach(p => { if (p) initial[p._id] = 'bench'; });
+        });
+        return initial;
+    });
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState('');
+    const playersOf = (team: Team) => getSquad(tournament, team._id);
+    const countRole = (team: Team, role: LineupRole) => playersOf(team).filter(p => roles[p._id] === role).length;
+    const problems = matchTeams.flatMap(team => {
+        const starters = countRole(team, 'starter');
+        if (starters === 0) return [`Pick at least one starter for ${team.name}.`];
+        if (starters > MAX_STARTERS) return [`${team.name} has more than ${MAX_STARTERS} starters.`];
+        return [];
+    });
+    const selectedSuspended = [...suspendedPlayers.values()].filter(s => roles[s.player._id] === 'starter' || roles[s.player._id] === 'bench');
+    const handleConfirm = async () => {
+        if (problems.length > 0) return;
+        setIsSaving(true);
+        setError('');
+        try {
+            await onConfirm(matchTeams.map(team => ({
+                teamId: team._id,
+                starterIds: playersOf(team).filter(p => roles[p._id] === 'starter').map(p => p._id),
+                benchIds: playersOf(team).filter(p => roles[p._id] === 'bench').map(p => p._id),
+            })));
+        } catch (err: any) {
+            setError(err.message || 'Failed to start the match.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+    const roleButton = (playerId: string, role: LineupRole, label: string, activeClass: string) => (
+        <button onClick={() => setRoles(r => ({ ...r, [playerId]: role }))} className={`px-2 py-1 rounded text-xs font-semibold ${(roles[playerId] || 'out') === role ? activeClass : 'bg-gray-800 text-gray-400 hover:bg-gray-600'}`}>{label}</button>
+    );
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50">
+            <div className="bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+                <h3 className="text-xl font-bold mb-1">Lineups</h3>
+                <p className="text-gray-400 text-sm mb-4">Pick the starting XI and bench for Match #{match.matchNumber} before kick-off.</p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    {matchTeams.map(team => (
+                        <div key={team._id}>
+                            <h4 className="font-bold mb-1">{team.name}</h4>
+                            <p className="text-xs text-gray-400 mb-2">{countRole(team, 'starter')}/{MAX_STARTERS} starters &bull; {countRole(team, 'bench')} on the bench</p>
+                            <ul className="space-y-1">
+                                {playersOf(team).map(player => (
+                                    <li key={player._id} className="flex items-center justify-between gap-2 bg-gray-700 px-3 py-1 rounded">
+                                        <span className="truncate text-sm">
+                                            {player.profile.name}
+                                            {suspendedPlayers.has(player._id) && <span className="ml-2 text-xs font-semibold text-red-300">Suspended</span>}
+                                        </span>
+                                        <span className="flex gap-1 flex-shrink-0">
+                                            {roleButton(player._id, 'starter', 'XI', 'bg-green-600 text-white')}
+                                            {roleButton(player._id, 'bench', 'Bench', 'bg-blue-600 text-white')}
+                                            {roleButton(player._id, 'out', 'Out', 'bg-gray-500 text-white')}
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    ))}
+                </div>
+                {selectedSuspended.map(s => <p key={s.player._id} className="text-sm text-red-300 mt-3">{describeSuspension(s)} and should not be named in the squad.</p>)}
+                {problems.map(problem => <p key={problem} className="text-sm text-yellow-300 mt-3">{problem}</p>)}
+                {error && <p className="text-sm text-red-400 mt-3">{error}</p>}
+                <div className="flex justify-end gap-4 mt-6">
+                    <button onClick={onClose} className="bg-gray-600 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded-lg" disabled={isSaving}>Cancel</button>
+                    <button onClick={handleConfirm} className="bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-lg disabled:bg-gray-500" disabled={problems.length > 0 || isSaving}>{isSaving ? 'Starting...' : 'Confirm & Start'}</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+const DisciplineTab: React.FC<{ rules: DisciplineRules; suspensions: Suspension[]; teams: Team[]; isAdmin: boolean; onSaveRules: (rules: DisciplineRules) => Promise<void> }> = ({ rules, suspensions, teams, isAdmin, onSaveRules }) => {
+    const [draft, setDraft] = useState<DisciplineRules>(rules);
+    const [isSaving, setIsSaving] = useState(false);
+    useEffect(() => { setDraft(rules); }, [rules.yellowCardThreshold, rules.yellowCardBan, rules.redCardBan]);
+    const isDirty = draft.yellowCardThreshold !== rules.yellowCardThreshold || draft.yellowCardBan !== rules.yellowCardBan || draft.redCardBan !== rules.redCardBan;
+    const teamName = (teamId: string) => teams.find(t => t._id === teamId)?.name || 'Unknown team';
+    const sorted = [...suspensions].sort((a, b) => b.remaining - a.remaining || b.triggeredBy.matchNumber - a.triggeredBy.matchNumber);
+    const setNumber = (key: keyof DisciplineRules) => (e: React.ChangeEvent<HTMLInputElement>) =>
+        setDraft(d => ({ ...d, [key]: Math.max(0, parseInt(e.target.value, 10) || 0) }));
+    const handleSave = async () => {
+        setIsSaving(true);
+        try {
+            await onSaveRules(draft);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+    return (
+        <div className="space-y-6">
+            <div className="bg-gray-700 p-4 rounded-lg">
+                <h3 className="text-lg font-semibold mb-3">Suspension Rules</h3>
+                {isAdmin ? (
+                    <div className="grid grid-cols-1 sm:grid-cols-4 gap-4 items-end">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-300">Yellow cards for a ban</label>
+                            <input type="number" min={0} value={draft.yellowCardThreshold} onChange={setNumber('yellowCardThreshold')} className="w-full bg-gray-800 text-white p-2 rounded mt-1" />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-300">Matches banned (yellows)</label>
+                            <input type="number" min={0} value={draft.yellowCardBan} onChange={setNumber('yellowCardBan')} className="w-full bg-gray-800 text-white p-2 rounded mt-1" />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-300">Matches banned (red)</label>
+                            <input type="number" min={0} value={draft.redCardBan} onChange={setNumber('redCardBan')} className="w-full bg-gray-800 text-white p-2 rounded mt-1" />
+                        </div>
+                        <button onClick={handleSave} className="bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-lg disabled:bg-gray-500" disabled={!isDirty || isSaving}>{isSaving ? 'Saving...' : 'Save Rules'}</button>
+                    </div>
+                ) : (
+                    <p className="text-sm text-gray-300">
+                        {rules.yellowCardThreshold > 0 ? `${rules.yellowCardThreshold} yellow cards: ${rules.yellowCardBan} match ban. ` : 'Yellow cards do not accumulate. '}
+                        Red card: {rules.redCardBan} match ban.
+                    </p>
+                )}
+                {isAdmin && <p className="text-xs text-gray-400 mt-2">Set the yellow card count to 0 to turn accumulation off.</p>}
+            </div>
+            <div>
+                <h3 className="text-xl font-bold mb-4">Suspensions</h3>
+                {sorted.length > 0 ? (
+                    <div className="overflow-x-auto">
+                        <table className="w-full table-auto text-sm text-left">
+                            <thead className="bg-gray-700">
+                                <tr>
+                                    <th className="p-2 sm:p-3">Player</th>
+                                    <th className="p-2 sm:p-3">Team</th>
+                                    <th className="p-2 sm:p-3">Reason</th>
+                                    <th className="p-2 sm:p-3">Ban</th>
+                                    <th className="p-2 sm:p-3">Status</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {sorted.map(s => (
+                                    <tr key={`${s.player._id}-${s.triggeredBy._id}-${s.reason}`} className="border-b border-gray-700">
+                                        <td className="p-2 sm:p-3 font-bold">
+                                            <Link to={`/player/${s.player._id}`} className="hover:text-green-400">{s.player.profile?.name || 'Unknown player'}</Link>
+                                        </td>
+                                        <td className="p-2 sm:p-3">{teamName(s.teamId)}</td>
+                                        <td className="p-2 sm:p-3">
+                                            <span className="inline-flex items-center gap-2">
+                                                {s.reason === 'redCard' ? <CardRedIcon /> : <CardYellowIcon />}
+                                                Match #{s.triggeredBy.matchNumber}
+                                            </span>
+                                        </td>
+                                        <td className="p-2 sm:p-3">{s.length} match{s.length === 1 ? '' : 'es'}</td>
+                                        <td className={`p-2 sm:p-3 font-semibold ${s.remaining > 0 ? 'text-red-400' : 'text-gray-400'}`}>
+                                            {s.remaining > 0 ? `Suspended (${s.remaining} to serve)` : 'Served'}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                ) : (
+                    <p className="text-center text-gray-400 py-4">No suspensions yet.</p>
+                )}
+            </div>
+        </div>
+    );
+};
+const PlayerOfTheMatchModal: React.FC<{ match: Match; tournament: Tournament; suspendedPlayers: Map<string, Suspension>; onClose: () => void; onSave: (playerId: string) => void; }> = ({ match, tournament, suspendedPlayers, onClose, onSave }) => {
     const [selectedPlayerId, setSelectedPlayerId] = useState(match.playerOfTheMatchId?._id || '');
    
-    const teamA = useMemo(() => tournamentTeams.find(t => t._id === match.teamAId?._id), [tournamentTeams, match.teamAId]);
-    const teamB = useMemo(() => tournamentTeams.find(t => t._id === match.teamBId?._id), [tournamentTeams, match.teamBId]);
-    const players = useMemo(() => [...(teamA?.members || []), ...(teamB?.members || [])], [teamA, teamB]);
+    const teamA = useMemo(() => tournament.teams.find(t => t._id === match.teamAId?._id), [tournament, match.teamAId]);
+    const teamB = useMemo(() => tournament.teams.find(t => t._id === match.teamBId?._id), [tournament, match.teamBId]);
+    const squadA = useMemo(() => getSquad(tournament, teamA?._id), [tournament, teamA]);
+    const players = useMemo(() => [...squadA, ...getSquad(tournament, teamB?._id)], [tournament, squadA, teamB]);
     const handleSave = () => {
         if (selectedPlayerId) {
             onSave(selectedPlayerId);
@@ -690,7 +1316,7 @@ const PlayerOfTheMatchModal: React.FC<{ match: Match; tournamentTeams: Team[]; o
                 <div className="max-h-64 overflow-y-auto space-y-2 pr-2">
                     {players.map(player => {
                         if (!player || !player.profile) return null;
-                        const playerTeam = (teamA?.members || []).some(m => m._id === player._id) ? teamA : teamB;
+                        const playerTeam = squadA.some(m => m._id === player._id) ? teamA : teamB;
                         return (
                             <label key={player._id} className={`flex items-center gap-4 p-3 rounded-lg cursor-pointer transition-colors ${selectedPlayerId === player._id ? 'bg-green-600' : 'bg-gray-700 hover:bg-gray-600'}`}>
                                 <input
@@ -709,13 +1335,16 @@ const PlayerOfTheMatchModal: React.FC<{ match: Match; tournamentTeams: Team[]; o
                                     </div>
                                 )}
                                 <div>
-                                    <p className="font-bold">{player.profile.name}</p>
+                                    <p className="font-bold">{player.profile.name}{suspendedPlayers.has(player._id) && <span className="ml-2 text-xs font-semibold text-red-300">Suspended</span>}</p>
                                     <p className="text-sm text-gray-300">{playerTeam?.name}</p>
                                 </div>
                             </label>
                         );
                     })}
                 </div>
+                {suspendedPlayers.has(selectedPlayerId) && (
+                    <p className="text-sm text-red-300 mt-3">{describeSuspension(suspendedPlayers.get(selectedPlayerId)!)} and should not have played in this match.</p>
+                )}
                 <div className="flex justify-end gap-4 mt-6">
                     <button onClick={onClose} className="bg-gray-600 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded-lg">Cancel</button>
                     <button onClick={handleSave} className="bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-lg" disabled={!selectedPlayerId}>Save</button>
@@ -724,6 +1353,410 @@ const PlayerOfTheMatchModal: React.FC<{ match: Match; tournamentTeams: Team[]; o
         </div>
     );
 };
+const TournamentFormatModal: React.FC<{ format: TournamentFormat; teamCount: number; onClose: () => void; onSave: (format: TournamentFormat) => Promise<void>; onSchedule: (format: TournamentFormat) => Promise<void> }> = ({ format, teamCount, onClose, onSave, onSchedule }) => {
+    const [draft, setDraft] = useState<TournamentFormat>(format);
+    const [isSaving, setIsSaving] = useState(false);
+    const usesGroups = hasGroupStage(draft);
+    const hasKnockoutStage = draft.type !== TournamentFormatType.DOUBLE_ROUND_ROBIN;
+    const teamsPerGroup = usesGroups && draft.groupCount > 0 ? Math.floor(teamCount / draft.groupCount) : teamCount;
+    const validationError =
+        usesGroups && (draft.groupCount < 2 || draft.groupCount > teamCount) ? 'Choose between 2 groups and one group per team.' :
+        usesGroups && (draft.qualifiersPerGroup < 1 || draft.qualifiersPerGroup > teamsPerGroup) ? `Between 1 and ${teamsPerGroup} teams can qualify from each group.` :
+        usesGroups && (draft.bestThirdPlacedQualifiers < 0 || draft.bestThirdPlacedQualifiers > draft.groupCount) ? `At most ${draft.groupCount} of the next-best teams can qualify.` :
+        '';
+    const handleSubmit = async (action: (format: TournamentFormat) => Promise<void>) => {
+        if (validationError) return;
+        setIsSaving(true);
+        try {
+            await action({ ...draft, groupCount: usesGroups ? draft.groupCount : 1, bestThirdPlacedQualifiers: usesGroups ? draft.bestThirdPlacedQualifiers : 0 });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+    const setNumber = (key: 'groupCount' | 'qualifiersPerGroup' | 'bestThirdPlacedQualifiers') => (e: React.ChangeEvent<HTMLInputElement>) =>
+        setDraft(d => ({ ...d, [key]: parseInt(e.target.value, 10) || 0 }));
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50">
+            <div className="bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-md">
+                <h3 className="text-xl font-bold mb-4">Tournament Format</h3>
+                <div className="space-y-4">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-300">Format</label>
+                        <select value={draft.type} onChange={e => setDraft(d => ({ ...d, type: e.target.value as TournamentFormatType }))} className="w-full bg-gray-700 text-white p-2 rounded mt-1">
+                            {Object.values(TournamentFormatType).map(type => <option key={type} value={type}>{FORMAT_LABELS[type]}</option>)}
+                        </select>
+                    </div>
+                    {usesGroups && (
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <label className="block text-sm font-medium text-gray-300">Groups</label>
+                                <input type="number" min={2} value={draft.groupCount} onChange={setNumber('groupCount')} className="w-full bg-gray-700 text-white p-2 rounded mt-1" />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-300">Qualify per Group</label>
+                                <input type="number" min={1} value={draft.qualifiersPerGroup} onChange={setNumber('qualifiersPerGroup')} className="w-full bg-gray-700 text-white p-2 rounded mt-1" />
+                            </div>
+                            <div className="col-span-2">
+                                <label className="block text-sm font-medium text-gray-300">Best next-placed teams that also qualify</label>
+                                <input type="number" min={0} value={draft.bestThirdPlacedQualifiers} onChange={setNumber('bestThirdPlacedQualifiers')} className="w-full bg-gray-700 text-white p-2 rounded mt-1" />
+                            </div>
+                        </div>
+                    )}
+                    {hasKnockoutStage && (
+                        <div className="space-y-2">
+                            <p className="text-sm font-medium text-gray-300">Drawn knockout matches</p>
+                            <label className="flex items-center gap-2 text-sm">
+                                <input type="checkbox" checked={draft.extraTime} onChange={e => setDraft(d => ({ ...d, extraTime: e.target.checked }))} className="h-4 w-4 rounded bg-gray-700 border-gray-600 text-green-500 focus:ring-green-500" />
+                                Play extra time
+                            </label>
+                            <label className="flex items-center gap-2 text-sm">
+                                <input type="checkbox" checked={draft.penalties} onChange={e => setDraft(d => ({ ...d, penalties: e.target.checked }))} className="h-4 w-4 rounded bg-gray-700 border-gray-600 text-green-500 focus:ring-green-500" />
+                                Decide by penalty shootout
+                            </label>
+                        </div>
+                    )}
+                    {validationError && <p className="text-red-400 text-sm">{validationError}</p>}
+                </div>
+                <div className="flex justify-end gap-4 mt-6">
+                    <button onClick={onClose} className="bg-gray-600 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded-lg" disabled={isSaving}>Cancel</button>
+                    <button onClick={() => handleSubmit(onSave)} className="bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-lg disabled:bg-gray-500" disabled={isSaving || !!validationError}>Save Format</button>
+                    <button onClick={() => handleSubmit(onSchedule)} className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-lg disabled:bg-gray-500" disabled={isSaving || !!validationError}>Save & Auto-Schedule</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+const GroupsModal: React.FC<{ groupNames: string[]; groups: TournamentGroup[]; teams: Team[]; onClose: () => void; onSave: (groups: TournamentGroup[]) => Promise<void> }> = ({ groupNames, groups, teams, onClose, onSave }) => {
+    // Team ID -> group name; teams in a group that no longer exists start unassigned.
+    const [assignments, setAssignments] = useState<Record<string, string>>(() => {
+        const initial: Record<string, string> = {};
+        groups.filter(g => groupNames.includes(g.name)).forEach(g => g.teamIds.forEach(id => { initial[id] = g.name; }));
+        return initial;
+    });
+    const [isSaving, setIsSaving] = useState(false);
+    const unassignedCount = teams.filter(t => !assignments[t._id]).length;
+    const drawGroups = () => {
+        const shuffled = [...teams];
+        for (let i = shuffled.length - 1; i > 0; i--) {
+            const j = Math.floor(Math.random() * (i + 1));
+            [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+        }
+        const drawn: Record<string, string> = {};
+        shuffled.forEach((team, i) => { drawn[team._id] = groupNames[i % groupNames.length]; });
+        setAssignments(drawn);
+    };
+    const handleSave = async () => {
+        setIsSaving(true);
+        try {
+            await onSave(groupNames.map(name => ({ name, teamIds: teams.filter(t => assignments[t._id] === name).map(t => t._id) })));
+        } finally {
+            setIsSaving(false);
+        }
+    };
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50">
+            <div className="bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto">
+                <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-xl font-bold">Groups</h3>
+                    <button onClick={drawGroups} className="text-sm bg-purple-600 hover:bg-purple-700 text-white font-bold py-1 px-3 rounded">Random Draw</button>
+                </div>
+                <div className="space-y-2">
+                    {teams.map(team => (
+                        <div key={team._id} className="flex items-center justify-between gap-4 bg-gray-700 px-3 py-2 rounded">
+                            <span className="truncate font-semibold">{team.name}</span>
+                            <select value={assignments[team._id] || ''} onChange={e => setAssignments(a => ({ ...a, [team._id]: e.target.value }))} className="bg-gray-800 text-white p-1 rounded text-sm">
+                                <option value="">Unassigned</option>
+                                {groupNames.map(name => <option key={name} value={name}>{name}</option>)}
+                            </select>
+                        </div>
+                    ))}
+                    {teams.length === 0 && <p className="text-center text-gray-400 py-4">No teams have joined yet.</p>}
+                </div>
+                {unassignedCount > 0 && teams.length > 0 && <p className="text-yellow-300 text-sm mt-3">{unassignedCount} team(s) are not in a group yet.</p>}
+                <div className="flex justify-end gap-4 mt-6">
+                    <button onClick={onClose} className="bg-gray-600 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded-lg" disabled={isSaving}>Cancel</button>
+                    <button onClick={handleSave} className="bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-lg disabled:bg-gray-500" disabled={isSaving}>{isSaving ? 'Saving...' : 'Save Groups'}</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+const PointsRulesModal: React.FC<{ rules: PointsRules; teams: Team[]; onClose: () => void; onSave: (rules: PointsRules) => Promise<void> }> = ({ rules, teams, onClose, onSave }) => {
+    const [draft, setDraft] = useState<PointsRules>(rules);
+    const [isSaving, setIsSaving] = useState(false);
+    const [newAdjustment, setNewAdjustment] = useState<{ kind: 'bonusPoints' | 'deductions', teamId: string, points: number, reason: string }>({ kind: 'deductions', teamId: '', points: 1, reason: '' });
+    const teamName = (teamId: string) => teams.find(t => t._id === teamId)?.name || 'Unknown team';
+    const unusedTieBreakers = Object.values(TieBreaker).filter(tb => !draft.tieBreakers.includes(tb));
+    const setPoints = (key: 'win' | 'draw' | 'loss') => (e: React.ChangeEvent<HTMLInputElement>) =>
+        setDraft(d => ({ ...d, [key]: parseInt(e.target.value, 10) || 0 }));
+    const moveTieBreaker = (index: number, offset: number) => setDraft(d => {
+        const tieBreakers = [...d.tieBreakers];
+        const [moved] = tieBreakers.splice(index, 1);
+        tieBreakers.splice(index + offset, 0, moved);
+        return { ...d, tieBreakers };
+    });
+    const addAdjustment = () => {
+        if (!newAdjustment.teamId || newAdjustment.points <= 0) return;
+        const { kind, ...adjustment } = newAdjustment;
+        setDraft(d => ({ ...d, [kind]: [...d[kind], adjustment] }));
+        setNewAdjustment(a => ({ ...a, teamId: '', reason: '' }));
+    };
+    const removeAdjustment = (kind: 'bonusPoints' | 'deductions', index: number) =>
+        setDraft(d => ({ ...d, [kind]: d[kind].filter((_, i) => i !== index) }));
+    const drawLots = () => {
+        const order = teams.map(t => t._id);
+        for (let i = order.length - 1; i > 0; i--) {
+            const j = Math.floor(Math.random() * (i + 1));
+            [order[i], order[j]] = [order[j], order[i]];
+        }
+        setDraft(d => ({ ...d, lotsOrder: order }));
+    };
+    const handleSave = async () => {
+        setIsSaving(true);
+        try {
+            await onSave(draft);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+    const renderAdjustments = (kind: 'bonusPoints' | 'deductions', sign: string, list: PointsAdjustment[]) => list.map((a, i) => (
+        <li key={`${kind}-${i}`} className="flex items-center justify-between gap-2 text-sm bg-gray-700 px-3 py-1 rounded">
+            <span className="truncate">
+                <span className={sign === '+' ? 'text-green-400' : 'text-red-400'}>{sign}{a.points}</span> {teamName(a.teamId)}
+                {a.reason && <span className="text-gray-400"> &bull; {a.reason}</span>}
+            </span>
+            <button onClick={() => removeAdjustment(kind, i)} className="text-gray-400 hover:text-red-400">&times;</button>
+        </li>
+    ));
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50">
+            <div className="bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto">
+                <h3 className="text-xl font-bold mb-4">Points Table Rules</h3>
+                <div className="space-y-5">
+                    <div className="grid grid-cols-3 gap-4">
+                        {(['win', 'draw', 'loss'] as const).map(key => (
+                            <div key={key}>
+                                <label className="block text-sm font-medium text-gray-300 capitalize">Points per {key}</label>
+                                <input type="number" value={draft[key]} onChange={setPoints(key)} className="w-full bg-gray-700 text-white p-2 rounded mt-1" />
+                            </div>
+                        ))}
+                    </div>
+                    <div>
+                        <p className="text-sm font-medium text-gray-300 mb-2">Tie-breakers (applied in order)</p>
+                        <ol className="space-y-1">
+                            {draft.tieBreakers.map((tb, i) => (
+                                <li key={tb} className="flex items-center justify-between text-sm bg-gray-700 px-3 py-1 rounded">
+                                    <span>{i + 1}. {TIE_BREAKER_LABELS[tb]}</span>
+                                    <span className="flex gap-2">
+                                        <button onClick={() => moveTieBreaker(i, -1)} disabled={i === 0} className="text-gray-400 hover:text-white disabled:opacity-30">&uarr;</button>
+                                        <button onClick={() => moveTieBreaker(i, 1)} disabled={i === draft.tieBreakers.length - 1} className="text-gray-400 hover:text-white disabled:opacity-30">&darr;</button>
+                                        <button onClick={() => setDraft(d => ({ ...d, tieBreakers: d.tieBreakers.filter(t => t !== tb) }))} className="text-gray-400 hover:text-red-400">&times;</button>
+                                    </span>
+                                </li>
+                            ))}
+                        </ol>
+                        {unusedTieBreakers.length > 0 && (
+                            <div className="flex flex-wrap gap-2 mt-2">
+                                {unusedTieBreakers.map(tb => (
+                                    <button key={tb} onClick={() => setDraft(d => ({ ...d, tieBreakers: [...d.tieBreakers, tb] }))} className="text-xs bg-gray-600 hover:bg-gray-500 px-2 py-1 rounded">+ {TIE_BREAKER_LABELS[tb]}</button>
+                                ))}
+                            </div>
+                        )}
+                        {draft.tieBreakers.includes(TieBreaker.DRAWING_OF_LOTS) && (
+                            <div className="mt-2 text-xs text-gray-400 flex items-center justify-between gap-2">
+                                <span className="truncate">{draft.lotsOrder?.length ? `Lots drawn: ${draft.lotsOrder.map(teamName).join(', ')}` : 'Lots have not been drawn yet.'}</span>
+                                <button onClick={drawLots} className="flex-shrink-0 bg-gray-600 hover:bg-gray-500 text-white px-2 py-1 rounded">Draw Lots</button>
+                            </div>
+                        )}
+                    </div>
+                    <div>
+                        <p className="text-sm font-medium text-gray-300 mb-2">Bonus points &amp; deductions</p>
+                        <ul className="space-y-1 mb-2">
+                            {renderAdjustments('bonusPoints', '+', draft.bonusPoints)}
+                            {renderAdjustments('deductions', '-', draft.deductions)}
+                        </ul>
+                        <div className="grid grid-cols-2 gap-2">
+                            <select value={newAdjustment.kind} onChange={e => setNewAdjustment(a => ({ ...a, kind: e.target.value as 'bonusPoints' | 'deductions' }))} className="bg-gray-700 text-white p-2 rounded text-sm">
+                                <option value="deductions">Deduct</option>
+                                <option value="bonusPoints">Bonus</option>
+                            </select>
+                            <input type="number" min={1} value={newAdjustment.points} onChange={e => setNewAdjustment(a => ({ ...a, points: parseInt(e.target.value, 10) || 0 }))} className="bg-gray-700 text-white p-2 rounded text-sm" />
+                            <select value={newAdjustment.teamId} onChange={e => setNewAdjustment(a => ({ ...a, teamId: e.target.value }))} className="bg-gray-700 text-white p-2 rounded text-sm">
+                                <option value="">Select team</option>
+                                {teams.map(team => <option key={team._id} value={team._id}>{team.name}</option>)}
+                            </select>
+                            <input type="text" placeholder="Reason" value={newAdjustment.reason} onChange={e => setNewAdjustment(a => ({ ...a, reason: e.target.value }))} className="bg-gray-700 text-white p-2 rounded text-sm" />
+                        </div>
+                        <button onClick={addAdjustment} disabled={!newAdjustment.teamId || newAdjustment.points <= 0} className="mt-2 text-sm bg-purple-600 hover:bg-purple-700 text-white font-bold py-1 px-3 rounded disabled:bg-gray-500">Add</button>
+                    </div>
+                </div>
+                <div className="flex justify-end gap-4 mt-6">
+                    <button onClick={onClose} className="bg-gray-600 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded-lg" disabled={isSaving}>Cancel</button>
+                    <button onClick={handleSave} className="bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-lg disabled:bg-gray-500" disabled={isSaving}>{isSaving ? 'Saving...' : 'Save Rules'}</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+const RegistrationModal: React.FC<{ tournament: Tournament; onClose: () => void; onSave: (registrationDeadline: string | null, transferWindow: TransferWindow | null) => Promise<void> }> = ({ tournament, onClose, onSave }) => {
+    const [deadline, setDeadline] = useState(tournament.registrationDeadline || '');
+    const [opensOn, setOpensOn] = useState(tournament.transferWindow?.opensOn || '');
+    const [closesOn, setClosesOn] = useState(tournament.transferWindow?.closesOn || '');
+    const [isSaving, setIsSaving] = useState(false);
+    // A window needs both dates, in order, and only makes sense once registration has closed.
+    const hasWindow = !!(opensOn || closesOn);
+    const windowError = !hasWindow ? ''
+        : !opensOn || !closesOn ? 'Set both the opening and closing date of the transfer window.'
+        : opensOn > closesOn ? 'The transfer window must open before it closes.'
+        : !deadline || opensOn <= deadline ? 'The transfer window must open after the registration deadline.'
+        : '';
+    const handleSave = async () => {
+        if (windowError) return;
+        setIsSaving(true);
+        try {
+            await onSave(deadline || null, hasWindow ? { opensOn, closesOn } : null);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50">
+            <div className="bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-md">
+                <h3 className="text-xl font-bold mb-2">Squad Registration</h3>
+                <p className="text-sm text-gray-400 mb-4">Each team's squad is registered when it joins. Squads can be changed until the deadline, and afterwards only during the transfer window.</p>
+                <div className="space-y-4">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-300">Registration Deadline</label>
+                        <input type="date" value={deadline} onChange={e => setDeadline(e.target.value)} className="w-full bg-gray-700 text-white p-2 rounded mt-1" />
+                        <p className="text-xs text-gray-400 mt-1">Leave empty to keep registration open.</p>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-300">Transfer Window Opens</label>
+                            <input type="date" value={opensOn} onChange={e => setOpensOn(e.target.value)} className="w-full bg-gray-700 text-white p-2 rounded mt-1" />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-300">Transfer Window Closes</label>
+                            <input type="date" value={closesOn} onChange={e => setClosesOn(e.target.value)} className="w-full bg-gray-700 text-white p-2 rounded mt-1" />
+                        </div>
+                    </div>
+                    {windowError && <p className="text-sm text-red-400">{windowError}</p>}
+                </div>
+                <div className="flex justify-end gap-4 mt-6">
+                    <button onClick={onClose} className="bg-gray-600 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded-lg" disabled={isSaving}>Cancel</button>
+                    <button onClick={handleSave} className="bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-lg disabled:bg-gray-500 disabled:cursor-not-allowed" disabled={isSaving || !!windowError}>
+                        {isSaving ? 'Saving...' : 'Save'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+const STAFF_ROLES: TournamentStaffRole[] = ['organizer', 'scorekeeper', 'referee'];
+const StaffModal: React.FC<{ tournament: Tournament; onClose: () => void; onAdd: (role: TournamentStaffRole, userId: string) => Promise<{ success: boolean; message: string }>; onRemove: (role: TournamentStaffRole, userId: string) => Promise<void> }> = ({ tournament, onClose, onAdd, onRemove }) => {
+    const [role, setRole] = useState<TournamentStaffRole>('scorekeeper');
+    const [userId, setUserId] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const [message, setMessage] = useState({ type: '', text: '' });
+    const handleAdd = async () => {
+        if (!userId.trim()) return;
+        setIsSaving(true);
+        try {
+            const result = await onAdd(role, userId.trim());
+            setMessage({ type: result.success ? 'success' : 'error', text: result.message });
+            if (result.success) setUserId('');
+        } catch (err: any) {
+            setMessage({ type: 'error', text: err.message });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50">
+            <div className="bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto">
+                <h3 className="text-xl font-bold mb-2">Tournament Staff</h3>
+                <p className="text-sm text-gray-400 mb-4">Organizers can manage everything in the tournament. Scorekeepers can only run live scoring for the matches they're assigned to; referees are assigned to matches but can't score them.</p>
+                <div className="space-y-4">
+                    {STAFF_ROLES.map(staffRole => (
+                        <div key={staffRole}>
+                            <h4 className="font-semibold mb-2">{STAFF_ROLE_LABELS[staffRole]}s</h4>
+                            <ul className="space-y-1">
+                                {getStaff(tournament, staffRole).map(user => (
+                                    <li key={user._id} className="flex items-center justify-between bg-gray-700 p-2 rounded text-sm">
+                                        <span>{user.profile.name}</span>
+                                        <button onClick={() => onRemove(staffRole, user._id)} className="text-red-400 hover:text-red-300 text-xs">Remove</button>
+                                    </li>
+                                ))}
+                            </ul>
+                            {staffRole === 'organizer' && <p className="text-xs text-gray-400 mt-1">The tournament's creator is always an organizer.</p>}
+                            {staffRole !== 'organizer' && getStaff(tournament, staffRole).length === 0 && <p className="text-sm text-gray-400">None yet.</p>}
+                        </div>
+                    ))}
+                    <div className="border-t border-gray-700 pt-4">
+                        <label className="block text-sm font-medium text-gray-300 mb-1">Add Staff</label>
+                        <div className="flex flex-col sm:flex-row gap-2">
+                            <select value={role} onChange={e => setRole(e.target.value as TournamentStaffRole)} className="bg-gray-700 text-white p-2 rounded text-sm">
+                                {STAFF_ROLES.map(staffRole => <option key={staffRole} value={staffRole}>{STAFF_ROLE_LABELS[staffRole]}</option>)}
+                            </select>
+                            <input type="text" value={userId} onChange={e => setUserId(e.target.value)} placeholder="Enter Player ID" className="flex-grow bg-gray-700 text-white p-2 rounded text-sm" />
+                            <button onClick={handleAdd} className="bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-lg text-sm disabled:bg-gray-500 disabled:cursor-not-allowed" disabled={isSaving || !userId.trim()}>Add</button>
+                        </div>
+                        {message.text && <p className={`text-sm mt-2 ${message.type === 'success' ? 'text-green-300' : 'text-red-400'}`}>{message.text}</p>}
+                    </div>
+                </div>
+                <div className="flex justify-end mt-6">
+                    <button onClick={onClose} className="bg-gray-600 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded-lg">Close</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+const MatchOfficialsModal: React.FC<{ match: Match; tournament: Tournament; onClose: () => void; onSave: (officials: MatchOfficials) => Promise<void> }> = ({ match, tournament, onClose, onSave }) => {
+    const [refereeId, setRefereeId] = useState(match.refereeId?._id || '');
+    const [scorekeeperId, setScorekeeperId] = useState(match.scorekeeperId?._id || '');
+    const [isSaving, setIsSaving] = useState(false);
+    const referees = getStaff(tournament, 'referee');
+    const scorekeepers = getStaff(tournament, 'scorekeeper');
+    const handleSave = async () => {
+        setIsSaving(true);
+        try {
+            await onSave({ refereeId: refereeId || null, scorekeeperId: scorekeeperId || null });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50">
+            <div className="bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-md">
+                <h3 className="text-xl font-bold mb-2">Match #{match.matchNumber} Officials</h3>
+                <p className="text-sm text-gray-400 mb-4">Officials are chosen from the tournament's staff. Only the scorekeeper can run live scoring for this match.</p>
+                <div className="space-y-4">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-300">Referee</label>
+                        <select value={refereeId} onChange={e => setRefereeId(e.target.value)} className="w-full bg-gray-700 text-white p-2 rounded mt-1">
+                            <option value="">No referee</option>
+                            {referees.map(user => <option key={user._id} value={user._id}>{user.profile.name}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-300">Scorekeeper</label>
+                        <select value={scorekeeperId} onChange={e => setScorekeeperId(e.target.value)} className="w-full bg-gray-700 text-white p-2 rounded mt-1">
+                            <option value="">No scorekeeper</option>
+                            {scorekeepers.map(user => <option key={user._id} value={user._id}>{user.profile.name}</option>)}
+                        </select>
+                    </div>
+                    {referees.length === 0 && scorekeepers.length === 0 && <p className="text-sm text-yellow-300">Add referees and scorekeepers from Staff first.</p>}
+                </div>
+                <div className="flex justify-end gap-4 mt-6">
+                    <button onClick={onClose} className="bg-gray-600 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded-lg" disabled={isSaving}>Cancel</button>
+                    <button onClick={handleSave} className="bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-lg disabled:bg-gray-500 disabled:cursor-not-allowed" disabled={isSaving}>
+                        {isSaving ? 'Saving...' : 'Save'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
 const EditTournamentModal: React.FC<{ tournament: Tournament; onClose: () => void; onSave: (tournamentId: string, details: { name: string, logoUrl: string | null }) => Promise<void> }> = ({ tournament, onClose, onSave }) => {
     const [name, setName] = useState(tournament.name);
     const [logo, setLogo] = useState<File | null>(null);
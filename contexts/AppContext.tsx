@@ -1,45 +1,63 @@
-import React, { createContext, useState, useEffect, useCallback, ReactNode } from 'react';
-import { User, PlayerProfile, Team, Tournament, CardType, Notification, AppContextType } from '../types';
-
-export const AppContext = createContext<AppContextType | undefined>(undefined);
-
-// Define the base URL for your backend API.
-const API_URL = "https://asl-backend-inda.onrender.com/api";
+import React, { createContext, useState, useEffect, useLayoutEffect, useCallback, useMemo, useRef, useSyncExternalStore, ReactNode } from 'react';
+import { User, PlayerProfile, Team, Tournament, Match, Goal, Card, CardType, MatchStatus, Notification, AppState, AppActions, MatchClock, EventTime, GoalChanges, CardChanges, QueuedMatchEvent, SyncConflict, RecordGoalPayload, RecordCardPayload, LiveConnectionStatus, TournamentFormat, TournamentDetails, LineupSelection, MatchEventType, RecordMatchEventPayload, EventOverturn, TournamentStaffRole, MatchOfficials, NewMatchData, PenaltyScores } from '../types';
+import { calculateMatchScore, describeGoal, describeCard, describeMatchEvent, resolveCardType } from '../utils/matchEvents';
+import { openLiveChannel, getFollowedTournamentIds, getReconnectDelay } from '../utils/liveUpdates';
+import { getMatchWinnerId, getAdvancementLinks } from '../utils/bracket';
+import { getTournamentFormat } from '../utils/tournamentFormat';
+import { getTournamentPlayers } from '../utils/squads';
+import { validateShootoutKick } from '../utils/shootout';
+import { STAFF_ROLE_LABELS } from '../utils/tournamentRoles';
+import { enqueueMatchEvent, getQueuedMatchEvents, removeQueuedMatchEvent, isNetworkError, applyQueuedEvents, applyQueuedEventsToMatch } from '../utils/offlineQueue';
+import { createApiClient, API_URL, USE_MOCK_API } from '../utils/apiClient';
+import { createEntityStore, createEntityStoreSource, upsertTeams, upsertTournaments, upsertMatch, revertMatch, selectUser, selectMatch, selectTournament, selectTournaments } from '../utils/entityStore';
+
+export const AppStateContext = createContext<AppState | undefined>(undefined);
+export const AppActionsContext = createContext<AppActions | undefined>(undefined);
+
+// Server-sent events stream of match updates. Can be pointed at the local mock server (npm run mock:live).
+const LIVE_UPDATES_URL = process.env.LIVE_UPDATES_URL || `${API_URL}/live`;
 
 
 const generateId = () => Math.random().toString(36).substring(2, 11);
 
+// Wraps each action in a function that never changes but always calls the action from the
+// latest render, so consumers of the actions alone are not re-rendered by state changes.
+const useStableActions = <T extends object>(latest: T): T => {
+  const latestRef = useRef(latest);
+  useLayoutEffect(() => {
+    latestRef.current = latest;
+  });
+  return useMemo(() => Object.fromEntries(Object.entries(latestRef.current).map(([key, value]) => [
+    key,
+    typeof value === 'function' ? (...args: unknown[]) => latestRef.current[key](...args) : value,
+  ])) as T, []);
+};
+
 export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   // --- State Management ---
   const [currentUser, setCurrentUser] = useState<User | null>(null);
   const [token, setToken] = useState<string | null>(() => localStorage.getItem('asl_token'));
-  const [teams, setTeams] = useState<Team[]>([]);
-  const [tournaments, setTournaments] = useState<Tournament[]>([]);
+  // Users, teams, tournaments and matches by ID. Kept outside React state so that components
+  // re-render only for the entities they read, and actions always see the latest store.
+  const [entityStore] = useState(createEntityStoreSource);
+  const setEntities = entityStore.update;
   // Notifications are now ephemeral and will reset on page load.
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-
-  // --- API Fetch Helper ---
-  // This centralized function handles adding the auth token and parsing responses.
-  const apiFetch = useCallback(async (endpoint: string, options: RequestInit = {}) => {
-    const headers = {
-      'Content-Type': 'application/json',
-      ...options.headers,
-    };
-
-    if (token) {
-      headers['Authorization'] = `Bearer ${token}`;
-    }
-
-    const response = await fetch(`${API_URL}${endpoint}`, { ...options, headers });
-    const data = await response.json();
-
-    if (!response.ok) {
-      // Use the message from the backend error response, or a default.
-      throw new Error(data.message || `API Error: ${response.statusText}`);
-    }
-    return data;
-  }, [token]);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [pendingEvents, setPendingEvents] = useState<QueuedMatchEvent[]>([]);
+  const [syncConflicts, setSyncConflicts] = useState<SyncConflict[]>([]);
+  // Mirrors pendingEvents for async callbacks that must see the latest queue.
+  const pendingEventsRef = useRef<QueuedMatchEvent[]>([]);
+  const isSyncingRef = useRef(false);
+  const syncRetryRef = useRef<{ timer: ReturnType<typeof setTimeout> | null; attempt: number }>({ timer: null, attempt: 0 });
+  const [liveConnectionStatus, setLiveConnectionStatus] = useState<LiveConnectionStatus>('closed');
+  // Tournaments open on screen, one entry per page showing them; they get live updates even if not followed.
+  const [watchedTournamentIds, setWatchedTournamentIds] = useState<string[]>([]);
+
+  // --- API Client ---
+  // Rebuilt when the token changes, so every request carries the current session.
+  const api = useMemo(() => createApiClient({ token }), [token]);
   
   // --- Notifications (Frontend Only) ---
   const createNotification = useCallback((userId: string, message: string, link: string) => {
@@ -56,16 +74,181 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       // Fetch teams and tournaments the user is part of.
       // NOTE: For a larger app, these would be dedicated endpoints like /api/my-teams
       // For now, we fetch all and filter on the frontend for simplicity.
-      const allTeams = await apiFetch('/teams');
-      const allTournaments = await apiFetch('/tournaments');
-      setTeams(allTeams);
-      setTournaments(allTournaments);
+      const allTeams = await api.teams.list();
+      const allTournaments = await api.tournaments.list();
+      setEntities(() => upsertTournaments(upsertTeams(createEntityStore(), allTeams), allTournaments));
     } catch (error) {
       console.error("Failed to fetch app data:", error);
       // It's possible the token is valid but something else failed. Handle gracefully.
     }
-  }, [apiFetch]);
+  }, [api]);
+
+
+  // --- Offline Event Queue ---
+  useEffect(() => {
+    pendingEventsRef.current = pendingEvents;
+  }, [pendingEvents]);
+
+  // Replays queued goals and cards in the order they were recorded. A network failure stops
+  // the replay so later events never overtake earlier ones; a server rejection is reported
+  // as a conflict and the event is dropped from the queue.
+  const syncPendingEvents = useCallback(async () => {
+    if (isSyncingRef.current || !navigator.onLine) return;
+    isSyncingRef.current = true;
+    let stalled = false;
+    try {
+      // Events queued while a replay is running are picked up by another pass.
+      for (let queuedEvents = await getQueuedMatchEvents(); queuedEvents.length > 0 && !stalled; queuedEvents = await getQueuedMatchEvents()) {
+        for (const event of queuedEvents) {
+          let updatedMatch: Match | null = null;
+          try {
+            updatedMatch = await api.sendQueuedEvent(event);
+          } catch (error: any) {
+            if (isNetworkError(error)) {
+              stalled = true;
+              break;
+            }
+            updatedMatch = await api.matches.getById(event.tournamentId, event.matchId).catch(() => null);
+            const message = updatedMatch?.status === MatchStatus.FINISHED
+              ? 'The match was ended on another device before this event could be synced.'
+              : error.message || 'The server rejected this event.';
+            setSyncConflicts(prev => [...prev, { event, message }]);
+          }
+          await removeQueuedMatchEvent(event.id!);
+          // Swapped in the same render, so the event doesn't show twice or vanish in between.
+          setPendingEvents(prev => prev.filter(e => e.id !== event.id));
+          if (updatedMatch) setEntities(prev => upsertMatch(prev, event.tournamentId, updatedMatch));
+        }
+      }
+    } catch (error) {
+      console.error("Failed to sync queued match events:", error);
+    } finally {
+      isSyncingRef.current = false;
+      // Requests can fail while the browser still counts as online, e.g. on flaky Wi-Fi or while
+      // the server restarts. No `online` event follows then, so the replay retries with backoff.
+      const retry = syncRetryRef.current;
+      clearTimeout(retry.timer);
+      retry.timer = null;
+      if (!stalled) {
+        retry.attempt = 0;
+      } else if (navigator.onLine) {
+        retry.timer = setTimeout(() => syncPendingEvents(), getReconnectDelay(retry.attempt++));
+      }
+    }
+  }, [api]);
+
+  useEffect(() => {
+    if (!token) return;
+    getQueuedMatchEvents()
+      .then(queuedEvents => {
+        setPendingEvents(queuedEvents);
+        if (queuedEvents.length > 0) syncPendingEvents();
+      })
+      .catch(error => console.error("Failed to load queued match events:", error));
+
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncPendingEvents();
+    };
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      clearTimeout(syncRetryRef.current.timer);
+      syncRetryRef.current = { timer: null, attempt: 0 };
+    };
+  }, [token, syncPendingEvents]);
+
+  const dismissSyncConflict = (eventId: number) => {
+    setSyncConflicts(prev => prev.filter(c => c.event.id !== eventId));
+  };
+
+  // --- Match Updates ---
+  // Match endpoints respond with the updated match, which replaces just that match in the store.
+  // `optimistic` predicts the change so the UI shows it while the request is in flight; if the
+  // request fails the prediction is rolled back and the error passed on.
+  const mutateMatch = async (tournamentId: string, matchId: string, request: () => Promise<Match>, optimistic?: (match: Match) => Match): Promise<Match> => {
+    const previous = selectMatch(entityStore.getSnapshot(), matchId);
+    const predicted = previous && optimistic ? optimistic(previous) : undefined;
+    if (predicted) setEntities(prev => upsertMatch(prev, tournamentId, predicted));
+    try {
+      const updatedMatch = await request();
+      setEntities(prev => upsertMatch(prev, tournamentId, updatedMatch));
+      // The stored copy has any players and teams the response gave only by ID filled in.
+      return selectMatch(entityStore.getSnapshot(), matchId) || updatedMatch;
+    } catch (error) {
+      if (predicted) setEntities(prev => revertMatch(prev, tournamentId, predicted, previous));
+      throw error;
+    }
+  };
+
+  // Stores the matches changed by a multi-step action such as linking knockout fixtures.
+  const storeMatches = (tournamentId: string, matches: Match[]) => {
+    setEntities(prev => matches.reduce((store, match) => upsertMatch(store, tournamentId, match), prev));
+  };
+
+  // Sends a goal or card straight away when possible, otherwise queues it. Events also queue
+  // while earlier ones for the same match are still waiting, to keep them in order.
+  // Resolves to the updated match, or null if the event was queued.
+  const sendOrQueueMatchEvent = async (event: Omit<QueuedMatchEvent, 'id' | 'queuedAt'>): Promise<Match | null> => {
+    const queuedEvent = { ...event, queuedAt: new Date().toISOString() } as QueuedMatchEvent;
+    const queue = async () => {
+      const queued = await enqueueMatchEvent(queuedEvent);
+      setPendingEvents(prev => [...prev, queued]);
+      // Queued while online, after a failed send or behind earlier events: replay now rather than waiting for an `online` event.
+      if (navigator.onLine) syncPendingEvents();
+      return null;
+    };
+    const hasQueuedEventsForMatch = pendingEventsRef.current.some(e => e.matchId === event.matchId);
+    if (!navigator.onLine || hasQueuedEventsForMatch) {
+      return queue();
+    }
+    // Shown the same way as a queued event until the server's copy of the match arrives.
+    const tournament = selectTournament(entityStore.getSnapshot(), event.tournamentId);
+    const players = tournament ? getTournamentPlayers(tournament) : [];
+    try {
+      return await mutateMatch(event.tournamentId, event.matchId, () => api.sendQueuedEvent(queuedEvent), match => applyQueuedEventsToMatch(match, [queuedEvent], players));
+    } catch (error) {
+      if (isNetworkError(error)) {
+        return queue();
+      }
+      throw error;
+    }
+  };
+
+  // --- Live Updates ---
+  // Keyed on the joined ids so the stream is only reopened when the followed set actually changes.
+  const followedTournamentKey = useSyncExternalStore(
+    entityStore.subscribe,
+    () => currentUser ? getFollowedTournamentIds(currentUser, selectTournaments(entityStore.getSnapshot()), watchedTournamentIds).join(',') : ''
+  );
+
+  // Adds a tournament to the live subscription until the returned function is called.
+  const watchTournament = useCallback((tournamentId: string) => {
+    setWatchedTournamentIds(prev => [...prev, tournamentId]);
+    return () => setWatchedTournamentIds(prev => {
+      const index = prev.indexOf(tournamentId);
+      return index === -1 ? prev : [...prev.slice(0, index), ...prev.slice(index + 1)];
+    });
+  }, []);
 
+  useEffect(() => {
+    // The mock API has no live stream unless LIVE_UPDATES_URL points at one.
+    if (!token || !followedTournamentKey || (USE_MOCK_API && !process.env.LIVE_UPDATES_URL)) return;
+    return openLiveChannel({
+      // EventSource cannot send headers, so every connection asks for a short-lived ticket to put in
+      // its URL; the bearer token never appears there, or in server logs and browser history.
+      getUrl: async () => {
+        const { ticket } = await api.live.createTicket();
+        const params = new URLSearchParams({ tournamentIds: followedTournamentKey, ticket });
+        return `${LIVE_UPDATES_URL}?${params.toString()}`;
+      },
+      onUpdate: update => setEntities(prev => upsertMatch(prev, update.tournamentId, update.match)),
+      onStatusChange: setLiveConnectionStatus,
+    });
+  }, [token, api, followedTournamentKey]);
 
   // --- App Initialization (Bootstrap) ---
   useEffect(() => {
@@ -73,7 +256,7 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       if (token) {
         try {
           // Verify token by fetching the user's profile
-          const userProfile = await apiFetch('/users/profile');
+          const userProfile = await api.users.getProfile();
           setCurrentUser(userProfile);
           await fetchAppData();
         } catch (error) {
@@ -85,83 +268,58 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       setIsLoading(false);
     };
     bootstrap();
-  }, [token, apiFetch, fetchAppData]);
+  }, [token, api, fetchAppData]);
 
   // --- Auth Functions ---
   const handleLogout = () => {
     setCurrentUser(null);
     setToken(null);
-    setTeams([]);
-    setTournaments([]);
+    setEntities(() => createEntityStore());
     localStorage.removeItem('asl_token');
   };
 
   const login = async (email: string, dob: string) => {
-    const { token: userToken, user } = await apiFetch('/auth/login', {
-      method: 'POST',
-      body: JSON.stringify({ email, dob }),
-    });
+    const { token: userToken, user } = await api.auth.login(email, dob);
     localStorage.setItem('asl_token', userToken);
     setToken(userToken);
     setCurrentUser(user); // The user object is returned from the login endpoint
   };
 
   const register = async (name: string, email: string, dob: string) => {
-    const { token: userToken, user } = await apiFetch('/auth/register', {
-      method: 'POST',
-      body: JSON.stringify({ name, email, dob }),
-    });
+    const { token: userToken, user } = await api.auth.register(name, email, dob);
     localStorage.setItem('asl_token', userToken);
     setToken(userToken);
     setCurrentUser(user);
   };
   
   // --- Profile and User Functions ---
-  const isProfileComplete = (): boolean => {
+  const isProfileComplete = useCallback((): boolean => {
     if (!currentUser) return false;
     return !!(currentUser.profile.age && currentUser.profile.position && currentUser.profile.imageUrl);
-  };
+  }, [currentUser]);
 
   const updateProfile = async (profile: Partial<PlayerProfile>) => {
-    const updatedUser = await apiFetch('/users/profile', {
-      method: 'PUT',
-      body: JSON.stringify(profile),
-    });
+    const updatedUser = await api.users.updateProfile(profile);
     setCurrentUser(prev => prev ? { ...prev, profile: updatedUser.profile } : null);
   };
   
-  const getUserById = async (id: string): Promise<User | undefined> => apiFetch(`/users/${id}`);
+  const getUserById = async (id: string): Promise<User | undefined> => api.users.getById(id);
 
   // --- Team Functions ---
   const createTeam = async (name: string, logo: string | null): Promise<Team> => {
-    const newTeam = await apiFetch('/teams', {
-      method: 'POST',
-      body: JSON.stringify({ name, logoUrl: logo }),
-    });
-    setTeams(prev => [...prev, newTeam]);
+    const newTeam = await api.teams.create(name, logo);
+    setEntities(prev => upsertTeams(prev, [newTeam]));
     return newTeam;
   };
   
   const updateTeam = async (teamId: string, details: { name?: string, logoUrl?: string | null }) => {
-    const updatedTeam = await apiFetch(`/teams/${teamId}`, {
-        method: 'PUT',
-        body: JSON.stringify(details),
-    });
-    setTeams(prev => prev.map(t => t._id === teamId ? updatedTeam : t));
+    const updatedTeam = await api.teams.update(teamId, details);
+    setEntities(prev => upsertTeams(prev, [updatedTeam]));
   };
 
   const joinTeam = async (code: string): Promise<Team> => {
-    const joinedTeam = await apiFetch('/teams/join', {
-        method: 'POST',
-        body: JSON.stringify({ code }),
-    });
-    // Add to teams list if not already present
-    setTeams(prev => {
-        if (prev.some(t => t._id === joinedTeam._id)) {
-            return prev.map(t => t._id === joinedTeam._id ? joinedTeam : t);
-        }
-        return [...prev, joinedTeam];
-    });
+    const joinedTeam = await api.teams.join(code);
+    setEntities(prev => upsertTeams(prev, [joinedTeam]));
      if (currentUser) {
         createNotification(
             currentUser._id,
@@ -172,44 +330,41 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     return joinedTeam;
   };
   
-  const getTeamById = async (id: string): Promise<Team | undefined> => apiFetch(`/teams/${id}`);
+  const getTeamById = async (id: string): Promise<Team | undefined> => api.teams.getById(id);
   
   // --- Tournament Functions ---
   const createTournament = async (name: string, logo: string | null): Promise<Tournament> => {
-    const newTournament = await apiFetch('/tournaments', {
-        method: 'POST',
-        body: JSON.stringify({ name, logoUrl: logo }),
-    });
-    setTournaments(prev => [...prev, newTournament]);
+    const newTournament = await api.tournaments.create(name, logo);
+    setEntities(prev => upsertTournaments(prev, [newTournament]));
     return newTournament;
   };
 
-  const updateTournament = async (tournamentId: string, details: { name?: string, logoUrl?: string | null }) => {
-    const updatedTournament = await apiFetch(`/tournaments/${tournamentId}`, {
-        method: 'PUT',
-        body: JSON.stringify(details),
-    });
-    setTournaments(prev => prev.map(t => t._id === tournamentId ? updatedTournament : t));
+  const updateTournament = async (tournamentId: string, details: TournamentDetails) => {
+    const updatedTournament = await api.tournaments.update(tournamentId, details);
+    setEntities(prev => upsertTournaments(prev, [updatedTournament]));
   };
   
-  const getTournamentById = async (id: string): Promise<Tournament | undefined> => apiFetch(`/tournaments/${id}`);
+  const getTournamentById = async (id: string): Promise<Tournament | undefined> => api.tournaments.getById(id);
+
+  // Fetches a tournament into the entity store, where live updates can patch it, e.g. one a spectator opened.
+  const loadTournament = useCallback(async (id: string): Promise<Tournament> => {
+    const tournament = await api.tournaments.getById(id);
+    setEntities(prev => upsertTournaments(prev, [tournament]));
+    return tournament;
+  }, [api]);
+
+  // Read-only view of a tournament its admin has made public. Needs no login.
+  const getPublicTournament = async (id: string): Promise<Tournament | undefined> => api.tournaments.getPublic(id);
   
+  // Joining snapshots the team's current members as its squad for the tournament (server-side).
   const joinTournament = async (inviteCode: string, teamId: string) => {
-      const result = await apiFetch('/tournaments/join', {
-          method: 'POST',
-          body: JSON.stringify({ inviteCode, teamId }),
-      });
+      const result = await api.tournaments.join(inviteCode, teamId);
       if(result.success && result.tournamentId) {
           const joinedTournament = await getTournamentById(result.tournamentId);
           const teamForNotif = await getTeamById(teamId);
 
           if (joinedTournament) {
-              setTournaments(prev => {
-                  if (prev.some(t => t._id === joinedTournament._id)) {
-                      return prev.map(t => t._id === joinedTournament._id ? joinedTournament : t);
-                  }
-                  return [...prev, joinedTournament];
-              });
+              setEntities(prev => upsertTournaments(prev, [joinedTournament]));
 
               if (teamForNotif) {
                    teamForNotif.members.forEach(member => {
@@ -229,14 +384,81 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       return result;
   };
 
+  // Staff are added by user ID, like team members. The server refuses changes from anyone but an organizer.
+  const addTournamentStaff = async (tournamentId: string, role: TournamentStaffRole, userId: string) => {
+      const result = await api.tournaments.addStaff(tournamentId, role, userId);
+      if (result.success) {
+          const updatedTournament = await getTournamentById(tournamentId);
+          if (updatedTournament) {
+              setEntities(prev => upsertTournaments(prev, [updatedTournament]));
+              createNotification(
+                  userId,
+                  `You have been made a ${STAFF_ROLE_LABELS[role]} of the tournament: ${updatedTournament.name}.`,
+                  `/tournament/${tournamentId}`
+              );
+          }
+      }
+      return result;
+  };
+
+  const removeTournamentStaff = async (tournamentId: string, role: TournamentStaffRole, userId: string) => {
+      await api.tournaments.removeStaff(tournamentId, role, userId);
+      const updatedTournament = await getTournamentById(tournamentId);
+      if (updatedTournament) {
+          setEntities(prev => upsertTournaments(prev, [updatedTournament]));
+          createNotification(
+              userId,
+              `You are no longer a ${STAFF_ROLE_LABELS[role]} of the tournament: ${updatedTournament.name}.`,
+              `/tournament/${tournamentId}`
+          );
+      }
+  };
+
+  const assignMatchOfficials = async (tournamentId: string, matchId: string, officials: MatchOfficials) => {
+      const entities = entityStore.getSnapshot();
+      const oldMatch = selectMatch(entities, matchId);
+      const match = await mutateMatch(tournamentId, matchId, () => api.matches.assignOfficials(tournamentId, matchId, officials), current => ({
+          ...current,
+          refereeId: selectUser(entities, officials.refereeId) || null,
+          scorekeeperId: selectUser(entities, officials.scorekeeperId) || null,
+      }));
+      const fixture = match.teamAId && match.teamBId ? `${match.teamAId.name} vs ${match.teamBId.name}` : `Match #${match.matchNumber}`;
+      // Only newly assigned officials are told, not everyone who was already on the match.
+      if (officials.refereeId && officials.refereeId !== oldMatch?.refereeId?._id) {
+          createNotification(officials.refereeId, `You have been assigned to referee ${fixture}.`, `/tournament/${tournamentId}`);
+      }
+      if (officials.scorekeeperId && officials.scorekeeperId !== oldMatch?.scorekeeperId?._id) {
+          createNotification(officials.scorekeeperId, `You have been assigned to keep score for ${fixture}.`, `/tournament/${tournamentId}`);
+      }
+  };
+
+  // Squad changes are refused by the server after the registration deadline unless the transfer window is open.
+  const registerSquadPlayer = async (tournamentId: string, teamId: string, playerId: string) => {
+      await api.tournaments.registerSquadPlayer(tournamentId, teamId, playerId);
+      const updatedTournament = await getTournamentById(tournamentId);
+      if (updatedTournament) {
+          setEntities(prev => upsertTournaments(prev, [updatedTournament]));
+          createNotification(
+              playerId,
+              `You have been registered in your team's squad for the tournament: ${updatedTournament.name}.`,
+              `/tournament/${tournamentId}`
+          );
+      }
+  };
+
+  const deregisterSquadPlayer = async (tournamentId: string, teamId: string, playerId: string) => {
+      await api.tournaments.deregisterSquadPlayer(tournamentId, teamId, playerId);
+      const updatedTournament = await getTournamentById(tournamentId);
+      if (updatedTournament) {
+          setEntities(prev => upsertTournaments(prev, [updatedTournament]));
+      }
+  };
+
   // --- Admin & Management Functions ---
   const addMemberToTeam = async (teamId: string, memberId: string) => {
-      const result = await apiFetch(`/teams/${teamId}/members`, {
-          method: 'POST',
-          body: JSON.stringify({ memberId })
-      });
+      const result = await api.teams.addMember(teamId, memberId);
       if (result.success && result.team) {
-          setTeams(prev => prev.map(t => t._id === teamId ? result.team : t));
+          setEntities(prev => upsertTeams(prev, [result.team]));
           createNotification(
               memberId,
               `You have been added to the team: ${result.team.name}.`,
@@ -247,18 +469,18 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   };
   
   const removeMemberFromTeam = async (teamId: string, memberId: string) => {
-      const result = await apiFetch(`/teams/${teamId}/members/${memberId}`, { method: 'DELETE' });
+      const result = await api.teams.removeMember(teamId, memberId);
       if (result.success && result.team) {
-          setTeams(prev => prev.map(t => t._id === teamId ? result.team : t));
+          setEntities(prev => upsertTeams(prev, [result.team]));
       }
       return result;
   };
   
   const toggleTeamAdmin = async (teamId: string, memberId: string) => {
-      const result = await apiFetch(`/teams/${teamId}/admins/${memberId}`, { method: 'PUT' });
+      const result = await api.teams.toggleAdmin(teamId, memberId);
       if (result.success && result.team) {
-          setTeams(prev => prev.map(t => t._id === teamId ? result.team : t));
-          const isNowAdmin = result.team.adminIds.some((admin: User) => admin._id === memberId);
+          setEntities(prev => upsertTeams(prev, [result.team]));
+          const isNowAdmin = result.team.adminIds.some(admin => admin._id === memberId);
           if (isNowAdmin) {
                createNotification(
                   memberId,
@@ -277,12 +499,9 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   };
   
   const setTeamRole = async (teamId: string, memberId: string, role: 'captain' | 'viceCaptain') => {
-      const result = await apiFetch(`/teams/${teamId}/roles`, {
-          method: 'PUT',
-          body: JSON.stringify({ memberId, role }),
-      });
+      const result = await api.teams.setRole(teamId, memberId, role);
       if (result.success && result.team) {
-          setTeams(prev => prev.map(t => t._id === teamId ? result.team : t));
+          setEntities(prev => upsertTeams(prev, [result.team]));
           const roleName = role === 'captain' ? 'Captain' : 'Vice-Captain';
           const roleIsSet = (role === 'captain' && result.team.captainId?._id === memberId) || (role === 'viceCaptain' && result.team.viceCaptainId?._id === memberId);
 
@@ -303,19 +522,17 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       return result;
   };
 
+  // As with joining, the added team's current members become its squad for the tournament.
   const addTeamToTournament = async (tournamentId: string, teamCodeOrId: string) => {
-      const oldTournament = tournaments.find(t => t._id === tournamentId);
+      const oldTournament = selectTournament(entityStore.getSnapshot(), tournamentId);
       const oldTeamIds = new Set(oldTournament?.teams.map(t => t._id));
 
-      const result = await apiFetch(`/tournaments/${tournamentId}/teams`, {
-          method: 'POST',
-          body: JSON.stringify({ teamCodeOrId }),
-      });
+      const result = await api.tournaments.addTeam(tournamentId, teamCodeOrId);
 
       if(result.success) {
           const updatedTournament = await getTournamentById(tournamentId);
           if (updatedTournament) {
-              setTournaments(prev => prev.map(t => t._id === tournamentId ? updatedTournament : t));
+              setEntities(prev => upsertTournaments(prev, [updatedTournament]));
               const newTeam = updatedTournament.teams.find(t => !oldTeamIds.has(t._id));
 
               if (newTeam) {
@@ -334,11 +551,14 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       return result;
   };
   
-  const scheduleMatches = async (tournamentId: string) => {
-      await apiFetch(`/tournaments/${tournamentId}/schedule`, { method: 'POST' });
+  // The server generates fixtures for the chosen format and stores the format on the tournament.
+  const scheduleMatches = async (tournamentId: string, format: TournamentFormat) => {
+      await api.tournaments.schedule(tournamentId, format);
       const updatedTournament = await getTournamentById(tournamentId);
       if (updatedTournament) {
-          setTournaments(prev => prev.map(t => t._id === tournamentId ? updatedTournament : t));
+          const linkedMatches = await linkKnockoutMatches(updatedTournament);
+          setEntities(prev => upsertTournaments(prev, [updatedTournament]));
+          storeMatches(tournamentId, linkedMatches);
           updatedTournament.teams.forEach(team => {
               team.members.forEach(member => {
                   if (member) {
@@ -353,133 +573,293 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       }
   };
   
-  const addMatchManually = async (tournamentId: string, matchData: { teamAId: string, teamBId: string, round: string }) => {
-      await apiFetch(`/tournaments/${tournamentId}/matches`, {
-          method: 'POST',
-          body: JSON.stringify(matchData),
-      });
-      const updatedTournament = await getTournamentById(tournamentId);
-      if (updatedTournament) {
-          setTournaments(prev => prev.map(t => t._id === tournamentId ? updatedTournament : t));
+  // Puts the winner of a finished knockout match into its side of the next fixture.
+  // Resolves to the updated fixture, or null when there is nothing to advance or the winner is already in place.
+  const advanceKnockoutWinner = async (tournament: Tournament, match: Match): Promise<Match | null> => {
+      const winnerId = getMatchWinnerId(match);
+      const nextMatch = tournament.matches.find(m => m._id === match.nextMatchId);
+      if (!winnerId || !nextMatch || nextMatch.status !== MatchStatus.SCHEDULED) return null;
+      const slotTeam = match.nextMatchSlot === 'B' ? nextMatch.teamBId : nextMatch.teamAId;
+      if (slotTeam?._id === winnerId) return null;
+      return api.matches.update(tournament._id, nextMatch._id, match.nextMatchSlot === 'B' ? { teamBId: winnerId } : { teamAId: winnerId });
+  };
+
+  // Stores which fixture each knockout winner feeds, following the bracket layout, and
+  // advances winners that were decided before their next fixture existed.
+  // Resolves to every match it changed, in the order they were changed.
+  const linkKnockoutMatches = async (tournament: Tournament): Promise<Match[]> => {
+      const links = getAdvancementLinks(tournament.matches, getTournamentFormat(tournament));
+      const updatedMatches: Match[] = [];
+      for (const link of links) {
+          updatedMatches.push(await api.matches.update(tournament._id, link.matchId, { nextMatchId: link.nextMatchId, nextMatchSlot: link.nextMatchSlot }));
+          const feeder = tournament.matches.find(m => m._id === link.matchId);
+          const advancedMatch = feeder && await advanceKnockoutWinner(tournament, { ...feeder, nextMatchId: link.nextMatchId, nextMatchSlot: link.nextMatchSlot });
+          if (advancedMatch) updatedMatches.push(advancedMatch);
+      }
+      return updatedMatches;
+  };
+
+  const addMatchManually = async (tournamentId: string, matchData: NewMatchData) => {
+      const tournament = selectTournament(entityStore.getSnapshot(), tournamentId);
+      const createdMatch = await api.matches.create(tournamentId, matchData);
+      setEntities(prev => upsertMatch(prev, tournamentId, createdMatch));
+      if (tournament) {
+          storeMatches(tournamentId, await linkKnockoutMatches({ ...tournament, matches: [...tournament.matches, createdMatch] }));
       }
   };
   
-  const updateMatchDetails = async (tournamentId: string, matchId: string, details: any) => {
-      const finalDetails = {
+  const updateMatchDetails = async (tournamentId: string, matchId: string, details: Partial<Pick<Match, 'teamAId' | 'teamBId' | 'date' | 'time'>>) => {
+      const tournament = selectTournament(entityStore.getSnapshot(), tournamentId);
+      const updatedMatch = await mutateMatch(tournamentId, matchId, () => api.matches.update(tournamentId, matchId, {
           ...details,
           teamAId: details.teamAId?._id, // Send only the ID
           teamBId: details.teamBId?._id
-      };
-      await apiFetch(`/tournaments/${tournamentId}/matches/${matchId}`, {
-          method: 'PUT',
-          body: JSON.stringify(finalDetails),
-      });
-      const updatedTournament = await getTournamentById(tournamentId);
-      if (updatedTournament) {
-          setTournaments(prev => prev.map(t => t._id === tournamentId ? updatedTournament : t));
-          
-          const updatedMatch = updatedTournament.matches.find(m => m._id === matchId);
-          if (updatedMatch) {
-              const teamA = updatedTournament.teams.find(t => t._id === updatedMatch.teamAId._id);
-              const teamB = updatedTournament.teams.find(t => t._id === updatedMatch.teamBId._id);
-
-              if (teamA && teamB) {
-                   const message = `Match details updated for ${teamA.name} vs ${teamB.name} on ${updatedMatch.date || 'TBD'} at ${updatedMatch.time || 'TBD'}.`;
-                  teamA.members.forEach(member => {
-                      if (member) createNotification(member._id, message, `/tournament/${tournamentId}`);
-                  });
-                  teamB.members.forEach(member => {
-                      if (member) createNotification(member._id, message, `/tournament/${tournamentId}`);
-                  });
-              }
-          }
+      }), match => ({ ...match, ...details }));
+
+      const teamA = tournament?.teams.find(t => t._id === updatedMatch.teamAId?._id);
+      const teamB = tournament?.teams.find(t => t._id === updatedMatch.teamBId?._id);
+      if (teamA && teamB) {
+          const message = `Match details updated for ${teamA.name} vs ${teamB.name} on ${updatedMatch.date || 'TBD'} at ${updatedMatch.time || 'TBD'}.`;
+          teamA.members.forEach(member => {
+              if (member) createNotification(member._id, message, `/tournament/${tournamentId}`);
+          });
+          teamB.members.forEach(member => {
+              if (member) createNotification(member._id, message, `/tournament/${tournamentId}`);
+          });
       }
   };
-  
+
   const startMatch = async (tournamentId: string, matchId: string) => {
-      await apiFetch(`/tournaments/${tournamentId}/matches/${matchId}/start`, { method: 'PUT' });
-      const updatedTournament = await getTournamentById(tournamentId);
-      if (updatedTournament) {
-          setTournaments(prev => prev.map(t => t._id === tournamentId ? updatedTournament : t));
-      }
+      await mutateMatch(tournamentId, matchId, () => api.matches.start(tournamentId, matchId), match => ({ ...match, status: MatchStatus.LIVE }));
   };
 
-  const endMatch = async (tournamentId: string, matchId: string, penaltyScores?: { penaltyScoreA: number, penaltyScoreB: number }) => {
-      await apiFetch(`/tournaments/${tournamentId}/matches/${matchId}/end`, {
-          method: 'PUT',
-          body: JSON.stringify({ penaltyScores }),
+  const notifyKnockoutAdvancement = (tournament: Tournament, finishedMatch: Match, nextMatch: Match) => {
+      const winner = tournament.teams.find(t => t._id === getMatchWinnerId(finishedMatch));
+      const opponentId = finishedMatch.nextMatchSlot === 'B' ? nextMatch.teamAId?._id : nextMatch.teamBId?._id;
+      const opponent = tournament.teams.find(t => t._id === opponentId);
+      if (!winner) return;
+      const fixture = `the ${nextMatch.round} (Match #${nextMatch.matchNumber})`;
+      const winnerMessage = `${winner.name} advance to ${fixture}${opponent ? ` to face ${opponent.name}` : ''}.`;
+      winner.members.forEach(member => {
+          if (member) createNotification(member._id, winnerMessage, `/tournament/${tournament._id}`);
       });
-      const updatedTournament = await getTournamentById(tournamentId);
-      if (updatedTournament) {
-           setTournaments(prev => prev.map(t => t._id === tournamentId ? updatedTournament : t));
-           const finishedMatch = updatedTournament.matches.find(m => m._id === matchId);
-           if (finishedMatch) {
-              const teamA = updatedTournament.teams.find(t => t._id === finishedMatch.teamAId._id);
-              const teamB = updatedTournament.teams.find(t => t._id === finishedMatch.teamBId._id);
-
-              if (teamA && teamB) {
-                  let resultMessage;
-                  if(finishedMatch.winnerId === teamA._id) {
-                      resultMessage = `${teamA.name} won against ${teamB.name} (${finishedMatch.scoreA}-${finishedMatch.scoreB}).`;
-                  } else if (finishedMatch.winnerId === teamB._id) {
-                      resultMessage = `${teamB.name} won against ${teamA.name} (${finishedMatch.scoreB}-${finishedMatch.scoreA}).`;
-                  } else {
-                      resultMessage = `The match between ${teamA.name} and ${teamB.name} ended in a draw (${finishedMatch.scoreA}-${finishedMatch.scoreB}).`;
-                  }
-                  const message = `Match Finished: ${resultMessage}`;
+      opponent?.members.forEach(member => {
+          if (member) createNotification(member._id, `${winner.name} will be your opponent in ${fixture}.`, `/tournament/${tournament._id}`);
+      });
+  };
 
-                  teamA.members.forEach(member => {
-                      if (member) createNotification(member._id, message, `/tournament/${tournamentId}`);
-                  });
-                  teamB.members.forEach(member => {
-                      if (member) createNotification(member._id, message, `/tournament/${tournamentId}`);
-                  });
-              }
-           }
+  // Refused while events for the match are queued: the server would settle the result without them and then reject them.
+  const endMatch = async (tournamentId: string, matchId: string, penaltyScores?: PenaltyScores) => {
+      if (pendingEventsRef.current.some(e => e.matchId === matchId)) {
+          throw new Error("Events recorded for this match are still waiting to sync. End the match once they have been sent.");
       }
-  };
+      const tournament = selectTournament(entityStore.getSnapshot(), tournamentId);
+      const finishedMatch = await mutateMatch(tournamentId, matchId, () => api.matches.end(tournamentId, matchId, penaltyScores), match => ({
+          ...match,
+          ...penaltyScores,
+          status: MatchStatus.FINISHED,
+      }));
+      if (!tournament) return;
+
+      const teamA = tournament.teams.find(t => t._id === finishedMatch.teamAId?._id);
+      const teamB = tournament.teams.find(t => t._id === finishedMatch.teamBId?._id);
+      if (teamA && teamB) {
+          let resultMessage;
+          if(finishedMatch.winnerId === teamA._id) {
+              resultMessage = `${teamA.name} won against ${teamB.name} (${finishedMatch.scoreA}-${finishedMatch.scoreB}).`;
+          } else if (finishedMatch.winnerId === teamB._id) {
+              resultMessage = `${teamB.name} won against ${teamA.name} (${finishedMatch.scoreB}-${finishedMatch.scoreA}).`;
+          } else {
+              resultMessage = `The match between ${teamA.name} and ${teamB.name} ended in a draw (${finishedMatch.scoreA}-${finishedMatch.scoreB}).`;
+          }
+          const message = `Match Finished: ${resultMessage}`;
 
-  const recordGoal = async (tournamentId: string, matchId: string, scorerId: string, benefitingTeamId: string, assistId?: string, isOwnGoal?: boolean) => {
-      await apiFetch(`/tournaments/${tournamentId}/matches/${matchId}/goals`, {
-          method: 'POST',
-          body: JSON.stringify({ scorerId, assistId, isOwnGoal, benefitingTeamId }),
-      });
-      const updatedTournament = await getTournamentById(tournamentId);
-      if (updatedTournament) {
-          setTournaments(prev => prev.map(t => t._id === tournamentId ? updatedTournament : t));
+          teamA.members.forEach(member => {
+              if (member) createNotification(member._id, message, `/tournament/${tournamentId}`);
+          });
+          teamB.members.forEach(member => {
+              if (member) createNotification(member._id, message, `/tournament/${tournamentId}`);
+          });
       }
-  };
 
-  const recordCard = async (tournamentId: string, matchId: string, playerId: string, cardType: CardType, teamId: string) => {
-      await apiFetch(`/tournaments/${tournamentId}/matches/${matchId}/cards`, {
-          method: 'POST',
-          body: JSON.stringify({ playerId, cardType, teamId }),
-      });
-       const updatedTournament = await getTournamentById(tournamentId);
-      if (updatedTournament) {
-          setTournaments(prev => prev.map(t => t._id === tournamentId ? updatedTournament : t));
+      const nextMatch = await advanceKnockoutWinner(tournament, finishedMatch);
+      if (nextMatch) {
+          setEntities(prev => upsertMatch(prev, tournamentId, nextMatch));
+          notifyKnockoutAdvancement(tournament, finishedMatch, nextMatch);
       }
   };
+
+  const updateMatchClock = async (tournamentId: string, matchId: string, clock: MatchClock) => {
+      await mutateMatch(tournamentId, matchId, () => api.matches.updateClock(tournamentId, matchId, clock), match => ({ ...match, clock }));
+  };
+
+  const setMatchLineups = async (tournamentId: string, matchId: string, lineups: LineupSelection[]) => {
+      await mutateMatch(tournamentId, matchId, () => api.matches.setLineups(tournamentId, matchId, lineups));
+  };
+
+  const recordSubstitution = async (tournamentId: string, matchId: string, teamId: string, playerOffId: string, playerOnId: string, eventTime?: EventTime) => {
+      await mutateMatch(tournamentId, matchId, () => api.matches.recordSubstitution(tournamentId, matchId, { teamId, playerOffId, playerOnId, minute: eventTime?.minute, addedTime: eventTime?.addedTime }));
+  };
+
+  const recordShootoutKick = async (tournamentId: string, matchId: string, teamId: string, takerId: string, scored: boolean) => {
+      const match = selectMatch(entityStore.getSnapshot(), matchId);
+      const problem = match ? validateShootoutKick(match, teamId) : "Match could not be found.";
+      if (problem) throw new Error(problem);
+      await mutateMatch(tournamentId, matchId, () => api.matches.recordShootoutKick(tournamentId, matchId, { teamId, takerId, scored }));
+  };
+
+  const deleteShootoutKick = async (tournamentId: string, matchId: string, kickId: string) => {
+      await mutateMatch(tournamentId, matchId, () => api.matches.deleteShootoutKick(tournamentId, matchId, kickId), match => ({
+          ...match,
+          shootoutKicks: match.shootoutKicks?.filter(k => k._id !== kickId),
+      }));
+  };
+
+  const recordGoal = async (tournamentId: string, matchId: string, scorerId: string, benefitingTeamId: string, assistId?: string, isOwnGoal?: boolean, eventTime?: EventTime, isPenalty?: boolean) => {
+      const payload: RecordGoalPayload = { scorerId, assistId, isOwnGoal, isPenalty: isPenalty || undefined, benefitingTeamId, minute: eventTime?.minute, addedTime: eventTime?.addedTime };
+      await sendOrQueueMatchEvent({ tournamentId, matchId, kind: 'goal', payload });
+  };
+
+  const recordCard = async (tournamentId: string, matchId: string, playerId: string, cardType: CardType, teamId: string, eventTime?: EventTime) => {
+      // Resolve against the match including queued events, so a second yellow given offline still counts.
+      const tournament = selectTournament(entityStore.getSnapshot(), tournamentId);
+      const match = tournament && applyQueuedEvents([tournament], pendingEventsRef.current)[0].matches.find(m => m._id === matchId);
+      const resolved = match ? resolveCardType(match, playerId, cardType) : { cardType, isSecondYellow: false };
+      const payload: RecordCardPayload = { playerId, cardType: resolved.cardType, isSecondYellow: resolved.isSecondYellow || undefined, teamId, minute: eventTime?.minute, addedTime: eventTime?.addedTime };
+      await sendOrQueueMatchEvent({ tournamentId, matchId, kind: 'card', payload });
+  };
   
+  // --- Event Corrections ---
+  // Edits and deletions send the recomputed scoreline along with a readable audit note;
+  // the backend stamps who made the change and when.
+  const findMatchForCorrection = (tournamentId: string, matchId: string) => {
+      const tournament = selectTournament(entityStore.getSnapshot(), tournamentId);
+      const match = tournament?.matches.find(m => m._id === matchId);
+      if (!tournament || !match) {
+          throw new Error("Match could not be found.");
+      }
+      const findPlayer = (playerId: string) => getTournamentPlayers(tournament).find(m => m._id === playerId);
+      return { match, findPlayer };
+  };
+
+  const updateGoal = async (tournamentId: string, matchId: string, goalId: string, changes: GoalChanges) => {
+      const { match, findPlayer } = findMatchForCorrection(tournamentId, matchId);
+      const goal = match.goals.find(g => g._id === goalId);
+      if (!goal) throw new Error("Goal could not be found.");
+
+      const { scorerId, assistId, ...details } = changes;
+      const updatedGoal: Goal = {
+          ...goal,
+          ...details,
+          scorerId: (scorerId && findPlayer(scorerId)) || goal.scorerId,
+          assistId: assistId === undefined ? goal.assistId : (assistId ? findPlayer(assistId) : undefined),
+      };
+      const { scoreA, scoreB } = calculateMatchScore(match, match.goals.map(g => g._id === goalId ? updatedGoal : g));
+      await mutateMatch(tournamentId, matchId, () => api.matches.updateGoal(tournamentId, matchId, goalId, { ...changes, scoreA, scoreB, auditNote: `Changed ${describeGoal(goal)} to ${describeGoal(updatedGoal)}.` }), current => ({
+          ...current,
+          goals: current.goals.map(g => g._id === goalId ? updatedGoal : g),
+          scoreA,
+          scoreB,
+      }));
+  };
+
+  const deleteGoal = async (tournamentId: string, matchId: string, goalId: string) => {
+      const { match } = findMatchForCorrection(tournamentId, matchId);
+      const goal = match.goals.find(g => g._id === goalId);
+      if (!goal) throw new Error("Goal could not be found.");
+
+      const { scoreA, scoreB } = calculateMatchScore(match, match.goals.filter(g => g._id !== goalId));
+      await mutateMatch(tournamentId, matchId, () => api.matches.deleteGoal(tournamentId, matchId, goalId, { scoreA, scoreB, auditNote: `Removed ${describeGoal(goal)}.` }), current => ({
+          ...current,
+          goals: current.goals.filter(g => g._id !== goalId),
+          scoreA,
+          scoreB,
+      }));
+  };
+
+  const updateCard = async (tournamentId: string, matchId: string, cardId: string, changes: CardChanges) => {
+      const { match, findPlayer } = findMatchForCorrection(tournamentId, matchId);
+      const card = match.cards.find(c => c._id === cardId);
+      if (!card) throw new Error("Card could not be found.");
+
+      const { playerId, ...details } = changes;
+      const updatedCard: Card = {
+          ...card,
+          ...details,
+          playerId: (playerId && findPlayer(playerId)) || card.playerId,
+      };
+      await mutateMatch(tournamentId, matchId, () => api.matches.updateCard(tournamentId, matchId, cardId, { ...changes, auditNote: `Changed ${describeCard(card)} to ${describeCard(updatedCard)}.` }), current => ({
+          ...current,
+          cards: current.cards.map(c => c._id === cardId ? updatedCard : c),
+      }));
+  };
+
+  const deleteCard = async (tournamentId: string, matchId: string, cardId: string) => {
+      const { match } = findMatchForCorrection(tournamentId, matchId);
+      const card = match.cards.find(c => c._id === cardId);
+      if (!card) throw new Error("Card could not be found.");
+
+      await mutateMatch(tournamentId, matchId, () => api.matches.deleteCard(tournamentId, matchId, cardId, { auditNote: `Removed ${describeCard(card)}.` }), current => ({
+          ...current,
+          cards: current.cards.filter(c => c._id !== cardId),
+      }));
+  };
+
+  const recordMatchEvent = async (tournamentId: string, matchId: string, type: MatchEventType, teamId: string, details: { playerId?: string, note?: string } = {}, eventTime?: EventTime) => {
+      const payload: RecordMatchEventPayload = { type, teamId, ...details, minute: eventTime?.minute, addedTime: eventTime?.addedTime };
+      await sendOrQueueMatchEvent({ tournamentId, matchId, kind: 'event', payload });
+  };
+
+  const deleteMatchEvent = async (tournamentId: string, matchId: string, eventId: string) => {
+      const { match } = findMatchForCorrection(tournamentId, matchId);
+      const event = match.events?.find(e => e._id === eventId);
+      if (!event) throw new Error("Event could not be found.");
+
+      await mutateMatch(tournamentId, matchId, () => api.matches.deleteEvent(tournamentId, matchId, eventId, { auditNote: `Removed ${describeMatchEvent(event)}.` }), current => ({
+          ...current,
+          events: current.events?.filter(e => e._id !== eventId),
+      }));
+  };
+
+  // A VAR review that overturns a goal or card removes it and leaves a VAR event on the timeline in its place.
+  const overturnEvent = async (tournamentId: string, matchId: string, target: { kind: 'goal' | 'card', eventId: string }, eventTime?: EventTime) => {
+      const { match } = findMatchForCorrection(tournamentId, matchId);
+      const overturned = target.kind === 'goal' ? match.goals.find(g => g._id === target.eventId) : match.cards.find(c => c._id === target.eventId);
+      if (!overturned) throw new Error("The event to overturn could not be found.");
+      const description = target.kind === 'goal' ? describeGoal(overturned as Goal) : describeCard(overturned as Card);
+
+      const score = target.kind === 'goal' ? calculateMatchScore(match, match.goals.filter(g => g._id !== target.eventId)) : {};
+      const overturn: EventOverturn = {
+          ...target,
+          ...score,
+          note: description,
+          auditNote: `Overturned ${description} after a VAR review.`,
+          minute: eventTime?.minute,
+          addedTime: eventTime?.addedTime,
+      };
+      // The server removes the event and records the VAR event together, so the match is never left half-overturned.
+      await mutateMatch(tournamentId, matchId, () => api.matches.overturnEvent(tournamentId, matchId, overturn), current => ({
+          ...current,
+          ...score,
+          goals: target.kind === 'goal' ? current.goals.filter(g => g._id !== target.eventId) : current.goals,
+          cards: target.kind === 'card' ? current.cards.filter(c => c._id !== target.eventId) : current.cards,
+      }));
+  };
+
   const setPlayerOfTheMatch = async (tournamentId: string, matchId: string, playerId: string) => {
-      await apiFetch(`/tournaments/${tournamentId}/matches/${matchId}/potm`, {
-          method: 'PUT',
-          body: JSON.stringify({ playerId }),
-      });
-      const updatedTournament = await getTournamentById(tournamentId);
-      if (updatedTournament) {
-          setTournaments(prev => prev.map(t => t._id === tournamentId ? updatedTournament : t));
-          const match = updatedTournament.matches.find(m => m._id === matchId);
-          if (match && match.playerOfTheMatchId?._id === playerId) {
-              const teamA = updatedTournament.teams.find(t => t._id === match.teamAId._id);
-              const teamB = updatedTournament.teams.find(t => t._id === match.teamBId._id);
-              if (teamA && teamB) {
-                  createNotification(
-                      playerId,
-                      `Congratulations! You've been named Player of the Match for ${teamA.name} vs ${teamB.name}.`,
-                      `/tournament/${tournamentId}`
-                  );
-              }
+      const tournament = selectTournament(entityStore.getSnapshot(), tournamentId);
+      const player = tournament && getTournamentPlayers(tournament).find(p => p._id === playerId);
+      const match = await mutateMatch(tournamentId, matchId, () => api.matches.setPlayerOfTheMatch(tournamentId, matchId, playerId),
+          player && (current => ({ ...current, playerOfTheMatchId: player })));
+      if (tournament && match.playerOfTheMatchId?._id === playerId) {
+          const teamA = tournament.teams.find(t => t._id === match.teamAId?._id);
+          const teamB = tournament.teams.find(t => t._id === match.teamBId?._id);
+          if (teamA && teamB) {
+              createNotification(
+                  playerId,
+                  `Congratulations! You've been named Player of the Match for ${teamA.name} vs ${teamB.name}.`,
+                  `/tournament/${tournamentId}`
+              );
           }
       }
   };
@@ -494,18 +874,27 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   };
 
 
+  const state = useMemo<AppState>(() => ({
+      currentUser, notifications, isLoading, isOnline, liveConnectionStatus, pendingEvents, syncConflicts, isProfileComplete,
+  }), [currentUser, notifications, isLoading, isOnline, liveConnectionStatus, pendingEvents, syncConflicts, isProfileComplete]);
+
+  const actions = useStableActions<AppActions>({
+      entityStore, watchTournament, dismissSyncConflict,
+      login, register, logout: handleLogout, updateProfile,
+      createTeam, updateTeam, joinTeam, getTeamById,
+      addMemberToTeam, removeMemberFromTeam, toggleTeamAdmin, setTeamRole,
+      getUserById, createTournament, updateTournament, getTournamentById, loadTournament, getPublicTournament, joinTournament,
+      addTeamToTournament, addTournamentStaff, removeTournamentStaff, assignMatchOfficials, registerSquadPlayer, deregisterSquadPlayer, scheduleMatches, updateMatchDetails, addMatchManually, startMatch,
+      endMatch, updateMatchClock, setMatchLineups, recordSubstitution, recordShootoutKick, deleteShootoutKick, recordGoal, recordCard, updateGoal, deleteGoal, updateCard, deleteCard,
+      recordMatchEvent, deleteMatchEvent, overturnEvent, setPlayerOfTheMatch,
+      createNotification, markNotificationAsRead, markAllNotificationsAsRead,
+  });
+
   return (
-    <AppContext.Provider value={{ 
-        currentUser, teams, tournaments, notifications, isLoading, 
-        login, register, logout: handleLogout, isProfileComplete, updateProfile, 
-        createTeam, updateTeam, joinTeam, getTeamById, 
-        addMemberToTeam, removeMemberFromTeam, toggleTeamAdmin, setTeamRole, 
-        getUserById, createTournament, updateTournament, getTournamentById, joinTournament, 
-        addTeamToTournament, scheduleMatches, updateMatchDetails, addMatchManually, startMatch, 
-        endMatch, recordGoal, recordCard, setPlayerOfTheMatch, 
-        createNotification, markNotificationAsRead, markAllNotificationsAsRead 
-    }}>
-      {children}
-    </AppContext.Provider>
+    <AppStateContext.Provider value={state}>
+      <AppActionsContext.Provider value={actions}>
+        {children}
+      </AppActionsContext.Provider>
+    </AppStateContext.Provider>
   );
 };
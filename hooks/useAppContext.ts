@@ -1,11 +1,42 @@
 
-import { useContext } from 'react';
-import { AppContext } from '../contexts/AppContext';
+import { useContext, useMemo, useSyncExternalStore } from 'react';
+import { AppStateContext, AppActionsContext } from '../contexts/AppContext';
+import { AppActions, AppContextType, AppState } from '../types';
+import { EntityStore, selectTeams, selectTournaments } from '../utils/entityStore';
+import { applyQueuedEvents } from '../utils/offlineQueue';
 
-export const useAppContext = () => {
-  const context = useContext(AppContext);
-  if (context === undefined) {
-    throw new Error('useAppContext must be used within an AppProvider');
+export const useAppState = (): AppState => {
+  const state = useContext(AppStateContext);
+  if (state === undefined) {
+    throw new Error('useAppState must be used within an AppProvider');
   }
-  return context;
+  return state;
+};
+
+export const useAppActions = (): AppActions => {
+  const actions = useContext(AppActionsContext);
+  if (actions === undefined) {
+    throw new Error('useAppActions must be used within an AppProvider');
+  }
+  return actions;
+};
+
+// Re-renders only when the selected value changes. The selectors in utils/entityStore keep
+// their results' identity until the entities behind them change, which this relies on.
+export const useEntitySelector = <T>(select: (store: EntityStore) => T): T => {
+  const { entityStore } = useAppActions();
+  return useSyncExternalStore(entityStore.subscribe, () => select(entityStore.getSnapshot()));
+};
+
+export const useAppContext = (): AppContextType => {
+  const state = useAppState();
+  const actions = useAppActions();
+  const teams = useEntitySelector(selectTeams);
+  const tournaments = useEntitySelector(selectTournaments);
+  // Queued events are shown optimistically on top of the server data.
+  const tournamentsWithPendingEvents = useMemo(() => applyQueuedEvents(tournaments, state.pendingEvents), [tournaments, state.pendingEvents]);
+  return useMemo(
+    () => ({ ...state, ...actions, teams, tournaments: tournamentsWithPendingEvents }),
+    [state, actions, teams, tournamentsWithPendingEvents]
+  );
 };
@@ -0,0 +1,20 @@
+import { useMemo } from 'react';
+import { useAppState, useEntitySelector } from './useAppContext';
+import { Team, Tournament } from '../types';
+import { selectTeam, selectTournament } from '../utils/entityStore';
+import { applyQueuedEvents } from '../utils/offlineQueue';
+
+// Looks up one team in the entity store. Re-renders only when the team or one of its members changes.
+export const useTeam = (teamId: string | undefined): Team | undefined =>
+  useEntitySelector(store => selectTeam(store, teamId));
+
+// Looks up one tournament, with match events still waiting in the offline queue shown as in `tournaments`.
+// Re-renders only when the tournament, something in it or the queue changes.
+export const useTournament = (tournamentId: string | undefined): Tournament | undefined => {
+  const { pendingEvents } = useAppState();
+  const tournament = useEntitySelector(store => selectTournament(store, tournamentId));
+  return useMemo(
+    () => tournament && applyQueuedEvents([tournament], pendingEvents)[0],
+    [tournament, pendingEvents]
+  );
+};
@@ -0,0 +1,8 @@
+import { useEffect } from 'react';
+import { useAppActions } from './useAppContext';
+
+// Receives live updates for a tournament while the calling page is open, even if the user doesn't follow it.
+export const useLiveTournament = (tournamentId: string | undefined) => {
+  const { watchTournament } = useAppActions();
+  useEffect(() => (tournamentId ? watchTournament(tournamentId) : undefined), [tournamentId, watchTournament]);
+};
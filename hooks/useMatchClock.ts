@@ -0,0 +1,25 @@
+import { useState, useEffect } from 'react';
+import { MatchClock } from '../types';
+import { isClockRunning, getEventTime, formatClockDisplay, INITIAL_CLOCK } from '../utils/matchClock';
+
+// Re-renders once a second while the match clock is running so the
+// scoreboard and the default minute for new events stay current.
+export const useMatchClock = (clock: MatchClock | undefined) => {
+  const [now, setNow] = useState(() => Date.now());
+  const currentClock = clock || INITIAL_CLOCK;
+  const running = isClockRunning(currentClock);
+
+  useEffect(() => {
+    setNow(Date.now());
+    if (!running) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [running, currentClock.periodStartedAt]);
+
+  return {
+    clock: currentClock,
+    isRunning: running,
+    display: formatClockDisplay(currentClock, now),
+    eventTime: getEventTime(currentClock, now),
+  };
+};
@@ -0,0 +1,13 @@
+import { useCallback } from 'react';
+import { useAppState } from './useAppContext';
+import { can as canUser, PermissionAction, PermissionResource } from '../utils/permissions';
+
+// Permission checks for the logged-in user.
+export const usePermissions = () => {
+  const { currentUser } = useAppState();
+  const can = useCallback(
+    <A extends PermissionAction>(action: A, resource: PermissionResource<A> | null | undefined) => canUser(currentUser, action, resource),
+    [currentUser]
+  );
+  return { can };
+};
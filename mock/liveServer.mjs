@@ -0,0 +1,94 @@
+// Local stand-in for the backend's live updates stream, for development and tests
+// (utils/liveUpdates.test.ts starts one with createLiveServer).
+//
+//   npm run mock:live
+//   LIVE_UPDATES_URL=http://localhost:4001/api/live npm run dev
+//
+// GET  /api/live?tournamentIds=a,b&ticket=t   opens a server-sent events stream for those tournaments
+// POST /api/live/emit                broadcasts a LiveUpdate ({ type, tournamentId, match }) to subscribers
+import http from 'node:http';
+import { pathToFileURL } from 'node:url';
+
+const PORT = Number(process.env.PORT) || 4001;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => resolve(body));
+  req.on('error', reject);
+});
+
+// Each server keeps its own subscribers, so tests can run several side by side.
+export const createLiveServer = () => {
+  const subscribers = new Set();
+  return http.createServer(async (req, res) => {
+    const url = new URL(req.url, 'http://localhost');
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, corsHeaders);
+      res.end();
+      return;
+    }
+
+    if (req.method === 'GET' && url.pathname === '/api/live') {
+      // Tickets aren't validated here, but a stream opened without one is refused as the backend would.
+      if (!url.searchParams.get('ticket')) {
+        res.writeHead(401, { ...corsHeaders, 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ message: 'A stream ticket is required.' }));
+        return;
+      }
+      const tournamentIds = new Set((url.searchParams.get('tournamentIds') || '').split(',').filter(Boolean));
+      res.writeHead(200, {
+        ...corsHeaders,
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+      });
+      res.write(': connected\n\n');
+      const subscriber = { res, tournamentIds };
+      subscribers.add(subscriber);
+      // Comments keep intermediaries from timing out an idle stream.
+      const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), 15000);
+      req.on('close', () => {
+        clearInterval(heartbeat);
+        subscribers.delete(subscriber);
+      });
+      return;
+    }
+
+    if (req.method === 'POST' && url.pathname === '/api/live/emit') {
+      try {
+        const update = JSON.parse(await readBody(req));
+        if (!update.tournamentId || !update.match || !update.type) {
+          throw new Error('Expected { type, tournamentId, match }.');
+        }
+        let delivered = 0;
+        subscribers.forEach(({ res: stream, tournamentIds }) => {
+          if (tournamentIds.has(update.tournamentId)) {
+            stream.write(`data: ${JSON.stringify(update)}\n\n`);
+            delivered++;
+          }
+        });
+        res.writeHead(200, { ...corsHeaders, 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ delivered }));
+      } catch (error) {
+        res.writeHead(400, { ...corsHeaders, 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ message: error.message }));
+      }
+      return;
+    }
+
+    res.writeHead(404, { ...corsHeaders, 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ message: 'Not found' }));
+  });
+};
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  createLiveServer().listen(PORT);
+}
@@ -0,0 +1,140 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { MatchStatus } from '../types';
+import { createMockFetch, createSeedDatabase } from './mockApi';
+
+const BASE_URL = 'https://mock.test/v1';
+
+// Seed users: user_1 created tourn_1 and runs team_1; user_2 runs team_2, where user_4 plays; user_3 plays for team_1.
+const CREDENTIALS: Record<string, { email: string; dob: string }> = {
+  user_1: { email: 'leo.messi@example.com', dob: '1987-06-24' },
+  user_2: { email: 'cristiano.ronaldo@example.com', dob: '1985-02-05' },
+  user_3: { email: 'kevin.debruyne@example.com', dob: '1991-06-28' },
+};
+
+describe('mock API', () => {
+  let mockFetch: typeof fetch;
+  const tokens: Record<string, string> = {};
+
+  const request = async (method: string, path: string, options: { as?: string; body?: unknown } = {}) => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (options.as) headers.Authorization = `Bearer ${tokens[options.as]}`;
+    const response = await mockFetch(`${BASE_URL}${path}`, { method, headers, body: options.body === undefined ? undefined : JSON.stringify(options.body) });
+    return { status: response.status, data: await response.json() };
+  };
+
+  beforeEach(async () => {
+    mockFetch = createMockFetch(BASE_URL, createSeedDatabase());
+    for (const [userId, credentials] of Object.entries(CREDENTIALS)) {
+      tokens[userId] = (await request('POST', '/auth/login', { body: credentials })).data.token;
+    }
+  });
+
+  // Creates a fixture between the two seed teams as the organizer and starts it.
+  const startMatch = async () => {
+    const { data: match } = await request('POST', '/tournaments/tourn_1/matches', { as: 'user_1', body: { teamAId: 'team_1', teamBId: 'team_2', round: 'Semi-Final' } });
+    expect((await request('PUT', `/tournaments/tourn_1/matches/${match._id}/start`, { as: 'user_1' })).status).toBe(200);
+    return match._id as string;
+  };
+
+  describe('auth', () => {
+    it('logs in with email and date of birth', async () => {
+      const { status, data } = await request('POST', '/auth/login', { body: CREDENTIALS.user_1 });
+      expect(status).toBe(200);
+      expect(data.user._id).toBe('user_1');
+      expect((await request('GET', '/users/profile', { as: 'user_1' })).data._id).toBe('user_1');
+    });
+
+    it('refuses a wrong date of birth and requests without a token', async () => {
+      expect((await request('POST', '/auth/login', { body: { ...CREDENTIALS.user_1, dob: '2000-01-01' } })).status).toBe(401);
+      expect((await request('GET', '/tournaments')).status).toBe(401);
+    });
+
+    it("refuses changes to a tournament from someone who doesn't run it", async () => {
+      const { status } = await request('PUT', '/tournaments/tourn_1', { as: 'user_2', body: { name: 'Renamed' } });
+      expect(status).toBe(403);
+    });
+  });
+
+  describe('starting and ending matches', () => {
+    it('decides the winner from the final score', async () => {
+      const matchId = await startMatch();
+      await request('POST', `/tournaments/tourn_1/matches/${matchId}/goals`, { as: 'user_1', body: { scorerId: 'user_4', benefitingTeamId: 'team_2', minute: 12 } });
+      const { data } = await request('PUT', `/tournaments/tourn_1/matches/${matchId}/end`, { as: 'user_1', body: {} });
+      expect(data).toMatchObject({ status: MatchStatus.FINISHED, scoreA: 0, scoreB: 1, winnerId: 'team_2' });
+    });
+
+    it('only starts scheduled matches and only ends live ones', async () => {
+      const matchId = await startMatch();
+      expect((await request('PUT', `/tournaments/tourn_1/matches/${matchId}/start`, { as: 'user_1' })).status).toBe(400);
+      await request('PUT', `/tournaments/tourn_1/matches/${matchId}/end`, { as: 'user_1', body: {} });
+      expect((await request('PUT', `/tournaments/tourn_1/matches/${matchId}/end`, { as: 'user_1', body: {} })).status).toBe(400);
+    });
+
+    it('refuses scoring from anyone but organizers and the assigned scorekeeper', async () => {
+      const matchId = await startMatch();
+      const goal = { scorerId: 'user_1', benefitingTeamId: 'team_1', minute: 5 };
+      expect((await request('POST', `/tournaments/tourn_1/matches/${matchId}/goals`, { as: 'user_2', body: goal })).status).toBe(403);
+
+      await request('POST', '/tournaments/tourn_1/staff', { as: 'user_1', body: { role: 'scorekeeper', userId: 'user_2' } });
+      await request('PUT', `/tournaments/tourn_1/matches/${matchId}/officials`, { as: 'user_1', body: { refereeId: null, scorekeeperId: 'user_2' } });
+      expect((await request('POST', `/tournaments/tourn_1/matches/${matchId}/goals`, { as: 'user_2', body: goal })).status).toBe(200);
+    });
+  });
+
+  describe('penalties', () => {
+    it('gives a level match to the shootout winner', async () => {
+      const matchId = await startMatch();
+      const { data } = await request('PUT', `/tournaments/tourn_1/matches/${matchId}/end`, { as: 'user_1', body: { penaltyScores: { penaltyScoreA: 3, penaltyScoreB: 4 } } });
+      expect(data).toMatchObject({ scoreA: 0, scoreB: 0, penaltyScoreA: 3, penaltyScoreB: 4, winnerId: 'team_2' });
+    });
+
+    it('lets the scorekeeper put the winner into their slot of the next fixture, and nothing else', async () => {
+      const { data: final } = await request('POST', '/tournaments/tourn_1/matches', { as: 'user_1', body: { round: 'Final' } });
+      const semiId = await startMatch();
+      await request('PUT', `/tournaments/tourn_1/matches/${semiId}`, { as: 'user_1', body: { nextMatchId: final._id, nextMatchSlot: 'B' } });
+      await request('POST', '/tournaments/tourn_1/staff', { as: 'user_1', body: { role: 'scorekeeper', userId: 'user_2' } });
+      await request('PUT', `/tournaments/tourn_1/matches/${semiId}/officials`, { as: 'user_1', body: { refereeId: null, scorekeeperId: 'user_2' } });
+      const finalPath = `/tournaments/tourn_1/matches/${final._id}`;
+
+      // Nothing to advance before the semi-final is decided.
+      expect((await request('PUT', finalPath, { as: 'user_2', body: { teamBId: 'team_1' } })).status).toBe(403);
+
+      await request('PUT', `/tournaments/tourn_1/matches/${semiId}/end`, { as: 'user_2', body: { penaltyScores: { penaltyScoreA: 5, penaltyScoreB: 4 } } });
+      expect((await request('PUT', finalPath, { as: 'user_2', body: { teamBId: 'team_2' } })).status).toBe(403);
+      expect((await request('PUT', finalPath, { as: 'user_2', body: { teamAId: 'team_1' } })).status).toBe(403);
+      expect((await request('PUT', finalPath, { as: 'user_2', body: { teamBId: 'team_1', date: '2030-01-01' } })).status).toBe(403);
+
+      const { status, data } = await request('PUT', finalPath, { as: 'user_2', body: { teamBId: 'team_1' } });
+      expect(status).toBe(200);
+      expect(data.teamBId._id).toBe('team_1');
+    });
+  });
+
+  describe('squads', () => {
+    it("lets a team's admin register players until the deadline", async () => {
+      const path = '/tournaments/tourn_1/squads/team_2/players';
+      expect((await request('POST', path, { as: 'user_3', body: { playerId: 'user_3' } })).status).toBe(403);
+      expect((await request('POST', path, { as: 'user_2', body: { playerId: 'user_4' } })).status).toBe(200);
+
+      const { data: tournament } = await request('GET', '/tournaments/tourn_1', { as: 'user_1' });
+      expect(tournament.squads.find(s => s.teamId === 'team_2').players.map(p => p._id)).toEqual(['user_2', 'user_4']);
+
+      await request('PUT', '/tournaments/tourn_1', { as: 'user_1', body: { registrationDeadline: '2000-01-01' } });
+      expect((await request('DELETE', `${path}/user_4`, { as: 'user_2' })).status).toBe(400);
+    });
+  });
+
+  describe('public tournaments', () => {
+    it('are hidden until made public', async () => {
+      expect((await request('GET', '/public/tournaments/tourn_1')).status).toBe(404);
+    });
+
+    it('need no login and leave out private details', async () => {
+      await request('PUT', '/tournaments/tourn_1', { as: 'user_1', body: { isPublic: true } });
+      const { status, data } = await request('GET', '/public/tournaments/tourn_1');
+      expect(status).toBe(200);
+      expect(data.matches[0].goals[0].scorerId).toEqual({ _id: 'user_1', profile: { name: 'Leo Messi', position: 'Forward', imageUrl: expect.any(String) } });
+      expect(JSON.stringify(data)).not.toMatch(/email|dob|inviteCode/);
+    });
+  });
+});
@@ -0,0 +1,634 @@
+// In-process stand-in for the backend, for running the app and tests with no network.
+//
+//   npm run dev:mock   (or USE_MOCK_API=true in .env.local)
+//
+// Data is seeded from mockData.ts and kept in memory, so it resets on reload. Records are
+// stored with ID references, as the backend stores them, and populated on every response.
+// Live updates are not simulated; point LIVE_UPDATES_URL at `npm run mock:live` for those.
+import { DEFAULT_USERS, DEFAULT_TEAMS, DEFAULT_TOURNAMENTS } from '../mockData';
+import { CardType, Match, MatchEventType, MatchStatus, Team, Tournament, TournamentFormat, TournamentFormatType, TournamentStaffRole, User } from '../types';
+import { can, PermissionAction, PermissionResource } from '../utils/permissions';
+import { canChangeSquads, isRegistrationOpen } from '../utils/squads';
+import { calculateMatchScore } from '../utils/matchEvents';
+import { getMatchWinnerId } from '../utils/bracket';
+import { DEFAULT_TOURNAMENT_FORMAT, getGroupNames, GROUP_ROUND, LEAGUE_ROUND } from '../utils/tournamentFormat';
+
+// Records as stored: every reference to a user, team or match is an ID.
+type StoredRecord = Record<string, any>;
+
+export interface MockDatabase {
+  users: User[];
+  teams: StoredRecord[];
+  tournaments: StoredRecord[];
+}
+
+class MockApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+interface RequestContext {
+  params: Record<string, string>;
+  body: any;
+  user: User | null;
+}
+
+type Handler = (context: RequestContext) => unknown;
+
+const TOKEN_PREFIX = 'mock-token:';
+const STAFF_FIELDS: Record<TournamentStaffRole, string> = { organizer: 'organizers', scorekeeper: 'scorekeepers', referee: 'referees' };
+
+const generateId = (prefix: string) => `${prefix}_${Math.random().toString(36).substring(2, 11)}`;
+const generateInviteCode = () => Math.random().toString(36).substring(2, 8).toUpperCase();
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+export const createSeedDatabase = (): MockDatabase => clone({
+  users: DEFAULT_USERS,
+  teams: DEFAULT_TEAMS,
+  tournaments: DEFAULT_TOURNAMENTS,
+});
+
+// Round-robin pairs, every team meeting every other team once.
+const pairAll = (teamIds: string[]): [string, string][] =>
+  teamIds.flatMap((a, i) => teamIds.slice(i + 1).map(b => [a, b] as [string, string]));
+
+const getFirstKnockoutRound = (teamCount: number): string =>
+  teamCount <= 2 ? 'Final' : teamCount <= 4 ? 'Semi-Final' : teamCount <= 8 ? 'Quarter-Final' : 'Round of 16';
+
+/**
+ * Creates a fetch-compatible function backed by an in-memory database, serving the API at
+ * `baseUrl`. Only the path below the base URL's path is used for routing; the host is ignored.
+ */
+export const createMockFetch = (baseUrl: string, db: MockDatabase = createSeedDatabase()): typeof fetch => {
+  const basePath = new URL(baseUrl, 'http://mock.local').pathname.replace(/\/+$/, '');
+
+  // --- Population ---
+  const findUser = (id: string | undefined | null): User | undefined => db.users.find(u => u._id === id);
+
+  // Populates records with the users that `lookUpUser` gives for their IDs. Public responses
+  // leave out invite codes, so nobody can join a team or tournament from its public page.
+  const createPopulators = (lookUpUser: (id: string | undefined | null) => User | undefined, isPublic = false) => {
+    const findUsers = (ids: string[] | undefined): User[] => (ids || []).map(lookUpUser).filter(Boolean);
+    const withoutInviteCode = ({ inviteCode, ...record }: StoredRecord): StoredRecord => record;
+
+    const populateTeam = (team: StoredRecord): Team => ({
+      ...(isPublic ? withoutInviteCode(team) : team),
+      adminIds: findUsers(team.adminIds),
+      members: findUsers(team.members),
+      captainId: lookUpUser(team.captainId),
+      viceCaptainId: lookUpUser(team.viceCaptainId),
+    } as Team);
+
+    const findTeam = (id: string | undefined | null): Team | null => {
+      const team = db.teams.find(t => t._id === id);
+      return team ? populateTeam(team) : null;
+    };
+
+    const populateMatch = (match: StoredRecord): Match => ({
+      ...match,
+      teamAId: findTeam(match.teamAId),
+      teamBId: findTeam(match.teamBId),
+      goals: (match.goals || []).map(g => ({ ...g, scorerId: lookUpUser(g.scorerId), assistId: lookUpUser(g.assistId) })),
+      cards: (match.cards || []).map(c => ({ ...c, playerId: lookUpUser(c.playerId) })),
+      events: (match.events || []).map(e => ({ ...e, playerId: lookUpUser(e.playerId) })),
+      shootoutKicks: match.shootoutKicks?.map(k => ({ ...k, takerId: lookUpUser(k.takerId) })),
+      lineups: match.lineups?.map(l => ({ teamId: l.teamId, starters: findUsers(l.starters), bench: findUsers(l.bench) })),
+      substitutions: match.substitutions?.map(s => ({ ...s, playerOffId: lookUpUser(s.playerOffId), playerOnId: lookUpUser(s.playerOnId) })),
+      auditLog: match.auditLog?.map(a => ({ ...a, changedBy: lookUpUser(a.changedBy) })),
+      playerOfTheMatchId: lookUpUser(match.playerOfTheMatchId),
+      refereeId: lookUpUser(match.refereeId) || null,
+      scorekeeperId: lookUpUser(match.scorekeeperId) || null,
+    } as Match);
+
+    const populateTournament = (tournament: StoredRecord): Tournament => ({
+      ...(isPublic ? withoutInviteCode(tournament) : tournament),
+      teams: (tournament.teams || []).map(findTeam).filter(Boolean),
+      matches: (tournament.matches || []).map(populateMatch),
+      squads: tournament.squads?.map(s => ({ ...s, players: findUsers(s.players) })),
+      organizers: findUsers(tournament.organizers),
+      scorekeepers: findUsers(tournament.scorekeepers),
+      referees: findUsers(tournament.referees),
+    } as Tournament);
+
+    return { populateTeam, populateMatch, populateTournament };
+  };
+
+  const { populateTeam, populateMatch, populateTournament } = createPopulators(findUser);
+
+  // Anyone with the link can open a public tournament, so players appear with their name,
+  // position and photo only.
+  const toPublicUser = (user: User | undefined): User | undefined =>
+    user && ({ _id: user._id, profile: { name: user.profile.name, position: user.profile.position, imageUrl: user.profile.imageUrl } } as User);
+  const { populateTournament: populatePublicTournament } = createPopulators(id => toPublicUser(findUser(id)), true);
+
+  // --- Lookups ---
+  const getStoredTeam = (id: string): StoredRecord => {
+    const team = db.teams.find(t => t._id === id);
+    if (!team) throw new MockApiError(404, 'Team not found.');
+    return team;
+  };
+
+  const getStoredTournament = (id: string): StoredRecord => {
+    const tournament = db.tournaments.find(t => t._id === id);
+    if (!tournament) throw new MockApiError(404, 'Tournament not found.');
+    return tournament;
+  };
+
+  const getStoredMatch = (tournament: StoredRecord, matchId: string): StoredRecord => {
+    const match = (tournament.matches || []).find(m => m._id === matchId);
+    if (!match) throw new MockApiError(404, 'Match not found.');
+    return match;
+  };
+
+  const getStoredEvent = (list: StoredRecord[] | undefined, id: string, label: string): StoredRecord => {
+    const event = (list || []).find(e => e._id === id);
+    if (!event) throw new MockApiError(404, `${label} not found.`);
+    return event;
+  };
+
+  // --- Authorization ---
+  const requireUser = (user: User | null): User => {
+    if (!user) throw new MockApiError(401, 'Not authorized, no token.');
+    return user;
+  };
+
+  const authorize = <A extends PermissionAction>(user: User | null, action: A, resource: PermissionResource<A>) => {
+    if (!can(requireUser(user), action, resource)) throw new MockApiError(403, 'You are not allowed to do that.');
+  };
+
+  // Loads a match for a request that changes it, checking the user may perform the action. The
+  // checks are the UI's own (utils/permissions), so only organizers and the assigned scorekeeper score.
+  const loadMatch = ({ params, user }: RequestContext, action: 'match:score' | 'tournament:manage' = 'match:score') => {
+    const tournament = getStoredTournament(params.id);
+    const match = getStoredMatch(tournament, params.matchId);
+    const populated = populateTournament(tournament);
+    if (action === 'match:score') {
+      authorize(user, 'match:score', { tournament: populated, match: populateMatch(match) });
+    } else {
+      authorize(user, 'tournament:manage', populated);
+    }
+    return { tournament, match };
+  };
+
+  const requireLive = (match: StoredRecord) => {
+    if (match.status !== MatchStatus.LIVE) throw new MockApiError(400, 'The match is not live.');
+  };
+
+  const updateScore = (match: StoredRecord) => {
+    const { scoreA, scoreB } = calculateMatchScore({ teamAId: { _id: match.teamAId }, teamBId: { _id: match.teamBId } } as Match, match.goals);
+    match.scoreA = scoreA;
+    match.scoreB = scoreB;
+  };
+
+  const addAuditEntry = (match: StoredRecord, user: User, action: 'edit' | 'delete', eventType: 'goal' | 'card' | 'event', eventId: string, description: string) => {
+    match.auditLog = [...(match.auditLog || []), {
+      _id: generateId('audit'), action, eventType, eventId, description, changedBy: user._id, createdAt: new Date().toISOString(),
+    }];
+  };
+
+  const createMatch = (tournament: StoredRecord, details: StoredRecord): StoredRecord => {
+    const matchNumber = Math.max(0, ...(tournament.matches || []).map(m => m.matchNumber)) + 1;
+    const match = {
+      _id: generateId('match'), matchNumber, teamAId: null, teamBId: null, scoreA: 0, scoreB: 0,
+      status: MatchStatus.SCHEDULED, goals: [], cards: [], events: [], ...details,
+    };
+    tournament.matches = [...(tournament.matches || []), match];
+    return match;
+  };
+
+  // Team admins add their team; its current members become the squad.
+  const addTeam = (tournament: StoredRecord, team: StoredRecord) => {
+    if (tournament.teams.includes(team._id)) throw new MockApiError(400, 'This team is already in the tournament.');
+    if (!isRegistrationOpen(populateTournament(tournament))) throw new MockApiError(400, 'The registration deadline has passed.');
+    tournament.teams.push(team._id);
+    tournament.squads = [...(tournament.squads || []), { teamId: team._id, players: [...team.members], registeredAt: new Date().toISOString() }];
+  };
+
+  const scheduleFixtures = (tournament: StoredRecord, format: TournamentFormat) => {
+    const teamIds: string[] = tournament.teams;
+    tournament.matches = [];
+    tournament.format = format;
+    if (format.type === TournamentFormatType.KNOCKOUT) {
+      const round = getFirstKnockoutRound(teamIds.length);
+      for (let i = 0; i + 1 < teamIds.length; i += 2) {
+        createMatch(tournament, { teamAId: teamIds[i], teamBId: teamIds[i + 1], round });
+      }
+    } else if (format.type === TournamentFormatType.GROUPS_KNOCKOUT) {
+      // Teams not yet drawn into a group are spread across the groups in turn.
+      const groupNames = getGroupNames(format);
+      const groups = groupNames.map(name => ({ name, teamIds: (tournament.groups || []).find(g => g.name === name)?.teamIds || [] }));
+      teamIds.filter(id => !groups.some(g => g.teamIds.includes(id))).forEach((id, i) => groups[i % groups.length].teamIds.push(id));
+      tournament.groups = groups;
+      groups.forEach(group => pairAll(group.teamIds).forEach(([a, b]) => createMatch(tournament, { teamAId: a, teamBId: b, round: GROUP_ROUND, group: group.name })));
+    } else {
+      const pairs = pairAll(teamIds);
+      pairs.forEach(([a, b]) => createMatch(tournament, { teamAId: a, teamBId: b, round: LEAGUE_ROUND }));
+      if (format.type === TournamentFormatType.DOUBLE_ROUND_ROBIN) {
+        pairs.forEach(([a, b]) => createMatch(tournament, { teamAId: b, teamBId: a, round: LEAGUE_ROUND }));
+      }
+    }
+    tournament.isSchedulingDone = true;
+  };
+
+  // Only the fields a client may change directly; anything else in the body is ignored.
+  const pick = (source: StoredRecord, keys: string[]) =>
+    keys.reduce((picked, key) => (source[key] === undefined ? picked : { ...picked, [key]: source[key] }), {} as StoredRecord);
+
+  // --- Routes ---
+  const routes: [string, string, Handler][] = [
+    // Auth
+    ['POST', '/auth/login', ({ body }) => {
+      const user = db.users.find(u => u.email.toLowerCase() === String(body.email).toLowerCase() && u.dob === body.dob);
+      if (!user) throw new MockApiError(401, 'Invalid email or date of birth.');
+      return { token: TOKEN_PREFIX + user._id, user };
+    }],
+    ['POST', '/auth/register', ({ body }) => {
+      if (db.users.some(u => u.email.toLowerCase() === String(body.email).toLowerCase())) {
+        throw new MockApiError(400, 'A user with this email already exists.');
+      }
+      const user: User = { _id: generateId('user'), email: body.email, dob: body.dob, profile: { name: body.name, age: null, position: null, imageUrl: null } };
+      db.users.push(user);
+      return { token: TOKEN_PREFIX + user._id, user };
+    }],
+
+    // Users
+    ['GET', '/users/profile', ({ user }) => requireUser(user)],
+    ['PUT', '/users/profile', ({ user, body }) => {
+      const me = requireUser(user);
+      me.profile = { ...me.profile, ...body };
+      return me;
+    }],
+    ['GET', '/users/:userId', ({ params, user }) => {
+      requireUser(user);
+      const found = findUser(params.userId);
+      if (!found) throw new MockApiError(404, 'User not found.');
+      return found;
+    }],
+
+    // Teams
+    ['GET', '/teams', ({ user }) => {
+      requireUser(user);
+      return db.teams.map(populateTeam);
+    }],
+    ['POST', '/teams', ({ user, body }) => {
+      const me = requireUser(user);
+      const team = { _id: generateId('team'), name: body.name, logoUrl: body.logoUrl || null, adminIds: [me._id], members: [me._id], inviteCode: generateInviteCode() };
+      db.teams.push(team);
+      return populateTeam(team);
+    }],
+    ['POST', '/teams/join', ({ user, body }) => {
+      const me = requireUser(user);
+      const team = db.teams.find(t => t.inviteCode === body.code);
+      if (!team) throw new MockApiError(404, 'No team found with that invite code.');
+      if (!team.members.includes(me._id)) team.members.push(me._id);
+      return populateTeam(team);
+    }],
+    ['GET', '/teams/:teamId', ({ params, user }) => {
+      requireUser(user);
+      return populateTeam(getStoredTeam(params.teamId));
+    }],
+    ['PUT', '/teams/:teamId', ({ params, user, body }) => {
+      const team = getStoredTeam(params.teamId);
+      authorize(user, 'team:manage', populateTeam(team));
+      Object.assign(team, pick(body, ['name', 'logoUrl']));
+      return populateTeam(team);
+    }],
+    ['POST', '/teams/:teamId/members', ({ params, user, body }) => {
+      const team = getStoredTeam(params.teamId);
+      authorize(user, 'team:manage', populateTeam(team));
+      if (!findUser(body.memberId)) return { success: false, message: 'No player found with that ID.' };
+      if (team.members.includes(body.memberId)) return { success: false, message: 'This player is already in the team.' };
+      team.members.push(body.memberId);
+      return { success: true, message: 'Player added to the team.', team: populateTeam(team) };
+    }],
+    ['DELETE', '/teams/:teamId/members/:memberId', ({ params, user }) => {
+      const team = getStoredTeam(params.teamId);
+      authorize(user, 'team:manage', populateTeam(team));
+      team.members = team.members.filter(id => id !== params.memberId);
+      team.adminIds = team.adminIds.filter(id => id !== params.memberId);
+      if (team.captainId === params.memberId) delete team.captainId;
+      if (team.viceCaptainId === params.memberId) delete team.viceCaptainId;
+      return { success: true, message: 'Player removed from the team.', team: populateTeam(team) };
+    }],
+    ['PUT', '/teams/:teamId/admins/:memberId', ({ params, user }) => {
+      const team = getStoredTeam(params.teamId);
+      authorize(user, 'team:manage', populateTeam(team));
+      const isAdmin = team.adminIds.includes(params.memberId);
+      team.adminIds = isAdmin ? team.adminIds.filter(id => id !== params.memberId) : [...team.adminIds, params.memberId];
+      return { success: true, message: isAdmin ? 'Admin rights removed.' : 'Player made an admin.', team: populateTeam(team) };
+    }],
+    ['PUT', '/teams/:teamId/roles', ({ params, user, body }) => {
+      const team = getStoredTeam(params.teamId);
+      authorize(user, 'team:manage', populateTeam(team));
+      const field = body.role === 'captain' ? 'captainId' : 'viceCaptainId';
+      team[field] = team[field] === body.memberId ? undefined : body.memberId;
+      return { success: true, message: 'Team roles updated.', team: populateTeam(team) };
+    }],
+
+    // Tournaments
+    ['GET', '/tournaments', ({ user }) => {
+      requireUser(user);
+      return db.tournaments.map(populateTournament);
+    }],
+    ['POST', '/tournaments', ({ user, body }) => {
+      const me = requireUser(user);
+      const tournament = { _id: generateId('tourn'), name: body.name, logoUrl: body.logoUrl || null, adminId: me._id, teams: [], matches: [], inviteCode: generateInviteCode() };
+      db.tournaments.push(tournament);
+      return populateTournament(tournament);
+    }],
+    ['POST', '/tournaments/join', ({ user, body }) => {
+      const me = requireUser(user);
+      const tournament = db.tournaments.find(t => t.inviteCode === body.inviteCode);
+      if (!tournament) return { success: false, message: 'No tournament found with that invite code.' };
+      const team = getStoredTeam(body.teamId);
+      if (!team.adminIds.includes(me._id)) return { success: false, message: 'Only team admins can enter their team into a tournament.' };
+      addTeam(tournament, team);
+      return { success: true, message: `${team.name} joined ${tournament.name}.`, tournamentId: tournament._id };
+    }],
+    ['GET', '/tournaments/:id', ({ params, user }) => {
+      requireUser(user);
+      return populateTournament(getStoredTournament(params.id));
+    }],
+    ['PUT', '/tournaments/:id', ({ params, user, body }) => {
+      const tournament = getStoredTournament(params.id);
+      authorize(user, 'tournament:manage', populateTournament(tournament));
+      Object.assign(tournament, pick(body, ['name', 'logoUrl', 'format', 'pointsRules', 'groups', 'disciplineRules', 'registrationDeadline', 'transferWindow', 'isPublic']));
+      return populateTournament(tournament);
+    }],
+    ['POST', '/tournaments/:id/teams', ({ params, user, body }) => {
+      const tournament = getStoredTournament(params.id);
+      authorize(user, 'tournament:manage', populateTournament(tournament));
+      const team = db.teams.find(t => t._id === body.teamCodeOrId || t.inviteCode === body.teamCodeOrId);
+      if (!team) return { success: false, message: 'No team found with that ID or invite code.' };
+      try {
+        addTeam(tournament, team);
+      } catch (error: any) {
+        return { success: false, message: error.message };
+      }
+      return { success: true, message: `${team.name} added to the tournament.` };
+    }],
+    ['POST', '/tournaments/:id/staff', ({ params, user, body }) => {
+      const tournament = getStoredTournament(params.id);
+      authorize(user, 'tournament:manageStaff', populateTournament(tournament));
+      const field = STAFF_FIELDS[body.role as TournamentStaffRole];
+      if (!field) throw new MockApiError(400, 'Unknown staff role.');
+      if (!findUser(body.userId)) return { success: false, message: 'No player found with that ID.' };
+      if ((tournament[field] || []).includes(body.userId)) return { success: false, message: 'This player already has that role.' };
+      tournament[field] = [...(tournament[field] || []), body.userId];
+      return { success: true, message: 'Staff member added.' };
+    }],
+    ['DELETE', '/tournaments/:id/staff/:role/:userId', ({ params, user }) => {
+      const tournament = getStoredTournament(params.id);
+      authorize(user, 'tournament:manageStaff', populateTournament(tournament));
+      const field = STAFF_FIELDS[params.role as TournamentStaffRole];
+      if (!field) throw new MockApiError(400, 'Unknown staff role.');
+      tournament[field] = (tournament[field] || []).filter(id => id !== params.userId);
+      return { success: true };
+    }],
+    ['POST', '/tournaments/:id/squads/:teamId/players', ({ params, user, body }) => {
+      const tournament = getStoredTournament(params.id);
+      const populated = populateTournament(tournament);
+      authorize(user, 'squad:manage', { tournament: populated, team: populateTeam(getStoredTeam(params.teamId)) });
+      if (!canChangeSquads(populated)) throw new MockApiError(400, 'Squads are locked until the transfer window opens.');
+      let squad = (tournament.squads || []).find(s => s.teamId === params.teamId);
+      if (!squad) {
+        squad = { teamId: params.teamId, players: [...getStoredTeam(params.teamId).members], registeredAt: new Date().toISOString() };
+        tournament.squads = [...(tournament.squads || []), squad];
+      }
+      if (!squad.players.includes(body.playerId)) squad.players.push(body.playerId);
+      return { success: true };
+    }],
+    ['DELETE', '/tournaments/:id/squads/:teamId/players/:playerId', ({ params, user }) => {
+      const tournament = getStoredTournament(params.id);
+      const populated = populateTournament(tournament);
+      authorize(user, 'squad:manage', { tournament: populated, team: populateTeam(getStoredTeam(params.teamId)) });
+      if (!canChangeSquads(populated)) throw new MockApiError(400, 'Squads are locked until the transfer window opens.');
+      const squad = (tournament.squads || []).find(s => s.teamId === params.teamId);
+      if (squad) squad.players = squad.players.filter(id => id !== params.playerId);
+      return { success: true };
+    }],
+    ['POST', '/tournaments/:id/schedule', ({ params, user, body }) => {
+      const tournament = getStoredTournament(params.id);
+      authorize(user, 'tournament:manage', populateTournament(tournament));
+      scheduleFixtures(tournament, { ...DEFAULT_TOURNAMENT_FORMAT, ...body.format });
+      return { success: true };
+    }],
+
+    // Matches
+    ['POST', '/tournaments/:id/matches', ({ params, user, body }) => {
+      const tournament = getStoredTournament(params.id);
+      authorize(user, 'tournament:manage', populateTournament(tournament));
+      return populateMatch(createMatch(tournament, pick(body, ['teamAId', 'teamBId', 'round', 'group'])));
+    }],
+    ['GET', '/tournaments/:id/matches/:matchId', ({ params, user }) => {
+      requireUser(user);
+      return populateMatch(getStoredMatch(getStoredTournament(params.id), params.matchId));
+    }],
+    ['PUT', '/tournaments/:id/matches/:matchId', (context) => {
+      const tournament = getStoredTournament(context.params.id);
+      const match = getStoredMatch(tournament, context.params.matchId);
+      const populated = populateTournament(tournament);
+      // Whoever ends a knockout match may put its winner into its own slot of the next fixture, and nothing else.
+      const isAdvancingWinner = populated.matches.some(feeder => {
+        if (feeder.nextMatchId !== match._id || !can(context.user, 'match:score', { tournament: populated, match: feeder })) return false;
+        const winnerId = getMatchWinnerId(feeder);
+        const slotField = feeder.nextMatchSlot === 'B' ? 'teamBId' : 'teamAId';
+        const fields = Object.keys(context.body);
+        return !!winnerId && fields.length === 1 && fields[0] === slotField && context.body[slotField] === winnerId;
+      });
+      if (!isAdvancingWinner) authorize(context.user, 'tournament:manage', populated);
+      Object.assign(match, pick(context.body, ['teamAId', 'teamBId', 'date', 'time', 'nextMatchId', 'nextMatchSlot']));
+      return populateMatch(match);
+    }],
+    ['PUT', '/tournaments/:id/matches/:matchId/officials', (context) => {
+      const { match } = loadMatch(context, 'tournament:manage');
+      match.refereeId = context.body.refereeId || null;
+      match.scorekeeperId = context.body.scorekeeperId || null;
+      return populateMatch(match);
+    }],
+    ['PUT', '/tournaments/:id/matches/:matchId/start', (context) => {
+      const { match } = loadMatch(context);
+      if (match.status !== MatchStatus.SCHEDULED) throw new MockApiError(400, 'The match has already started.');
+      if (!match.teamAId || !match.teamBId) throw new MockApiError(400, 'Both teams must be known before the match can start.');
+      match.status = MatchStatus.LIVE;
+      return populateMatch(match);
+    }],
+    ['PUT', '/tournaments/:id/matches/:matchId/end', (context) => {
+      const { match } = loadMatch(context);
+      requireLive(match);
+      updateScore(match);
+      match.status = MatchStatus.FINISHED;
+      if (context.body.penaltyScores) Object.assign(match, context.body.penaltyScores);
+      // A level match is won on penalties, if it went to a shootout.
+      match.winnerId = match.scoreA === match.scoreB
+        ? getMatchWinnerId(populateMatch({ ...match, winnerId: null }))
+        : match.scoreA > match.scoreB ? match.teamAId : match.teamBId;
+      return populateMatch(match);
+    }],
+    ['PUT', '/tournaments/:id/matches/:matchId/clock', (context) => {
+      const { match } = loadMatch(context);
+      match.clock = context.body;
+      return populateMatch(match);
+    }],
+    ['PUT', '/tournaments/:id/matches/:matchId/lineups', (context) => {
+      const { match } = loadMatch(context);
+      match.lineups = (context.body.lineups || []).map(l => ({ teamId: l.teamId, starters: l.starterIds, bench: l.benchIds }));
+      return populateMatch(match);
+    }],
+    ['POST', '/tournaments/:id/matches/:matchId/substitutions', (context) => {
+      const { match } = loadMatch(context);
+      requireLive(match);
+      const { teamId, playerOffId, playerOnId, minute, addedTime } = context.body;
+      match.substitutions = [...(match.substitutions || []), { _id: generateId('sub'), teamId, playerOffId, playerOnId, minute: minute ?? 0, addedTime, createdAt: new Date().toISOString() }];
+      return populateMatch(match);
+    }],
+    ['POST', '/tournaments/:id/matches/:matchId/shootout', (context) => {
+      const { match } = loadMatch(context);
+      requireLive(match);
+      const { teamId, takerId, scored } = context.body;
+      match.shootoutKicks = [...(match.shootoutKicks || []), { _id: generateId('kick'), teamId, takerId, scored: !!scored }];
+      return populateMatch(match);
+    }],
+    ['DELETE', '/tournaments/:id/matches/:matchId/shootout/:kickId', (context) => {
+      const { match } = loadMatch(context);
+      requireLive(match);
+      match.shootoutKicks = (match.shootoutKicks || []).filter(k => k._id !== context.params.kickId);
+      return populateMatch(match);
+    }],
+    ['POST', '/tournaments/:id/matches/:matchId/goals', (context) => {
+      const { match } = loadMatch(context);
+      requireLive(match);
+      const { scorerId, assistId, isOwnGoal, isPenalty, benefitingTeamId, minute, addedTime } = context.body;
+      match.goals.push({ _id: generateId('goal'), scorerId, assistId, isOwnGoal: !!isOwnGoal, isPenalty, teamId: benefitingTeamId, minute: minute ?? 0, addedTime, createdAt: new Date().toISOString() });
+      updateScore(match);
+      return populateMatch(match);
+    }],
+    ['PUT', '/tournaments/:id/matches/:matchId/goals/:goalId', (context) => {
+      const { match } = loadMatch(context);
+      const goal = getStoredEvent(match.goals, context.params.goalId, 'Goal');
+      Object.assign(goal, pick(context.body, ['scorerId', 'assistId', 'isOwnGoal', 'isPenalty', 'teamId', 'minute', 'addedTime']));
+      if (goal.assistId === null) delete goal.assistId;
+      updateScore(match);
+      addAuditEntry(match, context.user, 'edit', 'goal', goal._id, context.body.auditNote);
+      return populateMatch(match);
+    }],
+    ['DELETE', '/tournaments/:id/matches/:matchId/goals/:goalId', (context) => {
+      const { match } = loadMatch(context);
+      const goal = getStoredEvent(match.goals, context.params.goalId, 'Goal');
+      match.goals = match.goals.filter(g => g !== goal);
+      updateScore(match);
+      addAuditEntry(match, context.user, 'delete', 'goal', goal._id, context.body.auditNote);
+      return populateMatch(match);
+    }],
+    ['POST', '/tournaments/:id/matches/:matchId/cards', (context) => {
+      const { match } = loadMatch(context);
+      requireLive(match);
+      const { playerId, cardType, teamId, isSecondYellow, minute, addedTime } = context.body;
+      if (!Object.values(CardType).includes(cardType)) throw new MockApiError(400, 'Unknown card type.');
+      match.cards.push({ _id: generateId('card'), playerId, type: cardType, teamId, isSecondYellow, minute: minute ?? 0, addedTime, createdAt: new Date().toISOString() });
+      return populateMatch(match);
+    }],
+    ['PUT', '/tournaments/:id/matches/:matchId/cards/:cardId', (context) => {
+      const { match } = loadMatch(context);
+      const card = getStoredEvent(match.cards, context.params.cardId, 'Card');
+      Object.assign(card, pick(context.body, ['playerId', 'type', 'minute', 'addedTime']));
+      addAuditEntry(match, context.user, 'edit', 'card', card._id, context.body.auditNote);
+      return populateMatch(match);
+    }],
+    ['DELETE', '/tournaments/:id/matches/:matchId/cards/:cardId', (context) => {
+      const { match } = loadMatch(context);
+      const card = getStoredEvent(match.cards, context.params.cardId, 'Card');
+      match.cards = match.cards.filter(c => c !== card);
+      addAuditEntry(match, context.user, 'delete', 'card', card._id, context.body.auditNote);
+      return populateMatch(match);
+    }],
+    ['POST', '/tournaments/:id/matches/:matchId/events', (context) => {
+      const { match } = loadMatch(context);
+      requireLive(match);
+      const { type, teamId, playerId, note, minute, addedTime } = context.body;
+      match.events = [...(match.events || []), { _id: generateId('event'), type, teamId, playerId, note, minute: minute ?? 0, addedTime, createdAt: new Date().toISOString() }];
+      return populateMatch(match);
+    }],
+    ['DELETE', '/tournaments/:id/matches/:matchId/events/:eventId', (context) => {
+      const { match } = loadMatch(context);
+      const event = getStoredEvent(match.events, context.params.eventId, 'Event');
+      match.events = match.events.filter(e => e !== event);
+      addAuditEntry(match, context.user, 'delete', 'event', event._id, context.body.auditNote);
+      return populateMatch(match);
+    }],
+    ['POST', '/tournaments/:id/matches/:matchId/overturns', (context) => {
+      const { match } = loadMatch(context);
+      requireLive(match);
+      const { kind, eventId, note, minute, addedTime, auditNote } = context.body;
+      if (kind !== 'goal' && kind !== 'card') throw new MockApiError(400, 'Only goals and cards can be overturned.');
+      const field = kind === 'goal' ? 'goals' : 'cards';
+      const overturned = getStoredEvent(match[field], eventId, kind === 'goal' ? 'Goal' : 'Card');
+      match[field] = match[field].filter(e => e !== overturned);
+      updateScore(match);
+      addAuditEntry(match, context.user, 'delete', kind, overturned._id, auditNote);
+      match.events = [...(match.events || []), {
+        _id: generateId('event'), type: MatchEventType.VAR_OVERTURN, teamId: overturned.teamId, note, minute: minute ?? 0, addedTime, createdAt: new Date().toISOString(),
+      }];
+      return populateMatch(match);
+    }],
+    ['PUT', '/tournaments/:id/matches/:matchId/potm', (context) => {
+      const { match } = loadMatch(context, 'tournament:manage');
+      match.playerOfTheMatchId = context.body.playerId;
+      return populateMatch(match);
+    }],
+
+    // The mock has no stream of its own; LIVE_UPDATES_URL can point at mock/liveServer.mjs, which only checks a ticket is present.
+    ['POST', '/live/tickets', ({ user }) => {
+      requireUser(user);
+      return { ticket: generateId('ticket'), expiresAt: new Date(Date.now() + 60 * 1000).toISOString() };
+    }],
+
+    // Public pages need no login.
+    ['GET', '/public/tournaments/:id', ({ params }) => {
+      const tournament = getStoredTournament(params.id);
+      if (!tournament.isPublic) throw new MockApiError(404, 'This tournament is not public.');
+      return populatePublicTournament(tournament);
+    }],
+  ];
+
+  const matchRoute = (method: string, path: string): { handler: Handler, params: Record<string, string> } | null => {
+    const segments = path.split('/').filter(Boolean);
+    for (const [routeMethod, pattern, handler] of routes) {
+      const patternSegments = pattern.split('/').filter(Boolean);
+      if (routeMethod !== method || patternSegments.length !== segments.length) continue;
+      const params: Record<string, string> = {};
+      const matches = patternSegments.every((segment, i) => {
+        if (segment.startsWith(':')) {
+          params[segment.slice(1)] = decodeURIComponent(segments[i]);
+          return true;
+        }
+        return segment === segments[i];
+      });
+      if (matches) return { handler, params };
+    }
+    return null;
+  };
+
+  const respond = (status: number, data: unknown) =>
+    new Response(JSON.stringify(data ?? null), { status, headers: { 'Content-Type': 'application/json' } });
+
+  return async (input, init: RequestInit = {}) => {
+    const url = new URL(typeof input === 'string' ? input : input instanceof URL ? input.href : input.url, 'http://mock.local');
+    const method = (init.method || 'GET').toUpperCase();
+    const path = url.pathname.startsWith(`${basePath}/`) ? url.pathname.slice(basePath.length) : null;
+    const route = path && matchRoute(method, path);
+    if (!route) return respond(404, { message: `No mock route for ${method} ${path ?? url.pathname}` });
+
+    const authorization = new Headers(init.headers).get('Authorization') || '';
+    const token = authorization.replace(/^Bearer /, '');
+    const user = token.startsWith(TOKEN_PREFIX) ? findUser(token.slice(TOKEN_PREFIX.length)) || null : null;
+    try {
+      const body = typeof init.body === 'string' && init.body ? JSON.parse(init.body) : {};
+      return respond(200, clone(route.handler({ params: route.params, body, user })));
+    } catch (error: any) {
+      if (error instanceof MockApiError) return respond(error.status, { message: error.message });
+      return respond(500, { message: error.message || 'Mock API error.' });
+    }
+  };
+};
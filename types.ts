@@ -1,3 +1,5 @@
+import type { EntityStoreSource } from './utils/entityStore';
+
 export enum PlayerPosition {
   FORWARD = 'Forward',
   MIDFIELDER = 'Midfielder',
@@ -38,8 +40,11 @@ export interface Goal {
   scorerId: User;
   assistId?: User;
   minute: number;
+  addedTime?: number; // Stoppage-time minutes, e.g. 2 for a goal at 45+2'
   isOwnGoal: boolean;
+  isPenalty?: boolean;
   teamId: string; // The ID of the team that benefits from the goal
+  createdAt?: string; // Set by the server when the goal is recorded
 }
 
 export enum CardType {
@@ -51,8 +56,32 @@ export interface Card {
   _id?: string;
   playerId: User;
   minute: number;
+  addedTime?: number;
   type: CardType;
   teamId: string;
+  isSecondYellow?: boolean; // A red card given for a second yellow, as opposed to a straight red
+  createdAt?: string;
+}
+
+// Events that don't change the score or a player's availability. Each type needs an
+// entry in MATCH_EVENT_META (utils/matchEvents) to be recorded and displayed.
+export enum MatchEventType {
+  PENALTY_MISSED = 'PenaltyMissed',
+  SHOT_ON_TARGET = 'ShotOnTarget',
+  SAVE = 'Save',
+  INJURY = 'Injury',
+  VAR_OVERTURN = 'VarOverturn',
+}
+
+export interface MatchEvent {
+  _id?: string;
+  type: MatchEventType;
+  teamId: string; // The team of the player involved, e.g. the goalkeeper's team for a save
+  playerId?: User; // Not set for events that don't involve one player, like a VAR overturn
+  minute: number;
+  addedTime?: number;
+  note?: string; // Free text, e.g. the nature of an injury or what a VAR review overturned
+  createdAt?: string;
 }
 
 export enum MatchStatus {
@@ -61,23 +90,185 @@ export enum MatchStatus {
     FINISHED = 'Finished'
 }
 
+export enum MatchPeriod {
+    NOT_STARTED = 'NotStarted',
+    FIRST_HALF = 'FirstHalf',
+    HALF_TIME = 'HalfTime',
+    SECOND_HALF = 'SecondHalf',
+    EXTRA_TIME_BREAK = 'ExtraTimeBreak',
+    EXTRA_TIME_FIRST_HALF = 'ExtraTimeFirstHalf',
+    EXTRA_TIME_HALF_TIME = 'ExtraTimeHalfTime',
+    EXTRA_TIME_SECOND_HALF = 'ExtraTimeSecondHalf',
+    FULL_TIME = 'FullTime',
+}
+
+// The clock is stored on the match itself so every device scoring or
+// watching the match derives the same elapsed time from the same timestamp.
+export interface MatchClock {
+  period: MatchPeriod;
+  periodStartedAt: string | null; // ISO timestamp of the kick-off of the running period
+  stoppageMinutes: number; // Added time announced for the current period
+}
+
+// The minute an event happened, as shown on the timeline (e.g. 45+2').
+export interface EventTime {
+  minute: number;
+  addedTime?: number;
+}
+
+// A correction made to a recorded goal or card after the fact.
+export interface MatchAuditEntry {
+  _id?: string;
+  action: 'edit' | 'delete';
+  eventType: 'goal' | 'card' | 'event';
+  eventId: string;
+  description: string;
+  changedBy: User;
+  createdAt: string;
+}
+
+// Fields that can be corrected on a recorded goal. Omitted fields are left unchanged.
+export interface GoalChanges extends Partial<EventTime> {
+  scorerId?: string;
+  assistId?: string | null; // null removes the assist
+  isOwnGoal?: boolean;
+  isPenalty?: boolean;
+  teamId?: string;
+}
+
+export interface CardChanges extends Partial<EventTime> {
+  playerId?: string;
+  type?: CardType;
+}
+
+// Who a team named for a match. Players who are in neither list did not take part.
+export interface TeamLineup {
+  teamId: string;
+  starters: User[];
+  bench: User[];
+}
+
+// The lineup as sent to the server, by player ID.
+export interface LineupSelection {
+  teamId: string;
+  starterIds: string[];
+  benchIds: string[];
+}
+
+export interface Substitution {
+  _id?: string;
+  teamId: string;
+  playerOffId: User;
+  playerOnId: User;
+  minute: number;
+  addedTime?: number;
+  createdAt?: string;
+}
+
+export type MatchSlot = 'A' | 'B';
+
+// One kick of a penalty shootout, in the order taken.
+export interface ShootoutKick {
+  _id?: string;
+  teamId: string;
+  takerId: User;
+  scored: boolean;
+}
+
 export interface Match {
   _id: string; 
   matchNumber: number;
-  teamAId: Team;
-  teamBId: Team;
+  teamAId: Team | null; // null while waiting for the winner of a feeding knockout match
+  teamBId: Team | null;
   date?: string;
   time?: string;
   scoreA: number;
   scoreB: number;
   penaltyScoreA?: number;
   penaltyScoreB?: number;
+  shootoutKicks?: ShootoutKick[]; // Missing when the shootout result was entered without the kicks
   status: MatchStatus;
   goals: Goal[];
   cards: Card[];
+  events?: MatchEvent[]; // Missing on matches recorded before other event types existed
   round: string; // e.g., "Group Stage", "Quarter-final"
   winnerId?: string | null; // null for a draw
   playerOfTheMatchId?: User;
+  clock?: MatchClock;
+  auditLog?: MatchAuditEntry[];
+  nextMatchId?: string | null; // Knockout fixture the winner advances into
+  nextMatchSlot?: MatchSlot; // Which side of the next fixture the winner takes
+  group?: string; // Name of the group for group stage matches, e.g. "Group A"
+  lineups?: TeamLineup[]; // Missing on matches started before lineups were recorded
+  substitutions?: Substitution[];
+  refereeId?: User | null;
+  scorekeeperId?: User | null; // The only non-organizer allowed to score this match
+}
+
+export enum TournamentFormatType {
+    LEAGUE = 'League',
+    KNOCKOUT = 'Knockout',
+    GROUPS_KNOCKOUT = 'GroupsKnockout',
+    DOUBLE_ROUND_ROBIN = 'DoubleRoundRobin',
+}
+
+export interface TournamentFormat {
+  type: TournamentFormatType;
+  groupCount: number; // Number of groups; only used by GROUPS_KNOCKOUT
+  qualifiersPerGroup: number; // Teams per group (or league table) that reach the knockout stage
+  bestThirdPlacedQualifiers: number; // Best teams finishing just below the qualifying places that also go through
+  extraTime: boolean; // Drawn knockout matches go to extra time
+  penalties: boolean; // Drawn knockout matches are settled by a penalty shootout
+}
+
+export interface TournamentGroup {
+  name: string;
+  teamIds: string[];
+}
+
+export enum TieBreaker {
+    GOAL_DIFFERENCE = 'GoalDifference',
+    GOALS_SCORED = 'GoalsScored',
+    HEAD_TO_HEAD = 'HeadToHead',
+    FAIR_PLAY = 'FairPlay',
+    DRAWING_OF_LOTS = 'DrawingOfLots',
+}
+
+export interface PointsAdjustment {
+  _id?: string;
+  teamId: string;
+  points: number; // Always positive; whether it is added or taken away depends on the list it is in
+  reason: string;
+}
+
+export interface PointsRules {
+  win: number;
+  draw: number;
+  loss: number;
+  tieBreakers: TieBreaker[]; // Applied in order to teams level on points
+  bonusPoints: PointsAdjustment[];
+  deductions: PointsAdjustment[];
+  lotsOrder?: string[]; // Team IDs in the order they were drawn, best first
+}
+
+export interface DisciplineRules {
+  yellowCardThreshold: number; // Yellow cards that add up to a ban; 0 turns accumulation off
+  yellowCardBan: number; // Matches missed after reaching the threshold
+  redCardBan: number; // Matches missed after a red card
+}
+
+// The players a team registered for a tournament. Snapshotted from the team's members when
+// it joins, so later changes to the team don't rewrite the tournament's history.
+export interface TournamentSquad {
+  teamId: string;
+  players: User[];
+  registeredAt?: string;
+}
+
+// Dates are YYYY-MM-DD, both inclusive.
+export interface TransferWindow {
+  opensOn: string;
+  closesOn: string;
 }
 
 export interface Tournament {
@@ -89,8 +280,171 @@ export interface Tournament {
   matches: Match[];
   isSchedulingDone?: boolean;
   inviteCode: string;
+  format?: TournamentFormat;
+  pointsRules?: PointsRules;
+  groups?: TournamentGroup[]; // Set once teams are drawn into groups for a group stage
+  disciplineRules?: DisciplineRules;
+  squads?: TournamentSquad[]; // Missing on tournaments created before squads were registered
+  registrationDeadline?: string | null; // YYYY-MM-DD; squads are open until the end of this day
+  transferWindow?: TransferWindow | null; // When squads can change again after the deadline
+  isPublic?: boolean; // Whether fixtures, table, bracket and leaders can be viewed without logging in
+  organizers?: User[]; // Co-organizers, with the same rights as the admin who created the tournament
+  scorekeepers?: User[]; // Pool of scorekeepers that can be assigned to matches
+  referees?: User[]; // Pool of referees that can be assigned to matches
+}
+
+// Tournament staff besides the admin who created it. Scorekeepers only score the matches they're assigned; referees are assigned but don't score.
+export type TournamentStaffRole = 'organizer' | 'scorekeeper' | 'referee';
+
+export interface MatchOfficials {
+  refereeId: string | null;
+  scorekeeperId: string | null;
+}
+
+// Request bodies for recording match events.
+export interface RecordGoalPayload {
+  scorerId: string;
+  assistId?: string;
+  isOwnGoal?: boolean;
+  isPenalty?: boolean;
+  benefitingTeamId: string;
+  minute?: number;
+  addedTime?: number;
+}
+
+export interface RecordCardPayload {
+  playerId: string;
+  cardType: CardType;
+  teamId: string;
+  isSecondYellow?: boolean;
+  minute?: number;
+  addedTime?: number;
+}
+
+export interface RecordMatchEventPayload {
+  type: MatchEventType;
+  teamId: string;
+  playerId?: string;
+  note?: string;
+  minute?: number;
+  addedTime?: number;
+}
+
+// Other request bodies, as sent by utils/apiClient. Teams, players and matches are referenced by ID.
+export interface TournamentDetails {
+  name?: string;
+  logoUrl?: string | null;
+  format?: TournamentFormat;
+  pointsRules?: PointsRules;
+  groups?: TournamentGroup[];
+  disciplineRules?: DisciplineRules;
+  registrationDeadline?: string | null;
+  transferWindow?: TransferWindow | null;
+  isPublic?: boolean;
+}
+
+export interface NewMatchData {
+  teamAId?: string;
+  teamBId?: string;
+  round: string;
+  group?: string;
+}
+
+export interface MatchDetailsPayload {
+  teamAId?: string;
+  teamBId?: string;
+  date?: string;
+  time?: string;
+  nextMatchId?: string;
+  nextMatchSlot?: MatchSlot;
+}
+
+export interface PenaltyScores {
+  penaltyScoreA: number;
+  penaltyScoreB: number;
+}
+
+// Corrections carry the recomputed scoreline (for goals) and a readable note for the audit log.
+export interface EventDeletion {
+  scoreA?: number;
+  scoreB?: number;
+  auditNote: string;
+}
+
+export interface GoalCorrection extends GoalChanges {
+  scoreA: number;
+  scoreB: number;
+  auditNote: string;
+}
+
+export interface CardCorrection extends CardChanges {
+  auditNote: string;
 }
 
+// A VAR overturn removes the goal or card and records a VAR event in its place, in one request.
+// `note` describes the overturned event for the timeline.
+export interface EventOverturn extends EventDeletion {
+  kind: 'goal' | 'card';
+  eventId: string;
+  note: string;
+  minute?: number;
+  addedTime?: number;
+}
+
+// Response bodies.
+export interface AuthResponse {
+  token: string;
+  user: User;
+}
+
+export interface ActionResult {
+  success: boolean;
+  message: string;
+}
+
+export interface TeamActionResult extends ActionResult {
+  team?: Team;
+}
+
+export interface JoinTournamentResult extends ActionResult {
+  tournamentId?: string;
+}
+
+// A match event recorded while offline, waiting to be replayed to the server.
+export type QueuedMatchEvent = {
+  id?: number;
+  tournamentId: string;
+  matchId: string;
+  queuedAt: string;
+} & (
+  | { kind: 'goal'; payload: RecordGoalPayload }
+  | { kind: 'card'; payload: RecordCardPayload }
+  | { kind: 'event'; payload: RecordMatchEventPayload }
+);
+
+// A queued event the server refused during replay, e.g. because the match was ended elsewhere.
+export interface SyncConflict {
+  event: QueuedMatchEvent;
+  message: string;
+}
+
+// A match change pushed by the server. Every update carries the full, populated match
+// so it can replace the stale copy in place.
+export interface LiveUpdate {
+  type: 'goal' | 'card' | 'event' | 'matchStarted' | 'matchEnded';
+  tournamentId: string;
+  match: Match;
+}
+
+// Short-lived, single-use credential for opening the live updates stream. EventSource can't send
+// headers, so this goes in the stream URL in place of the bearer token.
+export interface LiveStreamTicket {
+  ticket: string;
+  expiresAt: string; // ISO timestamp
+}
+
+export type LiveConnectionStatus = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
 export interface Notification {
   _id: string; 
   userId: string;
@@ -100,42 +454,77 @@ export interface Notification {
   createdAt: string;
 }
 
-// This is the interface for what AppContext provides.
-// It's used by the `useAppContext` hook.
-export interface AppContextType {
+// What AppProvider provides, in two parts so a component can take only what it needs.
+// The state changes as the session does (`useAppState`).
+export interface AppState {
   currentUser: User | null;
-  teams: Team[];
-  tournaments: Tournament[];
   notifications: Notification[];
   isLoading: boolean;
+  isOnline: boolean;
+  liveConnectionStatus: LiveConnectionStatus;
+  pendingEvents: QueuedMatchEvent[];
+  syncConflicts: SyncConflict[];
+  isProfileComplete: () => boolean;
+}
+
+// The actions never change identity, so taking them alone doesn't re-render (`useAppActions`).
+export interface AppActions {
+  entityStore: EntityStoreSource; // The normalized cache of teams and tournaments; read it with the hooks in hooks/useEntities
+  watchTournament: (tournamentId: string) => () => void;
+  dismissSyncConflict: (eventId: number) => void;
   login: (email: string, dob: string) => Promise<void>;
   register: (name: string, email: string, dob: string) => Promise<void>;
   logout: () => void;
-  isProfileComplete: () => boolean;
   updateProfile: (profile: Partial<PlayerProfile>) => Promise<void>;
   createTeam: (name: string, logo: string | null) => Promise<Team>;
   updateTeam: (teamId: string, details: { name?: string, logoUrl?: string | null }) => Promise<void>;
   joinTeam: (code: string) => Promise<Team>;
-  addMemberToTeam: (teamId: string, memberId: string) => Promise<{ success: boolean; message: string; team?: Team }>;
-  removeMemberFromTeam: (teamId: string, memberId: string) => Promise<{ success: boolean; message: string; team?: Team }>;
-  toggleTeamAdmin: (teamId: string, memberId: string) => Promise<{ success: boolean; message: string; team?: Team }>;
-  setTeamRole: (teamId: string, memberId: string, role: 'captain' | 'viceCaptain') => Promise<{ success: boolean; message: string; team?: Team }>;
+  addMemberToTeam: (teamId: string, memberId: string) => Promise<TeamActionResult>;
+  removeMemberFromTeam: (teamId: string, memberId: string) => Promise<TeamActionResult>;
+  toggleTeamAdmin: (teamId: string, memberId: string) => Promise<TeamActionResult>;
+  setTeamRole: (teamId: string, memberId: string, role: 'captain' | 'viceCaptain') => Promise<TeamActionResult>;
   getTeamById: (id: string) => Promise<Team | undefined>;
   getUserById: (id: string) => Promise<User | undefined>;
   createTournament: (name: string, logo: string | null) => Promise<Tournament>;
-  updateTournament: (tournamentId: string, details: { name?: string, logoUrl?: string | null }) => Promise<void>;
+  updateTournament: (tournamentId: string, details: TournamentDetails) => Promise<void>;
   getTournamentById: (id: string) => Promise<Tournament | undefined>;
-  joinTournament: (inviteCode: string, teamId: string) => Promise<{ success: boolean; message: string; tournamentId?: string }>;
-  addTeamToTournament: (tournamentId: string, teamCodeOrId: string) => Promise<{ success: boolean; message: string }>;
-  scheduleMatches: (tournamentId: string) => Promise<void>;
+  loadTournament: (id: string) => Promise<Tournament>;
+  getPublicTournament: (id: string) => Promise<Tournament | undefined>;
+  joinTournament: (inviteCode: string, teamId: string) => Promise<JoinTournamentResult>;
+  addTeamToTournament: (tournamentId: string, teamCodeOrId: string) => Promise<ActionResult>;
+  addTournamentStaff: (tournamentId: string, role: TournamentStaffRole, userId: string) => Promise<ActionResult>;
+  removeTournamentStaff: (tournamentId: string, role: TournamentStaffRole, userId: string) => Promise<void>;
+  assignMatchOfficials: (tournamentId: string, matchId: string, officials: MatchOfficials) => Promise<void>;
+  registerSquadPlayer: (tournamentId: string, teamId: string, playerId: string) => Promise<void>;
+  deregisterSquadPlayer: (tournamentId: string, teamId: string, playerId: string) => Promise<void>;
+  scheduleMatches: (tournamentId: string, format: TournamentFormat) => Promise<void>;
   updateMatchDetails: (tournamentId: string, matchId: string, details: Partial<Pick<Match, 'teamAId' | 'teamBId' | 'date' | 'time'>>) => Promise<void>;
-  addMatchManually: (tournamentId: string, matchData: { teamAId: string, teamBId: string, round: string }) => Promise<void>;
+  addMatchManually: (tournamentId: string, matchData: NewMatchData) => Promise<void>;
   startMatch: (tournamentId: string, matchId: string) => Promise<void>;
-  endMatch: (tournamentId: string, matchId: string, penaltyScores?: { penaltyScoreA: number, penaltyScoreB: number }) => Promise<void>;
-  recordGoal: (tournamentId: string, matchId: string, scorerId: string, benefitingTeamId: string, assistId?: string, isOwnGoal?: boolean) => Promise<void>;
-  recordCard: (tournamentId: string, matchId: string, playerId: string, cardType: CardType, teamId: string) => Promise<void>;
+  recordShootoutKick: (tournamentId: string, matchId: string, teamId: string, takerId: string, scored: boolean) => Promise<void>;
+  deleteShootoutKick: (tournamentId: string, matchId: string, kickId: string) => Promise<void>;
+  endMatch: (tournamentId: string, matchId: string, penaltyScores?: PenaltyScores) => Promise<void>;
+  updateMatchClock: (tournamentId: string, matchId: string, clock: MatchClock) => Promise<void>;
+  setMatchLineups: (tournamentId: string, matchId: string, lineups: LineupSelection[]) => Promise<void>;
+  recordSubstitution: (tournamentId: string, matchId: string, teamId: string, playerOffId: string, playerOnId: string, eventTime?: EventTime) => Promise<void>;
+  recordGoal: (tournamentId: string, matchId: string, scorerId: string, benefitingTeamId: string, assistId?: string, isOwnGoal?: boolean, eventTime?: EventTime, isPenalty?: boolean) => Promise<void>;
+  recordCard: (tournamentId: string, matchId: string, playerId: string, cardType: CardType, teamId: string, eventTime?: EventTime) => Promise<void>;
+  updateGoal: (tournamentId: string, matchId: string, goalId: string, changes: GoalChanges) => Promise<void>;
+  deleteGoal: (tournamentId: string, matchId: string, goalId: string) => Promise<void>;
+  updateCard: (tournamentId: string, matchId: string, cardId: string, changes: CardChanges) => Promise<void>;
+  deleteCard: (tournamentId: string, matchId: string, cardId: string) => Promise<void>;
+  recordMatchEvent: (tournamentId: string, matchId: string, type: MatchEventType, teamId: string, details?: { playerId?: string, note?: string }, eventTime?: EventTime) => Promise<void>;
+  deleteMatchEvent: (tournamentId: string, matchId: string, eventId: string) => Promise<void>;
+  overturnEvent: (tournamentId: string, matchId: string, target: { kind: 'goal' | 'card', eventId: string }, eventTime?: EventTime) => Promise<void>;
   setPlayerOfTheMatch: (tournamentId: string, matchId: string, playerId: string) => Promise<void>;
   createNotification: (userId: string, message: string, link: string) => void;
   markNotificationAsRead: (notificationId: string) => void;
   markAllNotificationsAsRead: () => void;
 }
+
+// Everything together, with every team and tournament; used by the `useAppContext` hook.
+// It re-renders on any change, so pages that show one team or tournament take useAppState, useAppActions and useEntities instead.
+export type AppContextType = AppState & AppActions & {
+  teams: Team[];
+  tournaments: Tournament[];
+};
@@ -0,0 +1,146 @@
+import {
+  PlayerProfile, TournamentStaffRole, MatchOfficials, MatchClock, LineupSelection,
+  RecordGoalPayload, RecordCardPayload, RecordMatchEventPayload, QueuedMatchEvent, TournamentFormat,
+  TournamentDetails, NewMatchData, MatchDetailsPayload, PenaltyScores, EventDeletion, EventOverturn, GoalCorrection, CardCorrection,
+} from '../types';
+import { createMockFetch } from '../mock/mockApi';
+import {
+  ApiValidationError, parseUser, parseTeam, parseTeams, parseTournament, parseTournaments, parseMatch,
+  parseAuthResponse, parseActionResult, parseTeamActionResult, parseJoinTournamentResult, parseLiveStreamTicket,
+} from './apiSchema';
+
+// Base URL of the backend API. Set API_URL to point a build at another environment.
+export const API_URL = process.env.API_URL || "https://asl-backend-inda.onrender.com/api";
+
+// Set USE_MOCK_API to run against the in-memory mock backend (mock/mockApi.ts) with no network.
+export const USE_MOCK_API = !!process.env.USE_MOCK_API;
+
+// Created once so the mock data survives logging in and out.
+const defaultRequest: typeof fetch = USE_MOCK_API ? createMockFetch(API_URL) : (input, init) => fetch(input, init);
+
+type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+// For tournament endpoints whose response the app doesn't use; it refetches the tournament instead.
+const ignoreBody = (): void => undefined;
+
+export interface ApiClientOptions {
+  token: string | null;
+  baseUrl?: string;
+  request?: typeof fetch;
+}
+
+/**
+ * One function per backend endpoint. Requests carry the auth token and a JSON body; a
+ * response that is not ok rejects with the server's message, and one that doesn't match
+ * the expected shape rejects with an ApiValidationError (see apiSchema). Network failures
+ * reject with fetch's TypeError, which the offline queue relies on (see isNetworkError).
+ * Every match endpoint responds with the updated match.
+ */
+export const createApiClient = ({ token, baseUrl = API_URL, request = defaultRequest }: ApiClientOptions) => {
+  const send = async <T>(method: HttpMethod, endpoint: string, parse: (data: unknown) => T, body?: unknown): Promise<T> => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (token) {
+      headers['Authorization'] = `Bearer ${token}`;
+    }
+
+    const response = await request(`${baseUrl}${endpoint}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      // Use the message from the backend error response, or a default.
+      throw new Error(data.message || `API Error: ${response.statusText}`);
+    }
+    try {
+      return parse(data);
+    } catch (error) {
+      if (!(error instanceof ApiValidationError)) throw error;
+      const validationError = new ApiValidationError(error.path, error.issue, `response from ${method} ${endpoint}`);
+      console.error(validationError.message, data);
+      throw validationError;
+    }
+  };
+
+  const tournamentPath = (tournamentId: string) => `/tournaments/${tournamentId}`;
+  const matchPath = (tournamentId: string, matchId: string) => `${tournamentPath(tournamentId)}/matches/${matchId}`;
+
+  const matches = {
+    getById: (tournamentId: string, matchId: string) => send('GET', matchPath(tournamentId, matchId), parseMatch),
+    create: (tournamentId: string, data: NewMatchData) => send('POST', `${tournamentPath(tournamentId)}/matches`, parseMatch, data),
+    update: (tournamentId: string, matchId: string, details: MatchDetailsPayload) => send('PUT', matchPath(tournamentId, matchId), parseMatch, details),
+    assignOfficials: (tournamentId: string, matchId: string, officials: MatchOfficials) => send('PUT', `${matchPath(tournamentId, matchId)}/officials`, parseMatch, officials),
+    start: (tournamentId: string, matchId: string) => send('PUT', `${matchPath(tournamentId, matchId)}/start`, parseMatch),
+    end: (tournamentId: string, matchId: string, penaltyScores?: PenaltyScores) => send('PUT', `${matchPath(tournamentId, matchId)}/end`, parseMatch, { penaltyScores }),
+    updateClock: (tournamentId: string, matchId: string, clock: MatchClock) => send('PUT', `${matchPath(tournamentId, matchId)}/clock`, parseMatch, clock),
+    setLineups: (tournamentId: string, matchId: string, lineups: LineupSelection[]) => send('PUT', `${matchPath(tournamentId, matchId)}/lineups`, parseMatch, { lineups }),
+    recordSubstitution: (tournamentId: string, matchId: string, substitution: { teamId: string, playerOffId: string, playerOnId: string, minute?: number, addedTime?: number }) =>
+      send('POST', `${matchPath(tournamentId, matchId)}/substitutions`, parseMatch, substitution),
+    recordShootoutKick: (tournamentId: string, matchId: string, kick: { teamId: string, takerId: string, scored: boolean }) =>
+      send('POST', `${matchPath(tournamentId, matchId)}/shootout`, parseMatch, kick),
+    deleteShootoutKick: (tournamentId: string, matchId: string, kickId: string) => send('DELETE', `${matchPath(tournamentId, matchId)}/shootout/${kickId}`, parseMatch),
+    recordGoal: (tournamentId: string, matchId: string, payload: RecordGoalPayload) => send('POST', `${matchPath(tournamentId, matchId)}/goals`, parseMatch, payload),
+    updateGoal: (tournamentId: string, matchId: string, goalId: string, correction: GoalCorrection) => send('PUT', `${matchPath(tournamentId, matchId)}/goals/${goalId}`, parseMatch, correction),
+    deleteGoal: (tournamentId: string, matchId: string, goalId: string, deletion: EventDeletion) => send('DELETE', `${matchPath(tournamentId, matchId)}/goals/${goalId}`, parseMatch, deletion),
+    recordCard: (tournamentId: string, matchId: string, payload: RecordCardPayload) => send('POST', `${matchPath(tournamentId, matchId)}/cards`, parseMatch, payload),
+    updateCard: (tournamentId: string, matchId: string, cardId: string, correction: CardCorrection) => send('PUT', `${matchPath(tournamentId, matchId)}/cards/${cardId}`, parseMatch, correction),
+    deleteCard: (tournamentId: string, matchId: string, cardId: string, deletion: EventDeletion) => send('DELETE', `${matchPath(tournamentId, matchId)}/cards/${cardId}`, parseMatch, deletion),
+    recordEvent: (tournamentId: string, matchId: string, payload: RecordMatchEventPayload) => send('POST', `${matchPath(tournamentId, matchId)}/events`, parseMatch, payload),
+    deleteEvent: (tournamentId: string, matchId: string, eventId: string, deletion: EventDeletion) => send('DELETE', `${matchPath(tournamentId, matchId)}/events/${eventId}`, parseMatch, deletion),
+    overturnEvent: (tournamentId: string, matchId: string, overturn: EventOverturn) => send('POST', `${matchPath(tournamentId, matchId)}/overturns`, parseMatch, overturn),
+    setPlayerOfTheMatch: (tournamentId: string, matchId: string, playerId: string) => send('PUT', `${matchPath(tournamentId, matchId)}/potm`, parseMatch, { playerId }),
+  };
+
+  return {
+    auth: {
+      login: (email: string, dob: string) => send('POST', '/auth/login', parseAuthResponse, { email, dob }),
+      register: (name: string, email: string, dob: string) => send('POST', '/auth/register', parseAuthResponse, { name, email, dob }),
+    },
+    users: {
+      getProfile: () => send('GET', '/users/profile', parseUser),
+      updateProfile: (profile: Partial<PlayerProfile>) => send('PUT', '/users/profile', parseUser, profile),
+      getById: (id: string) => send('GET', `/users/${id}`, parseUser),
+    },
+    teams: {
+      list: () => send('GET', '/teams', parseTeams),
+      create: (name: string, logoUrl: string | null) => send('POST', '/teams', parseTeam, { name, logoUrl }),
+      update: (teamId: string, details: { name?: string, logoUrl?: string | null }) => send('PUT', `/teams/${teamId}`, parseTeam, details),
+      join: (code: string) => send('POST', '/teams/join', parseTeam, { code }),
+      getById: (id: string) => send('GET', `/teams/${id}`, parseTeam),
+      addMember: (teamId: string, memberId: string) => send('POST', `/teams/${teamId}/members`, parseTeamActionResult, { memberId }),
+      removeMember: (teamId: string, memberId: string) => send('DELETE', `/teams/${teamId}/members/${memberId}`, parseTeamActionResult),
+      toggleAdmin: (teamId: string, memberId: string) => send('PUT', `/teams/${teamId}/admins/${memberId}`, parseTeamActionResult),
+      setRole: (teamId: string, memberId: string, role: 'captain' | 'viceCaptain') => send('PUT', `/teams/${teamId}/roles`, parseTeamActionResult, { memberId, role }),
+    },
+    tournaments: {
+      list: () => send('GET', '/tournaments', parseTournaments),
+      create: (name: string, logoUrl: string | null) => send('POST', '/tournaments', parseTournament, { name, logoUrl }),
+      update: (tournamentId: string, details: TournamentDetails) => send('PUT', tournamentPath(tournamentId), parseTournament, details),
+      getById: (id: string) => send('GET', tournamentPath(id), parseTournament),
+      getPublic: (id: string) => send('GET', `/public/tournaments/${id}`, parseTournament),
+      join: (inviteCode: string, teamId: string) => send('POST', '/tournaments/join', parseJoinTournamentResult, { inviteCode, teamId }),
+      addTeam: (tournamentId: string, teamCodeOrId: string) => send('POST', `${tournamentPath(tournamentId)}/teams`, parseActionResult, { teamCodeOrId }),
+      addStaff: (tournamentId: string, role: TournamentStaffRole, userId: string) => send('POST', `${tournamentPath(tournamentId)}/staff`, parseActionResult, { role, userId }),
+      removeStaff: (tournamentId: string, role: TournamentStaffRole, userId: string) => send('DELETE', `${tournamentPath(tournamentId)}/staff/${role}/${userId}`, ignoreBody),
+      registerSquadPlayer: (tournamentId: string, teamId: string, playerId: string) => send('POST', `${tournamentPath(tournamentId)}/squads/${teamId}/players`, ignoreBody, { playerId }),
+      deregisterSquadPlayer: (tournamentId: string, teamId: string, playerId: string) => send('DELETE', `${tournamentPath(tournamentId)}/squads/${teamId}/players/${playerId}`, ignoreBody),
+      schedule: (tournamentId: string, format: TournamentFormat) => send('POST', `${tournamentPath(tournamentId)}/schedule`, ignoreBody, { format }),
+    },
+    matches,
+    live: {
+      createTicket: () => send('POST', '/live/tickets', parseLiveStreamTicket),
+    },
+    // Sends a goal, card or event that was recorded offline, using the same endpoint as when online.
+    sendQueuedEvent: (event: QueuedMatchEvent) => {
+      switch (event.kind) {
+        case 'goal': return matches.recordGoal(event.tournamentId, event.matchId, event.payload);
+        case 'card': return matches.recordCard(event.tournamentId, event.matchId, event.payload);
+        case 'event': return matches.recordEvent(event.tournamentId, event.matchId, event.payload);
+      }
+    },
+  };
+};
+
+export type ApiClient = ReturnType<typeof createApiClient>;
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { ApiValidationError, isBareRef, parseMatch, parseTournament } from './apiSchema';
+
+const user = (id: string) => ({ _id: id, profile: { name: id } });
+const team = (id: string, members: unknown[]) => ({ _id: id, name: id, members, adminIds: members.slice(0, 1) });
+const match = (scorerId: unknown) => ({
+  _id: 'match',
+  matchNumber: 1,
+  status: 'Live',
+  teamAId: 'home',
+  teamBId: null,
+  goals: [{ scorerId, teamId: 'home', minute: 10 }],
+});
+
+describe('bare ID references', () => {
+  it('resolves them against the rest of a tournament response', () => {
+    const tournament = parseTournament({ _id: 'tournament', name: 'Cup', adminId: 'organizer', teams: [team('home', [user('striker')])], matches: [match('striker')] });
+    expect(tournament.matches[0].teamAId).toBe(tournament.teams[0]);
+    expect(tournament.matches[0].goals[0].scorerId).toEqual(tournament.teams[0].members[0]);
+  });
+
+  it('rejects ones a tournament response leaves unresolved', () => {
+    const response = { _id: 'tournament', name: 'Cup', adminId: 'organizer', teams: [team('home', [user('striker')])], matches: [match('stranger')] };
+    expect(() => parseTournament(response)).toThrow(ApiValidationError);
+    expect(() => parseTournament(response)).toThrow('matches[0].goals[0].scorerId: unknown user "stranger"');
+  });
+
+  it('keeps them as bare references in a single match, for the entity store to resolve', () => {
+    const parsed = parseMatch(match('striker'));
+    expect(parsed.teamAId).toEqual({ _id: 'home' });
+    expect(isBareRef(parsed.goals[0].scorerId)).toBe(true);
+    expect(isBareRef(parseMatch(match(user('striker'))).goals[0].scorerId)).toBe(false);
+  });
+});
@@ -0,0 +1,292 @@
+import { User, Team, Match, Tournament, MatchStatus, CardType, LiveUpdate, LiveStreamTicket, AuthResponse, ActionResult, TeamActionResult, JoinTournamentResult } from '../types';
+
+/**
+ * Validates API responses and normalizes their references, which the backend sometimes
+ * populates and sometimes leaves as bare IDs. After parsing, user and team references are
+ * always objects and team, match and tournament references in ID fields are always strings.
+ * A bare ID is resolved against the users and teams elsewhere in the same response. Single
+ * matches seldom carry them, so there an unresolved ID is kept as a bare `{ _id }` reference
+ * for the entity store to resolve (see upsertMatch); anywhere else it is rejected.
+ */
+export class ApiValidationError extends Error {
+  constructor(public path: string, public issue: string, source = 'API response') {
+    super(`Invalid ${source} at ${path || 'the top level'}: ${issue}`);
+    this.name = 'ApiValidationError';
+  }
+}
+
+type Parser<T> = (value: unknown, path: string, directory: Directory) => T;
+
+// Users and teams seen so far in a response, for resolving bare ID references to them.
+interface Directory {
+  users: Map<string, User>;
+  teams: Map<string, Team>;
+  keepsBareRefs: boolean; // Whether IDs it can't resolve are left to the caller
+}
+
+const createDirectory = (keepsBareRefs = false): Directory => ({ users: new Map(), teams: new Map(), keepsBareRefs });
+
+const describe = (value: unknown): string => {
+  if (value === undefined) return 'nothing';
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'string') return `"${value.length > 40 ? `${value.slice(0, 40)}…` : value}"`;
+  return typeof value === 'object' ? 'an object' : `${typeof value} ${String(value)}`;
+};
+
+const fail = (path: string, expected: string, value: unknown): never => {
+  throw new ApiValidationError(path, `expected ${expected}, got ${describe(value)}`);
+};
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const expectRecord = (value: unknown, path: string, expected: string): Record<string, any> =>
+  isRecord(value) ? value : fail(path, expected, value);
+
+const expectString = (value: unknown, path: string): string =>
+  typeof value === 'string' ? value : fail(path, 'a string', value);
+
+const expectNumber = (value: unknown, path: string): number =>
+  typeof value === 'number' && !Number.isNaN(value) ? value : fail(path, 'a number', value);
+
+// Missing lists are treated as empty, as the components already do with `|| []`.
+const parseArray = <T>(value: unknown, path: string, directory: Directory, parseItem: Parser<T>): T[] => {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) return fail(path, 'an array', value);
+  return value.map((item, i) => parseItem(item, `${path}[${i}]`, directory));
+};
+
+const parseOptional = <T>(value: unknown, path: string, directory: Directory, parse: Parser<T>): T | undefined =>
+  value === undefined || value === null ? undefined : parse(value, path, directory);
+
+const withPath = (path: string, key: string) => path ? `${path}.${key}` : key;
+
+// --- References ---
+const parseId = (value: unknown, path: string): string => {
+  if (typeof value === 'string') return value;
+  if (isRecord(value) && typeof value._id === 'string') return value._id;
+  return fail(path, 'an ID or an object with an _id', value);
+};
+
+const parseOptionalId = (value: unknown, path: string): string | null | undefined =>
+  value === undefined || value === null ? value as null | undefined : parseId(value, path);
+
+// A user or team known only by its ID. Parsed records always have more fields than that.
+export const isBareRef = (ref: { _id: string } | null | undefined): boolean => !!ref && Object.keys(ref).length === 1;
+
+const bareRef = <T>(id: string, path: string, directory: Directory, kind: string): T => {
+  if (!directory.keepsBareRefs) throw new ApiValidationError(path, `unknown ${kind} "${id}"`);
+  return { _id: id } as T;
+};
+
+const parseUserRef: Parser<User> = (value, path, directory) =>
+  typeof value === 'string' ? directory.users.get(value) || bareRef(value, path, directory, 'user') : parseUserRecord(value, path, directory);
+
+const parseTeamRef: Parser<Team> = (value, path, directory) =>
+  typeof value === 'string' ? directory.teams.get(value) || bareRef(value, path, directory, 'team') : parseTeamRecord(value, path, directory);
+
+// --- Records ---
+const parseUserRecord: Parser<User> = (value, path, directory) => {
+  const raw = expectRecord(value, path, 'a user or user ID');
+  const profile = expectRecord(raw.profile, withPath(path, 'profile'), 'a profile object');
+  const user: User = {
+    ...raw,
+    _id: expectString(raw._id, withPath(path, '_id')),
+    email: typeof raw.email === 'string' ? raw.email : '',
+    dob: typeof raw.dob === 'string' ? raw.dob : '',
+    profile: {
+      ...profile,
+      name: expectString(profile.name, withPath(path, 'profile.name')),
+      age: typeof profile.age === 'number' ? profile.age : null,
+      position: profile.position || null,
+      imageUrl: profile.imageUrl || null,
+    },
+  };
+  directory.users.set(user._id, user);
+  return user;
+};
+
+const parseTeamRecord: Parser<Team> = (value, path, directory) => {
+  const raw = expectRecord(value, path, 'a team or team ID');
+  // Members first, so admins and captains given by ID resolve to them.
+  const members = parseArray(raw.members, withPath(path, 'members'), directory, parseUserRef);
+  const team: Team = {
+    ...raw,
+    _id: expectString(raw._id, withPath(path, '_id')),
+    name: expectString(raw.name, withPath(path, 'name')),
+    logoUrl: raw.logoUrl || null,
+    adminIds: parseArray(raw.adminIds, withPath(path, 'adminIds'), directory, parseUserRef),
+    members,
+    captainId: parseOptional(raw.captainId, withPath(path, 'captainId'), directory, parseUserRef),
+    viceCaptainId: parseOptional(raw.viceCaptainId, withPath(path, 'viceCaptainId'), directory, parseUserRef),
+    inviteCode: typeof raw.inviteCode === 'string' ? raw.inviteCode : '',
+  };
+  directory.teams.set(team._id, team);
+  return team;
+};
+
+// Goals, cards and other timeline entries share a minute and the ID of the team involved.
+const parseTimelineEntry = (value: unknown, path: string, expected: string): Record<string, any> => {
+  const raw = expectRecord(value, path, expected);
+  return {
+    ...raw,
+    minute: raw.minute === undefined ? 0 : expectNumber(raw.minute, withPath(path, 'minute')),
+    teamId: parseId(raw.teamId, withPath(path, 'teamId')),
+  };
+};
+
+const parseMatchRecord: Parser<Match> = (value, path, directory) => {
+  const raw = expectRecord(value, path, 'a match');
+  const at = (key: string) => withPath(path, key);
+  const status = raw.status;
+  if (!Object.values(MatchStatus).includes(status)) fail(at('status'), `one of ${Object.values(MatchStatus).join(', ')}`, status);
+
+  return {
+    ...raw,
+    _id: expectString(raw._id, at('_id')),
+    matchNumber: expectNumber(raw.matchNumber, at('matchNumber')),
+    teamAId: parseOptional(raw.teamAId, at('teamAId'), directory, parseTeamRef) || null,
+    teamBId: parseOptional(raw.teamBId, at('teamBId'), directory, parseTeamRef) || null,
+    scoreA: raw.scoreA === undefined ? 0 : expectNumber(raw.scoreA, at('scoreA')),
+    scoreB: raw.scoreB === undefined ? 0 : expectNumber(raw.scoreB, at('scoreB')),
+    status,
+    round: typeof raw.round === 'string' ? raw.round : '',
+    goals: parseArray(raw.goals, at('goals'), directory, (goal, goalPath) => {
+      const entry = parseTimelineEntry(goal, goalPath, 'a goal');
+      return {
+        ...entry,
+        scorerId: parseUserRef(entry.scorerId, withPath(goalPath, 'scorerId'), directory),
+        assistId: parseOptional(entry.assistId, withPath(goalPath, 'assistId'), directory, parseUserRef),
+        isOwnGoal: !!entry.isOwnGoal,
+      };
+    }),
+    cards: parseArray(raw.cards, at('cards'), directory, (card, cardPath) => {
+      const entry = parseTimelineEntry(card, cardPath, 'a card');
+      if (!Object.values(CardType).includes(entry.type)) fail(withPath(cardPath, 'type'), 'Yellow or Red', entry.type);
+      return { ...entry, type: entry.type, playerId: parseUserRef(entry.playerId, withPath(cardPath, 'playerId'), directory) };
+    }),
+    events: raw.events === undefined ? undefined : parseArray(raw.events, at('events'), directory, (event, eventPath) => {
+      const entry = parseTimelineEntry(event, eventPath, 'a match event');
+      return { ...entry, type: entry.type, playerId: parseOptional(entry.playerId, withPath(eventPath, 'playerId'), directory, parseUserRef) };
+    }),
+    shootoutKicks: raw.shootoutKicks === undefined ? undefined : parseArray(raw.shootoutKicks, at('shootoutKicks'), directory, (kick, kickPath) => {
+      const entry = expectRecord(kick, kickPath, 'a shootout kick');
+      return { ...entry, teamId: parseId(entry.teamId, withPath(kickPath, 'teamId')), takerId: parseUserRef(entry.takerId, withPath(kickPath, 'takerId'), directory), scored: !!entry.scored };
+    }),
+    lineups: raw.lineups === undefined ? undefined : parseArray(raw.lineups, at('lineups'), directory, (lineup, lineupPath) => {
+      const entry = expectRecord(lineup, lineupPath, 'a lineup');
+      return {
+        teamId: parseId(entry.teamId, withPath(lineupPath, 'teamId')),
+        starters: parseArray(entry.starters, withPath(lineupPath, 'starters'), directory, parseUserRef),
+        bench: parseArray(entry.bench, withPath(lineupPath, 'bench'), directory, parseUserRef),
+      };
+    }),
+    substitutions: raw.substitutions === undefined ? undefined : parseArray(raw.substitutions, at('substitutions'), directory, (sub, subPath) => {
+      const entry = parseTimelineEntry(sub, subPath, 'a substitution');
+      return {
+        ...entry,
+        playerOffId: parseUserRef(entry.playerOffId, withPath(subPath, 'playerOffId'), directory),
+        playerOnId: parseUserRef(entry.playerOnId, withPath(subPath, 'playerOnId'), directory),
+      };
+    }),
+    auditLog: raw.auditLog === undefined ? undefined : parseArray(raw.auditLog, at('auditLog'), directory, (audit, auditPath) => {
+      const entry = expectRecord(audit, auditPath, 'an audit entry');
+      return { ...entry, changedBy: parseUserRef(entry.changedBy, withPath(auditPath, 'changedBy'), directory) };
+    }),
+    winnerId: parseOptionalId(raw.winnerId, at('winnerId')),
+    nextMatchId: parseOptionalId(raw.nextMatchId, at('nextMatchId')),
+    playerOfTheMatchId: parseOptional(raw.playerOfTheMatchId, at('playerOfTheMatchId'), directory, parseUserRef),
+    refereeId: parseOptional(raw.refereeId, at('refereeId'), directory, parseUserRef) || null,
+    scorekeeperId: parseOptional(raw.scorekeeperId, at('scorekeeperId'), directory, parseUserRef) || null,
+  } as Match;
+};
+
+// Teams, squads and staff are parsed before the matches, so that bare IDs in the
+// matches resolve to the people and teams listed on the tournament.
+const parseTournamentRecord: Parser<Tournament> = (value, path, directory) => {
+  const raw = expectRecord(value, path, 'a tournament');
+  const at = (key: string) => withPath(path, key);
+  const teams = parseArray(raw.teams, at('teams'), directory, parseTeamRef);
+  const squads = raw.squads === undefined ? undefined : parseArray(raw.squads, at('squads'), directory, (squad, squadPath) => {
+    const entry = expectRecord(squad, squadPath, 'a squad');
+    return { ...entry, teamId: parseId(entry.teamId, withPath(squadPath, 'teamId')), players: parseArray(entry.players, withPath(squadPath, 'players'), directory, parseUserRef) };
+  });
+  const organizers = parseArray(raw.organizers, at('organizers'), directory, parseUserRef);
+  const scorekeepers = parseArray(raw.scorekeepers, at('scorekeepers'), directory, parseUserRef);
+  const referees = parseArray(raw.referees, at('referees'), directory, parseUserRef);
+
+  return {
+    ...raw,
+    _id: expectString(raw._id, at('_id')),
+    name: expectString(raw.name, at('name')),
+    logoUrl: raw.logoUrl || null,
+    adminId: parseId(raw.adminId, at('adminId')),
+    inviteCode: typeof raw.inviteCode === 'string' ? raw.inviteCode : '',
+    teams,
+    matches: parseArray(raw.matches, at('matches'), directory, parseMatchRecord),
+    groups: raw.groups === undefined ? undefined : parseArray(raw.groups, at('groups'), directory, (group, groupPath) => {
+      const entry = expectRecord(group, groupPath, 'a group');
+      return { name: expectString(entry.name, withPath(groupPath, 'name')), teamIds: parseArray(entry.teamIds, withPath(groupPath, 'teamIds'), directory, parseId) };
+    }),
+    squads,
+    organizers,
+    scorekeepers,
+    referees,
+  } as Tournament;
+};
+
+// A list response keeps its valid entries; a malformed one is reported and left out
+// rather than failing the whole list.
+const parseList = <T>(parseItem: Parser<T>, label: string) => (value: unknown): T[] => {
+  if (!Array.isArray(value)) return fail('', `a list of ${label}`, value);
+  return value.flatMap((item, i) => {
+    try {
+      return [parseItem(item, `[${i}]`, createDirectory())];
+    } catch (error) {
+      if (!(error instanceof ApiValidationError)) throw error;
+      console.error(`Skipping malformed entry in a list of ${label}:`, error.message, item);
+      return [];
+    }
+  });
+};
+
+const toResult = (raw: Record<string, any>): ActionResult =>
+  ({ ...raw, success: !!raw.success, message: typeof raw.message === 'string' ? raw.message : '' });
+
+const parseResult = (value: unknown): ActionResult => toResult(expectRecord(value, '', 'a result object'));
+
+// --- Parsers for each response type ---
+export const parseUser = (value: unknown): User => parseUserRecord(value, '', createDirectory());
+export const parseTeam = (value: unknown): Team => parseTeamRecord(value, '', createDirectory());
+export const parseTeams = parseList(parseTeamRecord, 'teams');
+export const parseTournament = (value: unknown): Tournament => parseTournamentRecord(value, '', createDirectory());
+export const parseTournaments = parseList(parseTournamentRecord, 'tournaments');
+export const parseMatch = (value: unknown): Match => parseMatchRecord(value, '', createDirectory(true));
+
+export const parseAuthResponse = (value: unknown): AuthResponse => {
+  const raw = expectRecord(value, '', 'a login response');
+  return { token: expectString(raw.token, 'token'), user: parseUserRecord(raw.user, 'user', createDirectory()) };
+};
+
+export const parseActionResult = parseResult;
+
+export const parseTeamActionResult = (value: unknown): TeamActionResult => {
+  const raw = expectRecord(value, '', 'a result object');
+  return { ...toResult(raw), team: parseOptional(raw.team, 'team', createDirectory(), parseTeamRecord) };
+};
+
+export const parseJoinTournamentResult = (value: unknown): JoinTournamentResult => {
+  const raw = expectRecord(value, '', 'a result object');
+  return { ...toResult(raw), tournamentId: parseOptionalId(raw.tournamentId, 'tournamentId') || undefined };
+};
+
+export const parseLiveStreamTicket = (value: unknown): LiveStreamTicket => {
+  const raw = expectRecord(value, '', 'a stream ticket');
+  return { ticket: expectString(raw.ticket, 'ticket'), expiresAt: expectString(raw.expiresAt, 'expiresAt') };
+};
+
+export const parseLiveUpdate = (value: unknown): LiveUpdate => {
+  const raw = expectRecord(value, '', 'a live update');
+  return { ...raw, tournamentId: parseId(raw.tournamentId, 'tournamentId'), match: parseMatchRecord(raw.match, 'match', createDirectory(true)) } as LiveUpdate;
+};
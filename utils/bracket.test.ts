@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { Match, MatchStatus, TournamentFormatType } from '../types';
+import { buildBracket, getAdvancementLinks, getMatchWinnerId } from './bracket';
+import { buildMatch, buildTeam } from './testFixtures';
+import { DEFAULT_TOURNAMENT_FORMAT } from './tournamentFormat';
+
+const KNOCKOUT = { ...DEFAULT_TOURNAMENT_FORMAT, type: TournamentFormatType.KNOCKOUT };
+const [north, south, east, west] = ['north', 'south', 'east', 'west'].map(id => buildTeam(id));
+
+const semiFinal = (matchNumber: number, overrides: Partial<Match> = {}): Match => buildMatch({
+  _id: `semi-${matchNumber}`,
+  matchNumber,
+  round: 'Semi-Final',
+  teamAId: matchNumber === 1 ? north : east,
+  teamBId: matchNumber === 1 ? south : west,
+  ...overrides,
+});
+
+const final = (overrides: Partial<Match> = {}): Match => buildMatch({ _id: 'final', matchNumber: 3, round: 'Final', ...overrides });
+
+describe('getMatchWinnerId', () => {
+  it('only names a winner once the match is finished', () => {
+    expect(getMatchWinnerId(semiFinal(1, { status: MatchStatus.LIVE, scoreA: 2, winnerId: 'north' }))).toBeNull();
+    expect(getMatchWinnerId(semiFinal(1, { status: MatchStatus.FINISHED, scoreA: 2, winnerId: 'north' }))).toBe('north');
+  });
+
+  it('settles a level match on penalties', () => {
+    const level = { status: MatchStatus.FINISHED, scoreA: 1, scoreB: 1 };
+    expect(getMatchWinnerId(semiFinal(1, { ...level, penaltyScoreA: 3, penaltyScoreB: 4 }))).toBe('south');
+    expect(getMatchWinnerId(semiFinal(1, { ...level, penaltyScoreA: 5, penaltyScoreB: 4 }))).toBe('north');
+    expect(getMatchWinnerId(semiFinal(1, { ...level, penaltyScoreA: 4, penaltyScoreB: 4 }))).toBeNull();
+    expect(getMatchWinnerId(semiFinal(1, level))).toBeNull();
+  });
+});
+
+describe('buildBracket', () => {
+  it('pads the rounds still to come and fills them as feeders are decided', () => {
+    const [semis, finals] = buildBracket([
+      semiFinal(1, { status: MatchStatus.FINISHED, penaltyScoreA: 2, penaltyScoreB: 4 }),
+      semiFinal(2),
+    ], KNOCKOUT);
+    expect(semis.slots.map(s => s.key)).toEqual(['semi-1', 'semi-2']);
+    expect(finals.name).toBe('Final');
+    expect(finals.slots[0]).toMatchObject({
+      key: 'Final-0',
+      match: null,
+      sideA: { team: south, feederMatchId: 'semi-1' },
+      sideB: { team: null, placeholder: 'Winner of Match #2', feederMatchId: 'semi-2' },
+    });
+  });
+
+  it('leaves out league matches outside a knockout format', () => {
+    expect(buildBracket([buildMatch()], DEFAULT_TOURNAMENT_FORMAT)).toEqual([]);
+    expect(buildBracket([buildMatch(), final()], DEFAULT_TOURNAMENT_FORMAT).map(r => r.name)).toEqual(['Final']);
+  });
+});
+
+describe('getAdvancementLinks', () => {
+  it('links each semi-final to its side of the final', () => {
+    expect(getAdvancementLinks([semiFinal(1), semiFinal(2), final()], KNOCKOUT)).toEqual([
+      { matchId: 'semi-1', nextMatchId: 'final', nextMatchSlot: 'A' },
+      { matchId: 'semi-2', nextMatchId: 'final', nextMatchSlot: 'B' },
+    ]);
+  });
+
+  it('skips links that are already stored and fixes ones that are out of date', () => {
+    const matches = [
+      semiFinal(1, { nextMatchId: 'final', nextMatchSlot: 'A' }),
+      semiFinal(2, { nextMatchId: 'final', nextMatchSlot: 'A' }),
+      final(),
+    ];
+    expect(getAdvancementLinks(matches, KNOCKOUT)).toEqual([{ matchId: 'semi-2', nextMatchId: 'final', nextMatchSlot: 'B' }]);
+  });
+
+  it('has nothing to link until the next round has a fixture', () => {
+    expect(getAdvancementLinks([semiFinal(1), semiFinal(2)], KNOCKOUT)).toEqual([]);
+  });
+});
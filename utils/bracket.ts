@@ -0,0 +1,141 @@
+import { Match, MatchSlot, MatchStatus, Team, TournamentFormat } from '../types';
+import { isKnockoutMatch, KNOCKOUT_ROUNDS } from './tournamentFormat';
+
+// Rounds that halve the field each time. The Eliminator is a one-off play-off,
+// so it gets its own column but no feeder links.
+const TREE_ROUNDS = ['Round of 16', 'Quarter-Final', 'Semi-Final', 'Final'];
+
+export interface BracketSide {
+  team: Team | null;
+  placeholder: string; // Shown while the team is not known yet
+  feederMatchId?: string; // Match whose winner takes this side
+}
+
+export interface BracketSlot {
+  key: string;
+  round: string;
+  match: Match | null; // null until the fixture has been created
+  sideA: BracketSide;
+  sideB: BracketSide;
+  winnerId: string | null;
+}
+
+export interface BracketRound {
+  name: string;
+  slots: BracketSlot[];
+}
+
+export interface AdvancementLink {
+  matchId: string;
+  nextMatchId: string;
+  nextMatchSlot: MatchSlot;
+}
+
+// The winner of a finished match, including knockout ties settled on penalties.
+export const getMatchWinnerId = (match: Match): string | null => {
+  if (match.status !== MatchStatus.FINISHED) return null;
+  if (match.winnerId) return match.winnerId;
+  if (typeof match.penaltyScoreA === 'number' && typeof match.penaltyScoreB === 'number' && match.penaltyScoreA !== match.penaltyScoreB) {
+    return (match.penaltyScoreA > match.penaltyScoreB ? match.teamAId?._id : match.teamBId?._id) || null;
+  }
+  return null;
+};
+
+const getWinningTeam = (slot: BracketSlot): Team | null => {
+  if (!slot.winnerId) return null;
+  if (slot.sideA.team?._id === slot.winnerId) return slot.sideA.team;
+  if (slot.sideB.team?._id === slot.winnerId) return slot.sideB.team;
+  return null;
+};
+
+const describeFeeder = (feeder: BracketSlot | undefined): BracketSide => {
+  if (!feeder) return { team: null, placeholder: 'TBD' };
+  const winner = getWinningTeam(feeder);
+  if (winner) return { team: winner, placeholder: winner.name };
+  return { team: null, placeholder: feeder.match ? `Winner of Match #${feeder.match.matchNumber}` : 'TBD' };
+};
+
+const compareRounds = (a: string, b: string): number => {
+  const rank = (round: string) => {
+    const index = KNOCKOUT_ROUNDS.indexOf(round);
+    return index === -1 ? -1 : index; // Unnamed rounds of a pure knockout come first
+  };
+  return rank(a) - rank(b);
+};
+
+/**
+ * Lays the knockout matches out as a tree. Rounds after the earliest one are padded
+ * with empty slots so the full path to the Final is visible, and each empty side
+ * shows the winner of the match that feeds it once that match is decided.
+ */
+export const buildBracket = (matches: Match[], format: TournamentFormat): BracketRound[] => {
+  const knockoutMatches = matches
+    .filter(m => isKnockoutMatch(m, format))
+    .sort((a, b) => a.matchNumber - b.matchNumber);
+  if (knockoutMatches.length === 0) return [];
+
+  const roundNames = [...new Set(knockoutMatches.map(m => m.round))].sort(compareRounds);
+  const firstTreeRound = TREE_ROUNDS.findIndex(r => roundNames.includes(r));
+  if (firstTreeRound !== -1) {
+    // Pad out the rest of the tree so rounds without fixtures still show up.
+    TREE_ROUNDS.slice(firstTreeRound).forEach(r => {
+      if (!roundNames.includes(r)) roundNames.push(r);
+    });
+    roundNames.sort(compareRounds);
+  }
+
+  const rounds: BracketRound[] = [];
+  let previousTreeRound: BracketRound | null = null;
+  roundNames.forEach(name => {
+    const roundMatches = knockoutMatches.filter(m => m.round === name);
+    const isTreeRound = TREE_ROUNDS.includes(name);
+    const expectedSlots = isTreeRound && previousTreeRound
+      ? Math.max(roundMatches.length, Math.ceil(previousTreeRound.slots.length / 2))
+      : roundMatches.length;
+
+    const slots: BracketSlot[] = [];
+    for (let i = 0; i < expectedSlots; i++) {
+      const match = roundMatches[i] || null;
+      const feederA = isTreeRound ? previousTreeRound?.slots[i * 2] : undefined;
+      const feederB = isTreeRound ? previousTreeRound?.slots[i * 2 + 1] : undefined;
+      const sideA: BracketSide = {
+        ...(match?.teamAId ? { team: match.teamAId, placeholder: match.teamAId.name } : describeFeeder(feederA)),
+        feederMatchId: feederA?.match?._id,
+      };
+      const sideB: BracketSide = {
+        ...(match?.teamBId ? { team: match.teamBId, placeholder: match.teamBId.name } : describeFeeder(feederB)),
+        feederMatchId: feederB?.match?._id,
+      };
+      slots.push({
+        key: match?._id || `${name}-${i}`,
+        round: name,
+        match,
+        sideA,
+        sideB,
+        winnerId: match ? getMatchWinnerId(match) : null,
+      });
+    }
+
+    const round = { name, slots };
+    rounds.push(round);
+    if (isTreeRound) previousTreeRound = round;
+  });
+  return rounds;
+};
+
+// Links from each knockout match to the fixture its winner feeds, by bracket position,
+// for the matches whose stored link is missing or out of date.
+export const getAdvancementLinks = (matches: Match[], format: TournamentFormat): AdvancementLink[] => {
+  const links: AdvancementLink[] = [];
+  buildBracket(matches, format).forEach(round => round.slots.forEach(slot => {
+    if (!slot.match) return;
+    const nextMatchId = slot.match._id;
+    ([['A', slot.sideA], ['B', slot.sideB]] as [MatchSlot, BracketSide][]).forEach(([nextMatchSlot, side]) => {
+      const feeder = matches.find(m => m._id === side.feederMatchId);
+      if (feeder && (feeder.nextMatchId !== nextMatchId || feeder.nextMatchSlot !== nextMatchSlot)) {
+        links.push({ matchId: feeder._id, nextMatchId, nextMatchSlot });
+      }
+    });
+  }));
+  return links;
+};
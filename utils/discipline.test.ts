@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { Card, CardType, DisciplineRules, Match, MatchStatus } from '../types';
+import { calculateSuspensions, getSuspendedPlayers } from './discipline';
+import { buildCard, buildMatch, buildTeam, buildTournament, buildUser } from './testFixtures';
+
+const player = buildUser('player');
+const home = buildTeam('home', [player]);
+const away = buildTeam('away', [buildUser('rival')]);
+
+const fixture = (matchNumber: number, cards: Card[] = [], status = MatchStatus.FINISHED): Match => buildMatch({
+  _id: `match-${matchNumber}`,
+  matchNumber,
+  teamAId: home,
+  teamBId: away,
+  status,
+  cards,
+});
+
+const yellow = (minute: number) => buildCard(player, 'home', CardType.YELLOW, minute);
+
+const suspensionsFor = (matches: Match[], disciplineRules?: DisciplineRules) =>
+  calculateSuspensions(buildTournament({ teams: [home, away], matches, disciplineRules }));
+
+describe('calculateSuspensions', () => {
+  it("bans a player sent off from the team's next fixtures", () => {
+    const [suspension] = suspensionsFor([
+      fixture(1, [buildCard(player, 'home', CardType.RED, 30)]),
+      fixture(2, [], MatchStatus.SCHEDULED),
+      fixture(3, [], MatchStatus.SCHEDULED),
+    ], { yellowCardThreshold: 3, yellowCardBan: 1, redCardBan: 2 });
+    expect(suspension).toMatchObject({ reason: 'redCard', length: 2, banMatchIds: ['match-2', 'match-3'], remaining: 2 });
+    expect(getSuspendedPlayers([suspension], fixture(2)).has('player')).toBe(true);
+  });
+
+  it('bans a player on reaching the yellow card threshold, then starts counting again', () => {
+    const matches = [1, 2, 3, 4, 5, 6, 7].map(n => fixture(n, n < 7 ? [yellow(10)] : []));
+    const suspensions = suspensionsFor(matches);
+    expect(suspensions.map(s => [s.reason, s.triggeredBy._id, s.banMatchIds])).toEqual([
+      ['yellowCards', 'match-3', ['match-4']],
+      ['yellowCards', 'match-6', ['match-7']],
+    ]);
+    expect(suspensions[1].remaining).toBe(0);
+  });
+
+  it("doesn't count the yellow behind a second-yellow red towards accumulation", () => {
+    const suspensions = suspensionsFor([
+      fixture(1, [yellow(20), buildCard(player, 'home', CardType.RED, 70, { isSecondYellow: true })]),
+      fixture(2),
+      fixture(3, [yellow(15)]),
+      fixture(4, [yellow(40)]),
+      fixture(5, [], MatchStatus.SCHEDULED),
+    ]);
+    expect(suspensions.map(s => s.reason)).toEqual(['redCard']);
+  });
+
+  it('ignores cards in scheduled matches and rules that are turned off', () => {
+    const cards = [yellow(5), buildCard(player, 'home', CardType.RED, 50)];
+    expect(suspensionsFor([fixture(1, cards, MatchStatus.SCHEDULED), fixture(2)])).toEqual([]);
+    expect(suspensionsFor([fixture(1, cards), fixture(2)], { yellowCardThreshold: 1, yellowCardBan: 1, redCardBan: 0 }).map(s => s.reason)).toEqual(['yellowCards']);
+  });
+});
@@ -0,0 +1,82 @@
+import { CardType, DisciplineRules, Match, MatchStatus, Tournament, User } from '../types';
+import { compareEventTimes } from './matchClock';
+
+export const DEFAULT_DISCIPLINE_RULES: DisciplineRules = {
+  yellowCardThreshold: 3,
+  yellowCardBan: 1,
+  redCardBan: 1,
+};
+
+export interface Suspension {
+  player: User;
+  teamId: string;
+  reason: 'yellowCards' | 'redCard';
+  triggeredBy: Match; // The match the deciding card was shown in
+  length: number; // Matches the player has to sit out
+  banMatchIds: string[]; // The team's fixtures that fall within the ban, as far as they are scheduled
+  remaining: number; // Matches of the ban still to be played
+}
+
+export const getDisciplineRules = (tournament: Tournament | null | undefined): DisciplineRules => ({
+  ...DEFAULT_DISCIPLINE_RULES,
+  ...tournament?.disciplineRules,
+});
+
+const involvesTeam = (match: Match, teamId: string) => match.teamAId?._id === teamId || match.teamBId?._id === teamId;
+
+/**
+ * Works out every ban in a tournament from its cards. Matches are taken in match-number
+ * order, and a live match counts, so a red card shown today already rules the player out
+ * of the team's next fixture.
+ */
+export const calculateSuspensions = (tournament: Tournament): Suspension[] => {
+  const rules = getDisciplineRules(tournament);
+  const byMatchNumber = [...tournament.matches].sort((a, b) => a.matchNumber - b.matchNumber);
+  const yellowCounts = new Map<string, number>();
+  const suspensions: Omit<Suspension, 'banMatchIds' | 'remaining'>[] = [];
+
+  byMatchNumber.filter(m => m.status !== MatchStatus.SCHEDULED).forEach(match => {
+    // A player sent off for a second yellow serves the red card's ban; that match's yellow doesn't also count towards accumulation.
+    const sentOffForSecondYellow = new Set(match.cards.filter(c => c.isSecondYellow && c.playerId?._id).map(c => c.playerId._id));
+    [...match.cards].sort(compareEventTimes).forEach(card => {
+      const player = card.playerId;
+      if (!player?._id) return;
+      if (card.type === CardType.RED) {
+        if (rules.redCardBan > 0) {
+          suspensions.push({ player, teamId: card.teamId, reason: 'redCard', triggeredBy: match, length: rules.redCardBan });
+        }
+        return;
+      }
+      if (rules.yellowCardThreshold <= 0 || sentOffForSecondYellow.has(player._id)) return;
+      const count = (yellowCounts.get(player._id) || 0) + 1;
+      if (count >= rules.yellowCardThreshold) {
+        yellowCounts.set(player._id, 0);
+        if (rules.yellowCardBan > 0) {
+          suspensions.push({ player, teamId: card.teamId, reason: 'yellowCards', triggeredBy: match, length: rules.yellowCardBan });
+        }
+      } else {
+        yellowCounts.set(player._id, count);
+      }
+    });
+  });
+
+  return suspensions.map(suspension => {
+    const banMatches = byMatchNumber
+      .filter(m => m.matchNumber > suspension.triggeredBy.matchNumber && involvesTeam(m, suspension.teamId))
+      .slice(0, suspension.length);
+    return {
+      ...suspension,
+      banMatchIds: banMatches.map(m => m._id),
+      remaining: suspension.length - banMatches.filter(m => m.status === MatchStatus.FINISHED).length,
+    };
+  });
+};
+
+// Players banned from the given match, keyed by player ID.
+export const getSuspendedPlayers = (suspensions: Suspension[], match: Match): Map<string, Suspension> =>
+  new Map(suspensions.filter(s => s.banMatchIds.includes(match._id)).map(s => [s.player._id, s]));
+
+export const describeSuspension = (suspension: Suspension): string => {
+  const cause = suspension.reason === 'redCard' ? 'red card' : 'yellow card accumulation';
+  return `${suspension.player.profile?.name || 'Player'} is suspended (${cause} in Match #${suspension.triggeredBy.matchNumber})`;
+};
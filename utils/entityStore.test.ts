@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { Match, MatchStatus, Team, Tournament, User } from '../types';
+import { ApiValidationError } from './apiSchema';
+import { createEntityStore, createEntityStoreSource, revertMatch, selectMatch, selectTournament, upsertMatch, upsertTournaments } from './entityStore';
+import { buildGoal, buildMatch, buildTeam, buildTournament, buildUser } from './testFixtures';
+
+const team = (id: string): Team => buildTeam(id, [buildUser(`${id}-admin`)]);
+
+const match = (scoreA = 0): Match => buildMatch({
+  teamAId: team('home'),
+  teamBId: team('away'),
+  scoreA,
+  status: MatchStatus.LIVE,
+  goals: scoreA ? [buildGoal(buildUser('home-admin'), 'home', 10)] : [],
+});
+
+// Every call builds fresh objects, as a refetch does.
+const tournament = (scoreA = 0): Tournament => buildTournament({ teams: [team('home'), team('away')], matches: [match(scoreA)] });
+
+describe('entity store', () => {
+  it('keeps the cached objects when a refetch brings nothing new', () => {
+    const store = upsertTournaments(createEntityStore(), [tournament()]);
+    expect(upsertTournaments(store, [tournament()])).toBe(store);
+  });
+
+  it('replaces only the entities that changed', () => {
+    const store = upsertTournaments(createEntityStore(), [tournament()]);
+    const next = upsertTournaments(store, [tournament(1)]);
+    expect(next.matches.match).not.toBe(store.matches.match);
+    expect(next.matches.match.goals).toHaveLength(1);
+    expect(next.teams).toBe(store.teams);
+    expect(next.users).toBe(store.users);
+    expect(selectTournament(next, 'tournament').teams[0]).toBe(selectTournament(store, 'tournament').teams[0]);
+  });
+
+  it('reverts an optimistic match unless it has changed again since', () => {
+    const store = upsertTournaments(createEntityStore(), [tournament()]);
+    const optimistic = match(1);
+    const written = upsertMatch(store, 'tournament', optimistic);
+    expect(revertMatch(written, 'tournament', optimistic, match()).matches.match.scoreA).toBe(0);
+
+    const updated = upsertMatch(written, 'tournament', { ...match(1), scoreB: 1 });
+    expect(revertMatch(updated, 'tournament', optimistic, match())).toBe(updated);
+  });
+
+  it('fills in players and teams a match response gave only by ID from the cache', () => {
+    const store = upsertTournaments(createEntityStore(), [tournament()]);
+    const bare = <T>(id: string) => ({ _id: id }) as T;
+    const next = upsertMatch(store, 'tournament', {
+      ...match(1),
+      teamAId: bare<Team>('home'),
+      goals: [buildGoal(bare<User>('home-admin'), 'home', 10)],
+    });
+    const stored = selectMatch(next, 'match');
+    expect(stored.teamAId).toBe(selectTournament(next, 'tournament').teams[0]);
+    expect(stored.goals[0].scorerId).toBe(store.users['home-admin']);
+  });
+
+  it('rejects a match referring to a player it has no record of', () => {
+    const store = upsertTournaments(createEntityStore(), [tournament()]);
+    const update = { ...match(1), goals: [buildGoal({ _id: 'stranger' } as User, 'home', 10)] };
+    expect(() => upsertMatch(store, 'tournament', update)).toThrow(ApiValidationError);
+    expect(() => upsertMatch(store, 'tournament', update)).toThrow('goals[0].scorerId: unknown user "stranger"');
+  });
+
+  it('tells subscribers about updates that change the store, and stops once they unsubscribe', () => {
+    const source = createEntityStoreSource();
+    let notified = 0;
+    const unsubscribe = source.subscribe(() => notified++);
+
+    source.update(store => upsertTournaments(store, [tournament()]));
+    expect(notified).toBe(1);
+    expect(selectTournament(source.getSnapshot(), 'tournament')?.name).toBe('Tournament');
+
+    source.update(store => upsertTournaments(store, [tournament()]));
+    expect(notified).toBe(1);
+
+    unsubscribe();
+    source.update(store => upsertTournaments(store, [tournament(1)]));
+    expect(notified).toBe(1);
+    expect(source.getSnapshot().matches.match.scoreA).toBe(1);
+  });
+});
@@ -0,0 +1,337 @@
+import { User, Team, Match, Tournament, TournamentSquad } from '../types';
+import { ApiValidationError, isBareRef } from './apiSchema';
+
+/**
+ * Client cache of everything loaded from the API, keyed by ID. Teams, tournaments and
+ * matches refer to each other and to users by ID, so a change to one entity replaces
+ * only that entity. The selectors put the nested shapes the pages use back together,
+ * reusing the previous object whenever nothing it is built from has changed, so that
+ * memoized components and hooks skip work for untouched tournaments, teams and matches.
+ */
+export interface TeamRecord extends Omit<Team, 'adminIds' | 'members' | 'captainId' | 'viceCaptainId'> {
+  adminIds: string[];
+  members: string[];
+  captainId?: string;
+  viceCaptainId?: string;
+}
+
+// Goals, cards and the other timeline entries keep the player snapshots they were recorded with.
+export interface MatchRecord extends Omit<Match, 'teamAId' | 'teamBId' | 'refereeId' | 'scorekeeperId'> {
+  tournamentId: string;
+  teamAId: string | null;
+  teamBId: string | null;
+  refereeId: string | null;
+  scorekeeperId: string | null;
+}
+
+export interface SquadRecord extends Omit<TournamentSquad, 'players'> {
+  players: string[];
+}
+
+export interface TournamentRecord extends Omit<Tournament, 'teams' | 'matches' | 'squads' | 'organizers' | 'scorekeepers' | 'referees'> {
+  teams: string[];
+  matches: string[];
+  squads?: SquadRecord[];
+  organizers: string[];
+  scorekeepers: string[];
+  referees: string[];
+}
+
+export interface EntityStore {
+  users: Record<string, User>;
+  teams: Record<string, TeamRecord>;
+  tournaments: Record<string, TournamentRecord>;
+  matches: Record<string, MatchRecord>;
+}
+
+export const createEntityStore = (): EntityStore => ({ users: {}, teams: {}, tournaments: {}, matches: {} });
+
+type Table<T> = Record<string, T>;
+
+const ids = (entities: { _id: string }[] | undefined): string[] => (entities || []).filter(Boolean).map(e => e._id);
+
+// Compares field by field and stops at the first difference. Records hold IDs rather than
+// nested entities, so this rarely goes deeper than a match's goals and cards.
+const isEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || !a || !b || Array.isArray(a) !== Array.isArray(b)) return false;
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every(key => key in b && isEqual(a[key], b[key]));
+};
+
+// Refetched data arrives as new objects even when nothing changed, so an entity equal to
+// the cached one keeps the cached object and with it every selector result built on it.
+// The table itself is only copied when something in it changes. Later entries win.
+const upsertAll = <T>(table: Table<T>, entries: [string, T][]): Table<T> => {
+  let result = table;
+  for (const [id, record] of new Map(entries)) {
+    if (table[id] && isEqual(table[id], record)) continue;
+    if (result === table) result = { ...table };
+    result[id] = record;
+  }
+  return result;
+};
+
+// --- Normalizing API data ---
+const collectTeamUsers = (team: Team): User[] =>
+  [...(team.members || []), ...(team.adminIds || []), team.captainId, team.viceCaptainId].filter(Boolean);
+
+const toTeamRecord = (team: Team): TeamRecord => ({
+  ...team,
+  adminIds: ids(team.adminIds),
+  members: ids(team.members),
+  captainId: team.captainId?._id,
+  viceCaptainId: team.viceCaptainId?._id,
+});
+
+const toMatchRecord = (tournamentId: string, match: Match): MatchRecord => ({
+  ...match,
+  tournamentId,
+  teamAId: match.teamAId?._id || null,
+  teamBId: match.teamBId?._id || null,
+  refereeId: match.refereeId?._id || null,
+  scorekeeperId: match.scorekeeperId?._id || null,
+});
+
+const toTournamentRecord = (tournament: Tournament): TournamentRecord => ({
+  ...tournament,
+  teams: ids(tournament.teams),
+  matches: ids(tournament.matches),
+  squads: tournament.squads?.map(squad => ({ ...squad, players: ids(squad.players) })),
+  organizers: ids(tournament.organizers),
+  scorekeepers: ids(tournament.scorekeepers),
+  referees: ids(tournament.referees),
+});
+
+// Users and teams embedded in a match: the two teams and its officials.
+const collectMatch = (match: Match, users: User[], teams: Team[]) => {
+  [match.teamAId, match.teamBId].filter(Boolean).forEach(team => {
+    teams.push(team);
+    users.push(...collectTeamUsers(team));
+  });
+  users.push(...[match.refereeId, match.scorekeeperId].filter(Boolean));
+};
+
+const writeEntities = (store: EntityStore, users: User[], teams: Team[], tournaments: Tournament[], matches: [string, Match][]): EntityStore => {
+  const next = {
+    users: upsertAll(store.users, users.map(u => [u._id, u] as [string, User])),
+    teams: upsertAll(store.teams, teams.map(t => [t._id, toTeamRecord(t)] as [string, TeamRecord])),
+    tournaments: upsertAll(store.tournaments, tournaments.map(t => [t._id, toTournamentRecord(t)] as [string, TournamentRecord])),
+    matches: upsertAll(store.matches, matches.map(([tournamentId, m]) => [m._id, toMatchRecord(tournamentId, m)] as [string, MatchRecord])),
+  };
+  const changed = (Object.keys(next) as (keyof EntityStore)[]).some(key => next[key] !== store[key]);
+  return changed ? next : store;
+};
+
+export const upsertTeams = (store: EntityStore, teams: Team[]): EntityStore =>
+  writeEntities(store, teams.flatMap(collectTeamUsers), teams, [], []);
+
+export const upsertTournaments = (store: EntityStore, tournaments: Tournament[]): EntityStore => {
+  const users: User[] = [];
+  const teams: Team[] = [];
+  const matches: [string, Match][] = [];
+  tournaments.forEach(tournament => {
+    (tournament.teams || []).forEach(team => {
+      teams.push(team);
+      users.push(...collectTeamUsers(team));
+    });
+    (tournament.squads || []).forEach(squad => users.push(...squad.players));
+    users.push(...(tournament.organizers || []), ...(tournament.scorekeepers || []), ...(tournament.referees || []));
+    (tournament.matches || []).forEach(match => {
+      collectMatch(match, users, teams);
+      matches.push([tournament._id, match]);
+    });
+  });
+  // A match's team can be a lighter copy than the tournament's own, so the tournament's teams win.
+  const tournamentTeams = tournaments.flatMap(t => t.teams || []);
+  const matchOnlyTeams = teams.filter(team => !tournamentTeams.some(t => t._id === team._id));
+  return writeEntities(store, users, [...matchOnlyTeams, ...tournamentTeams], tournaments, matches);
+};
+
+const unknownRef = (path: string, kind: string, id: string): never => {
+  throw new ApiValidationError(path, `unknown ${kind} "${id}"`, 'match');
+};
+
+/**
+ * Swaps the users and teams a single-match response gave only by ID for the cached ones.
+ * The match can't be shown without them, so one the cache doesn't have either rejects it.
+ * A match without bare references is returned as it is.
+ */
+const resolveMatchRefs = (store: EntityStore, match: Match): Match => {
+  let hasBareRefs = false;
+  const user = <T extends User | null | undefined>(ref: T, path: string): T => {
+    if (!isBareRef(ref)) return ref;
+    hasBareRefs = true;
+    return (store.users[ref._id] as T) || unknownRef(path, 'user', ref._id);
+  };
+  const team = (ref: Team | null, path: string): Team | null => {
+    if (!isBareRef(ref)) return ref;
+    hasBareRefs = true;
+    return selectTeam(store, ref._id) || unknownRef(path, 'team', ref._id);
+  };
+  const resolved: Match = {
+    ...match,
+    teamAId: team(match.teamAId, 'teamAId'),
+    teamBId: team(match.teamBId, 'teamBId'),
+    goals: match.goals.map((goal, i) => ({ ...goal, scorerId: user(goal.scorerId, `goals[${i}].scorerId`), assistId: user(goal.assistId, `goals[${i}].assistId`) })),
+    cards: match.cards.map((card, i) => ({ ...card, playerId: user(card.playerId, `cards[${i}].playerId`) })),
+    events: match.events?.map((event, i) => ({ ...event, playerId: user(event.playerId, `events[${i}].playerId`) })),
+    shootoutKicks: match.shootoutKicks?.map((kick, i) => ({ ...kick, takerId: user(kick.takerId, `shootoutKicks[${i}].takerId`) })),
+    lineups: match.lineups?.map((lineup, i) => ({
+      ...lineup,
+      starters: lineup.starters.map((p, j) => user(p, `lineups[${i}].starters[${j}]`)),
+      bench: lineup.bench.map((p, j) => user(p, `lineups[${i}].bench[${j}]`)),
+    })),
+    substitutions: match.substitutions?.map((sub, i) => ({
+      ...sub,
+      playerOffId: user(sub.playerOffId, `substitutions[${i}].playerOffId`),
+      playerOnId: user(sub.playerOnId, `substitutions[${i}].playerOnId`),
+    })),
+    auditLog: match.auditLog?.map((entry, i) => ({ ...entry, changedBy: user(entry.changedBy, `auditLog[${i}].changedBy`) })),
+    playerOfTheMatchId: user(match.playerOfTheMatchId, 'playerOfTheMatchId'),
+    refereeId: user(match.refereeId, 'refereeId'),
+    scorekeeperId: user(match.scorekeeperId, 'scorekeeperId'),
+  };
+  return hasBareRefs ? resolved : match;
+};
+
+// Replaces a single match, e.g. after a goal or card, adding it to its tournament if it is new.
+export const upsertMatch = (store: EntityStore, tournamentId: string, update: Match): EntityStore => {
+  const tournament = store.tournaments[tournamentId];
+  if (!tournament) return store;
+  const match = resolveMatchRefs(store, update);
+  const users: User[] = [];
+  const teams: Team[] = [];
+  collectMatch(match, users, teams);
+  const next = writeEntities(store, users.filter(u => !store.users[u._id]), teams.filter(t => !store.teams[t._id]), [], [[tournamentId, match]]);
+  if (tournament.matches.includes(match._id)) return next;
+  return { ...next, tournaments: { ...next.tournaments, [tournamentId]: { ...tournament, matches: [...tournament.matches, match._id] } } };
+};
+
+// Undoes an optimistic upsertMatch after the request behind it failed. If the match has
+// changed again in the meantime, e.g. from a live update, that newer copy is kept.
+export const revertMatch = (store: EntityStore, tournamentId: string, optimistic: Match, previous: Match): EntityStore => {
+  const current = store.matches[optimistic._id];
+  if (!current || !isEqual(current, toMatchRecord(tournamentId, optimistic))) return store;
+  return upsertMatch(store, tournamentId, previous);
+};
+
+// --- Selectors ---
+interface CacheEntry<T> {
+  parts: unknown[];
+  value: T;
+}
+
+// Rebuilds an entity only when its record or one of the entities it embeds has changed.
+const memoize = <R extends object, T>(cache: WeakMap<R, CacheEntry<T>>, record: R, parts: unknown[], build: () => T): T => {
+  const hit = cache.get(record);
+  if (hit && hit.parts.length === parts.length && hit.parts.every((part, i) => part === parts[i])) {
+    return hit.value;
+  }
+  const value = build();
+  cache.set(record, { parts, value });
+  return value;
+};
+
+const teamCache = new WeakMap<TeamRecord, CacheEntry<Team>>();
+const matchCache = new WeakMap<MatchRecord, CacheEntry<Match>>();
+const tournamentCache = new WeakMap<TournamentRecord, CacheEntry<Tournament>>();
+const listCache = new WeakMap<object, CacheEntry<unknown[]>>();
+
+const selectUsers = (store: EntityStore, userIds: string[]): User[] => userIds.map(id => store.users[id]).filter(Boolean);
+
+export const selectUser = (store: EntityStore, userId: string | undefined): User | undefined =>
+  userId ? store.users[userId] : undefined;
+
+export const selectTeam = (store: EntityStore, teamId: string | null | undefined): Team | undefined => {
+  const record = teamId ? store.teams[teamId] : undefined;
+  if (!record) return undefined;
+  const members = selectUsers(store, record.members);
+  const admins = selectUsers(store, record.adminIds);
+  const captain = selectUser(store, record.captainId);
+  const viceCaptain = selectUser(store, record.viceCaptainId);
+  return memoize(teamCache, record, [...members, '|', ...admins, captain, viceCaptain], () => ({
+    ...record,
+    members,
+    adminIds: admins,
+    captainId: captain,
+    viceCaptainId: viceCaptain,
+  }));
+};
+
+export const selectMatch = (store: EntityStore, matchId: string | undefined): Match | undefined => {
+  const record = matchId ? store.matches[matchId] : undefined;
+  if (!record) return undefined;
+  const teamA = selectTeam(store, record.teamAId) || null;
+  const teamB = selectTeam(store, record.teamBId) || null;
+  const referee = selectUser(store, record.refereeId) || null;
+  const scorekeeper = selectUser(store, record.scorekeeperId) || null;
+  return memoize(matchCache, record, [teamA, teamB, referee, scorekeeper], () => {
+    const { tournamentId, ...match } = record;
+    return { ...match, teamAId: teamA, teamBId: teamB, refereeId: referee, scorekeeperId: scorekeeper };
+  });
+};
+
+export const selectTournament = (store: EntityStore, tournamentId: string | undefined): Tournament | undefined => {
+  const record = tournamentId ? store.tournaments[tournamentId] : undefined;
+  if (!record) return undefined;
+  const teams = record.teams.map(id => selectTeam(store, id)).filter(Boolean);
+  const matches = record.matches.map(id => selectMatch(store, id)).filter(Boolean);
+  const squadPlayers = (record.squads || []).map(squad => selectUsers(store, squad.players));
+  const organizers = selectUsers(store, record.organizers);
+  const scorekeepers = selectUsers(store, record.scorekeepers);
+  const referees = selectUsers(store, record.referees);
+  const parts = [...teams, '|', ...matches, '|', ...squadPlayers.flat(), '|', ...organizers, '|', ...scorekeepers, '|', ...referees];
+  return memoize(tournamentCache, record, parts, () => ({
+    ...record,
+    teams,
+    matches,
+    squads: record.squads?.map((squad, i) => ({ ...squad, players: squadPlayers[i] })),
+    organizers,
+    scorekeepers,
+    referees,
+  }));
+};
+
+// Lists keep their identity too, as long as every entity in them does.
+const selectList = <T>(table: object, items: T[]): T[] =>
+  memoize(listCache, table, items, () => items) as T[];
+
+export const selectTeams = (store: EntityStore): Team[] =>
+  selectList(store.teams, Object.keys(store.teams).map(id => selectTeam(store, id)));
+
+export const selectTournaments = (store: EntityStore): Tournament[] =>
+  selectList(store.tournaments, Object.keys(store.tournaments).map(id => selectTournament(store, id)));
+
+export const selectMatchTournamentId = (store: EntityStore, matchId: string): string | undefined =>
+  store.matches[matchId]?.tournamentId;
+
+// --- Subscriptions ---
+// Holds the current store outside React state, so a component can subscribe to just the
+// entities it reads (see hooks/useEntities) instead of re-rendering on every change.
+export interface EntityStoreSource {
+  getSnapshot: () => EntityStore;
+  subscribe: (listener: () => void) => () => void;
+  // Applied straight away, so the next getSnapshot already sees the change.
+  update: (updater: (store: EntityStore) => EntityStore) => void;
+}
+
+export const createEntityStoreSource = (): EntityStoreSource => {
+  let store = createEntityStore();
+  const listeners = new Set<() => void>();
+  return {
+    getSnapshot: () => store,
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    update: updater => {
+      const next = updater(store);
+      if (next === store) return;
+      store = next;
+      listeners.forEach(listener => listener());
+    },
+  };
+};
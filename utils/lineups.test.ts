@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { CardType, Match, MatchStatus, Substitution } from '../types';
+import { getAppearance, getAvailableSubstitutes, getCareerAppearances, getPlayersOnPitch } from './lineups';
+import { buildCard, buildGoal, buildMatch, buildTeam, buildTournament, buildUser } from './testFixtures';
+
+const [keeper, striker, substitute, unused, rival] = ['keeper', 'striker', 'substitute', 'unused', 'rival'].map(id => buildUser(id));
+const home = buildTeam('home', [keeper, striker, substitute, unused]);
+const away = buildTeam('away', [rival]);
+
+const substitution = (minute: number): Substitution => ({ teamId: 'home', playerOffId: striker, playerOnId: substitute, minute });
+
+// The striker is replaced on the hour and the keeper is sent off ten minutes from time.
+const match = (overrides: Partial<Match> = {}): Match => buildMatch({
+  teamAId: home,
+  teamBId: away,
+  status: MatchStatus.FINISHED,
+  lineups: [
+    { teamId: 'home', starters: [keeper, striker], bench: [substitute, unused] },
+    { teamId: 'away', starters: [rival], bench: [] },
+  ],
+  substitutions: [substitution(60)],
+  cards: [buildCard(keeper, 'home', CardType.RED, 80)],
+  ...overrides,
+});
+
+describe('getAppearance', () => {
+  it('counts minutes from kick-off or coming on until going off, being sent off or full time', () => {
+    expect(getAppearance(match(), 'striker')).toEqual({ teamId: 'home', started: true, minutes: 60, onPitch: { from: 0, until: 60 } });
+    expect(getAppearance(match(), 'substitute')).toEqual({ teamId: 'home', started: false, minutes: 30, onPitch: { from: 60, until: 90 } });
+    expect(getAppearance(match(), 'keeper')).toMatchObject({ started: true, minutes: 80 });
+    expect(getAppearance(match(), 'rival')).toMatchObject({ teamId: 'away', minutes: 90 });
+  });
+
+  it('plays on to 120 minutes when the match went to extra time', () => {
+    const extraTime = match({ goals: [buildGoal(rival, 'away', 112)] });
+    expect(getAppearance(extraTime, 'substitute')?.minutes).toBe(60);
+    expect(getAppearance(extraTime, 'rival')?.minutes).toBe(120);
+  });
+
+  it('leaves out unused substitutes and matches not played yet', () => {
+    expect(getAppearance(match(), 'unused')).toBeNull();
+    expect(getAppearance(match({ status: MatchStatus.SCHEDULED }), 'striker')).toBeNull();
+  });
+
+  it('falls back to the registered squads, without minutes, for matches without lineups', () => {
+    const tournament = buildTournament({ teams: [home, away], squads: [{ teamId: 'home', players: [keeper] }] });
+    const withoutLineups = match({ lineups: undefined });
+    expect(getAppearance(withoutLineups, 'keeper', tournament)).toEqual({ teamId: 'home', started: true, minutes: null, onPitch: null });
+    expect(getAppearance(withoutLineups, 'striker', tournament)).toBeNull();
+    expect(getAppearance(withoutLineups, 'keeper')).toBeNull();
+  });
+});
+
+describe('getCareerAppearances', () => {
+  it('adds up finished matches across tournaments', () => {
+    const tournaments = [
+      buildTournament({ _id: 'spring', teams: [home, away], matches: [match({ _id: 'first' }), match({ _id: 'live', status: MatchStatus.LIVE })] }),
+      buildTournament({ _id: 'autumn', teams: [home, away], matches: [match({ _id: 'second', substitutions: [substitution(75)] })] }),
+    ];
+    expect(getCareerAppearances(tournaments, 'substitute')).toEqual({ matchesPlayed: 2, minutesPlayed: 45 });
+  });
+});
+
+describe('players on the pitch', () => {
+  it('follows substitutions and red cards, and keeps used players off the bench', () => {
+    const live = match({ status: MatchStatus.LIVE });
+    expect(getPlayersOnPitch(live, 'home')).toEqual([substitute]);
+    expect(getAvailableSubstitutes(live, 'home')).toEqual([unused]);
+    expect(getPlayersOnPitch(live, 'missing')).toEqual([]);
+  });
+});
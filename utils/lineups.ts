@@ -0,0 +1,100 @@
+import { CardType, Match, MatchPeriod, MatchStatus, TeamLineup, Tournament, User } from '../types';
+import { compareEventTimes, getEventTime } from './matchClock';
+import { getSentOffPlayerIds } from './matchEvents';
+import { getSquad } from './squads';
+
+export const MAX_STARTERS = 11;
+
+const EXTRA_TIME_PERIODS = [MatchPeriod.EXTRA_TIME_BREAK, MatchPeriod.EXTRA_TIME_FIRST_HALF, MatchPeriod.EXTRA_TIME_HALF_TIME, MatchPeriod.EXTRA_TIME_SECOND_HALF];
+
+export interface Appearance {
+  teamId: string;
+  started: boolean;
+  minutes: number | null; // null for matches played before lineups were recorded
+  onPitch: { from: number, until: number } | null; // The minutes the player was on the pitch, when known
+}
+
+export const getTeamLineup = (match: Match, teamId: string): TeamLineup | undefined =>
+  match.lineups?.find(l => l.teamId === teamId);
+
+const isInList = (players: User[], playerId: string) => players.some(p => p?._id === playerId);
+
+// Named in either team's starting XI or on the bench.
+export const isInMatchSquad = (match: Match, playerId: string): boolean =>
+  (match.lineups || []).some(l => isInList(l.starters, playerId) || isInList(l.bench, playerId));
+
+// How far the match has got, in regulation minutes: the live minute, or the final whistle.
+const getPlayedMinutes = (match: Match): number => {
+  if (match.status === MatchStatus.LIVE) {
+    const now = getEventTime(match.clock);
+    if (now) return now.minute;
+  }
+  const latestEvent = Math.max(0, ...match.goals.map(g => g.minute), ...match.cards.map(c => c.minute), ...(match.substitutions || []).map(s => s.minute));
+  const wentToExtraTime = latestEvent > 90 || (!!match.clock && EXTRA_TIME_PERIODS.includes(match.clock.period));
+  return wentToExtraTime ? 120 : 90;
+};
+
+/**
+ * Whether and for how long a player took part in a match. Starters play from kick-off,
+ * substitutes from the minute they come on, and either until they are substituted,
+ * sent off or the match ends. Matches without lineups fall back to the registered squads.
+ */
+export const getAppearance = (match: Match, playerId: string, tournament?: Tournament): Appearance | null => {
+  if (match.status === MatchStatus.SCHEDULED) return null;
+  if (!match.lineups?.length) {
+    if (!tournament) return null;
+    const teamId = [match.teamAId?._id, match.teamBId?._id].find(id => id && isInList(getSquad(tournament, id), playerId));
+    return teamId ? { teamId, started: true, minutes: null, onPitch: null } : null;
+  }
+  const lineup = match.lineups.find(l => isInList(l.starters, playerId) || isInList(l.bench, playerId));
+  if (!lineup) return null;
+  const substitutions = (match.substitutions || []).filter(s => s.teamId === lineup.teamId);
+  const started = isInList(lineup.starters, playerId);
+  const cameOn = substitutions.find(s => s.playerOnId?._id === playerId);
+  if (!started && !cameOn) return null; // An unused substitute
+  const from = started ? 0 : cameOn!.minute;
+  const wentOff = substitutions.find(s => s.playerOffId?._id === playerId && s.minute >= from);
+  const redCard = match.cards.find(c => c.type === CardType.RED && c.playerId?._id === playerId);
+  const until = Math.min(wentOff?.minute ?? Infinity, redCard?.minute ?? Infinity, getPlayedMinutes(match));
+  return { teamId: lineup.teamId, started, minutes: Math.max(0, until - from), onPitch: { from, until } };
+};
+
+// Appearances and minutes across finished matches, for profile pages.
+export const getCareerAppearances = (tournaments: Tournament[], playerId: string): { matchesPlayed: number, minutesPlayed: number } => {
+  let matchesPlayed = 0;
+  let minutesPlayed = 0;
+  tournaments.forEach(tournament => {
+    tournament.matches.filter(m => m.status === MatchStatus.FINISHED).forEach(match => {
+      const appearance = getAppearance(match, playerId, tournament);
+      if (!appearance) return;
+      matchesPlayed++;
+      minutesPlayed += appearance.minutes || 0;
+    });
+  });
+  return { matchesPlayed, minutesPlayed };
+};
+
+// The team's players currently on the pitch, after substitutions and red cards.
+export const getPlayersOnPitch = (match: Match, teamId: string): User[] => {
+  const lineup = getTeamLineup(match, teamId);
+  if (!lineup) return [];
+  const sentOff = getSentOffPlayerIds(match);
+  let onPitch = [...lineup.starters];
+  [...(match.substitutions || [])]
+    .filter(s => s.teamId === teamId)
+    .sort(compareEventTimes)
+    .forEach(s => {
+      onPitch = onPitch.filter(p => p?._id !== s.playerOffId?._id);
+      if (s.playerOnId) onPitch.push(s.playerOnId);
+    });
+  return onPitch.filter(p => p && !sentOff.has(p._id));
+};
+
+// Bench players who have not come on yet. A player who has been substituted off can't return.
+export const getAvailableSubstitutes = (match: Match, teamId: string): User[] => {
+  const lineup = getTeamLineup(match, teamId);
+  if (!lineup) return [];
+  const used = new Set((match.substitutions || []).flatMap(s => [s.playerOnId?._id, s.playerOffId?._id]));
+  const sentOff = getSentOffPlayerIds(match);
+  return lineup.bench.filter(p => p && !used.has(p._id) && !sentOff.has(p._id));
+};
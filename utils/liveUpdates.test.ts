@@ -0,0 +1,134 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { EventSource } from 'eventsource';
+import { createLiveServer } from '../mock/liveServer.mjs';
+import { LiveConnectionStatus, LiveUpdate, MatchStatus } from '../types';
+import { getReconnectDelay, openLiveChannel } from './liveUpdates';
+
+const waitFor = async (condition: () => boolean, timeout = 3000) => {
+  const deadline = Date.now() + timeout;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for the live channel.');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+};
+
+const update = {
+  type: 'goal',
+  tournamentId: 'tourn_1',
+  match: { _id: 'match_1', matchNumber: 1, status: MatchStatus.LIVE, scoreA: 1, scoreB: 0, goals: [], cards: [], round: 'League Match' },
+};
+
+describe('getReconnectDelay', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it('doubles with each attempt, between half and all of the ceiling', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect([0, 1, 2, 3].map(getReconnectDelay)).toEqual([500, 1000, 2000, 4000]);
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    expect([0, 1, 2, 3].map(getReconnectDelay)).toEqual([1000, 2000, 4000, 8000]);
+  });
+
+  it('stops growing at 30 seconds', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    expect(getReconnectDelay(10)).toBe(30000);
+    expect(getReconnectDelay(50)).toBe(30000);
+  });
+});
+
+describe('openLiveChannel against the mock live server', () => {
+  let server: Server;
+  let baseUrl: string;
+  let close: (() => void) | undefined;
+
+  beforeAll(() => {
+    (globalThis as any).EventSource = EventSource;
+  });
+
+  beforeEach(async () => {
+    // The shortest backoff keeps reconnects quick.
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    server = createLiveServer();
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}/api/live`;
+  });
+
+  afterEach(async () => {
+    close?.();
+    close = undefined;
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+    vi.restoreAllMocks();
+  });
+
+  const emit = async () => {
+    const response = await fetch(`${baseUrl}/emit`, { method: 'POST', body: JSON.stringify(update) });
+    return (await response.json()).delivered as number;
+  };
+
+  it('delivers updates for the subscribed tournaments', async () => {
+    const updates: LiveUpdate[] = [];
+    const statuses: LiveConnectionStatus[] = [];
+    close = openLiveChannel({
+      getUrl: async () => `${baseUrl}?tournamentIds=tourn_1&ticket=t1`,
+      onUpdate: received => updates.push(received),
+      onStatusChange: status => statuses.push(status),
+    });
+    await waitFor(() => statuses.includes('open'));
+
+    expect(await emit()).toBe(1);
+    await waitFor(() => updates.length === 1);
+    expect(updates[0].match).toMatchObject({ _id: 'match_1', scoreA: 1, teamAId: null });
+    expect(statuses).toEqual(['connecting', 'open']);
+  });
+
+  it('reconnects with a fresh ticket after the stream drops', async () => {
+    const statuses: LiveConnectionStatus[] = [];
+    let tickets = 0;
+    close = openLiveChannel({
+      getUrl: async () => `${baseUrl}?tournamentIds=tourn_1&ticket=t${++tickets}`,
+      onUpdate: () => undefined,
+      onStatusChange: status => statuses.push(status),
+    });
+    await waitFor(() => statuses.includes('open'));
+
+    server.closeAllConnections();
+    await waitFor(() => statuses.filter(s => s === 'open').length === 2);
+    expect(statuses).toEqual(['connecting', 'open', 'reconnecting', 'open']);
+    expect(tickets).toBe(2);
+    expect(await emit()).toBe(1);
+  });
+
+  it('backs off while the stream is refused and while no ticket can be had', async () => {
+    const statuses: LiveConnectionStatus[] = [];
+    let calls = 0;
+    close = openLiveChannel({
+      getUrl: async () => {
+        calls++;
+        if (calls === 1) throw new TypeError('Failed to fetch');
+        // The mock server refuses a stream without a ticket.
+        return calls === 2 ? `${baseUrl}?tournamentIds=tourn_1` : `${baseUrl}?tournamentIds=tourn_1&ticket=t${calls}`;
+      },
+      onUpdate: () => undefined,
+      onStatusChange: status => statuses.push(status),
+    });
+    await waitFor(() => statuses.includes('open'));
+    expect(calls).toBe(3);
+    expect(statuses[0]).toBe('connecting');
+    expect(statuses.slice(1, -1).every(s => s === 'reconnecting')).toBe(true);
+  });
+
+  it('stops reconnecting once closed', async () => {
+    const statuses: LiveConnectionStatus[] = [];
+    const getUrl = vi.fn(async () => `${baseUrl}?tournamentIds=tourn_1&ticket=t`);
+    const closeChannel = openLiveChannel({ getUrl, onUpdate: () => undefined, onStatusChange: status => statuses.push(status) });
+    await waitFor(() => statuses.includes('open'));
+
+    closeChannel();
+    await new Promise(resolve => setTimeout(resolve, 700));
+    expect(getUrl).toHaveBeenCalledTimes(1);
+    expect(statuses[statuses.length - 1]).toBe('closed');
+  });
+});
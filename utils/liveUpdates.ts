@@ -0,0 +1,84 @@
+import { Tournament, User, LiveUpdate, LiveConnectionStatus } from '../types';
+import { isTournamentStaff } from './tournamentRoles';
+import { parseLiveUpdate } from './apiSchema';
+
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+// Exponential backoff with jitter, so a server restart isn't met by every client at once.
+export const getReconnectDelay = (attempt: number): number => {
+  const ceiling = Math.min(MAX_RECONNECT_DELAY_MS, 1000 * 2 ** attempt);
+  return Math.round(ceiling * (0.5 + Math.random() / 2));
+};
+
+// Tournaments the user helps run or has a team in, plus any they have open as a spectator;
+// these are the ones pushed to them.
+export const getFollowedTournamentIds = (user: User, tournaments: Tournament[], openTournamentIds: string[] = []): string[] => {
+  const followedIds = tournaments
+    .filter(t => isTournamentStaff(t, user._id) || t.teams.some(team => (team.members || []).some(m => m?._id === user._id)))
+    .map(t => t._id);
+  return [...new Set([...followedIds, ...openTournamentIds])].sort();
+};
+
+interface LiveChannelOptions {
+  // Called before every connection attempt, so each one can carry a fresh stream ticket.
+  getUrl: () => Promise<string>;
+  onUpdate: (update: LiveUpdate) => void;
+  onStatusChange?: (status: LiveConnectionStatus) => void;
+}
+
+/**
+ * Opens a server-sent events stream of match updates. EventSource's built-in retry
+ * uses a fixed interval, so errors close the stream and reconnect with our own backoff.
+ * A failure to get the URL is retried the same way.
+ * Returns a function that closes the channel for good.
+ */
+export const openLiveChannel = ({ getUrl, onUpdate, onStatusChange }: LiveChannelOptions): (() => void) => {
+  let source: EventSource | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  let attempt = 0;
+  let isClosed = false;
+
+  const retry = () => {
+    if (isClosed) return;
+    onStatusChange?.('reconnecting');
+    retryTimer = setTimeout(connect, getReconnectDelay(attempt++));
+  };
+
+  const connect = async () => {
+    // Retries already reported 'reconnecting' when they were scheduled.
+    if (attempt === 0) onStatusChange?.('connecting');
+    let url: string;
+    try {
+      url = await getUrl();
+    } catch (error) {
+      console.error("Could not prepare the live updates stream:", error);
+      retry();
+      return;
+    }
+    if (isClosed) return;
+    source = new EventSource(url);
+    source.onopen = () => {
+      attempt = 0;
+      onStatusChange?.('open');
+    };
+    source.onmessage = (message) => {
+      try {
+        onUpdate(parseLiveUpdate(JSON.parse(message.data)));
+      } catch (error) {
+        console.error("Ignoring malformed live update:", error);
+      }
+    };
+    source.onerror = () => {
+      source?.close();
+      retry();
+    };
+  };
+
+  connect();
+  return () => {
+    isClosed = true;
+    clearTimeout(retryTimer);
+    source?.close();
+    onStatusChange?.('closed');
+  };
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { MatchPeriod } from '../types';
+import { advanceClock, compareEventTimes, formatClockDisplay, formatEventTime, getClockTransitions, getEventTime, INITIAL_CLOCK } from './matchClock';
+
+const KICK_OFF = Date.UTC(2024, 0, 1, 15, 0);
+const MINUTE = 60000;
+
+// A clock for the given period that started at kick-off.
+const clockIn = (period: MatchPeriod) => advanceClock(period, KICK_OFF);
+
+describe('getEventTime', () => {
+  it('counts minutes from the start of each period', () => {
+    expect(getEventTime(clockIn(MatchPeriod.FIRST_HALF), KICK_OFF)).toEqual({ minute: 1 });
+    expect(getEventTime(clockIn(MatchPeriod.FIRST_HALF), KICK_OFF + 22.5 * MINUTE)).toEqual({ minute: 23 });
+    expect(getEventTime(clockIn(MatchPeriod.SECOND_HALF), KICK_OFF + 10 * MINUTE)).toEqual({ minute: 56 });
+    expect(getEventTime(clockIn(MatchPeriod.EXTRA_TIME_FIRST_HALF), KICK_OFF)).toEqual({ minute: 91 });
+    expect(getEventTime(clockIn(MatchPeriod.EXTRA_TIME_SECOND_HALF), KICK_OFF + 14 * MINUTE)).toEqual({ minute: 120 });
+  });
+
+  it('turns time past the end of a period into added time', () => {
+    expect(getEventTime(clockIn(MatchPeriod.FIRST_HALF), KICK_OFF + 46 * MINUTE)).toEqual({ minute: 45, addedTime: 2 });
+    expect(getEventTime(clockIn(MatchPeriod.SECOND_HALF), KICK_OFF + 45 * MINUTE)).toEqual({ minute: 90, addedTime: 1 });
+    expect(getEventTime(clockIn(MatchPeriod.EXTRA_TIME_FIRST_HALF), KICK_OFF + 17 * MINUTE)).toEqual({ minute: 105, addedTime: 3 });
+  });
+
+  it('puts events during a break at the end of the previous period', () => {
+    expect(getEventTime(clockIn(MatchPeriod.HALF_TIME), KICK_OFF + 5 * MINUTE)).toEqual({ minute: 45 });
+    expect(getEventTime(clockIn(MatchPeriod.EXTRA_TIME_BREAK))).toEqual({ minute: 90 });
+    expect(getEventTime(clockIn(MatchPeriod.EXTRA_TIME_HALF_TIME))).toEqual({ minute: 105 });
+  });
+
+  it('has no minute before kick-off, after full time or without a clock', () => {
+    expect(getEventTime(INITIAL_CLOCK)).toBeNull();
+    expect(getEventTime(clockIn(MatchPeriod.FULL_TIME))).toBeNull();
+    expect(getEventTime(undefined)).toBeNull();
+  });
+});
+
+describe('event time display and order', () => {
+  it('formats added time and sorts it after the minute it belongs to', () => {
+    const times = [{ minute: 46 }, { minute: 45, addedTime: 2 }, { minute: 45 }];
+    expect([...times].sort(compareEventTimes).map(formatEventTime)).toEqual(["45'", "45+2'", "46'"]);
+  });
+
+  it('runs the scoreboard clock on from the period start minute, and stops it in breaks', () => {
+    expect(formatClockDisplay(clockIn(MatchPeriod.SECOND_HALF), KICK_OFF + 65 * 1000)).toBe('46:05');
+    expect(formatClockDisplay(clockIn(MatchPeriod.HALF_TIME), KICK_OFF + 10 * MINUTE)).toBe('45:00');
+  });
+});
+
+describe('getClockTransitions', () => {
+  it('only offers extra time when the match format allows it', () => {
+    const secondHalf = clockIn(MatchPeriod.SECOND_HALF);
+    expect(getClockTransitions(secondHalf, false).map(t => t.period)).toEqual([MatchPeriod.FULL_TIME]);
+    expect(getClockTransitions(secondHalf, true).map(t => t.period)).toEqual([MatchPeriod.FULL_TIME, MatchPeriod.EXTRA_TIME_BREAK]);
+    expect(getClockTransitions(clockIn(MatchPeriod.FULL_TIME), true)).toEqual([]);
+  });
+});
@@ -0,0 +1,117 @@
+import { MatchClock, MatchPeriod, EventTime } from '../types';
+
+// Regulation minute range covered by each playing period.
+const PERIOD_SPANS: Partial<Record<MatchPeriod, { start: number; end: number }>> = {
+  [MatchPeriod.FIRST_HALF]: { start: 0, end: 45 },
+  [MatchPeriod.SECOND_HALF]: { start: 45, end: 90 },
+  [MatchPeriod.EXTRA_TIME_FIRST_HALF]: { start: 90, end: 105 },
+  [MatchPeriod.EXTRA_TIME_SECOND_HALF]: { start: 105, end: 120 },
+};
+
+// During a break, late events (e.g. a card shown walking off) belong to the end of the previous period.
+const BREAK_MINUTES: Partial<Record<MatchPeriod, number>> = {
+  [MatchPeriod.HALF_TIME]: 45,
+  [MatchPeriod.EXTRA_TIME_BREAK]: 90,
+  [MatchPeriod.EXTRA_TIME_HALF_TIME]: 105,
+};
+
+export const PERIOD_LABELS: Record<MatchPeriod, string> = {
+  [MatchPeriod.NOT_STARTED]: 'Not Started',
+  [MatchPeriod.FIRST_HALF]: 'First Half',
+  [MatchPeriod.HALF_TIME]: 'Half Time',
+  [MatchPeriod.SECOND_HALF]: 'Second Half',
+  [MatchPeriod.EXTRA_TIME_BREAK]: 'Before Extra Time',
+  [MatchPeriod.EXTRA_TIME_FIRST_HALF]: 'Extra Time - First Half',
+  [MatchPeriod.EXTRA_TIME_HALF_TIME]: 'Extra Time - Half Time',
+  [MatchPeriod.EXTRA_TIME_SECOND_HALF]: 'Extra Time - Second Half',
+  [MatchPeriod.FULL_TIME]: 'Full Time',
+};
+
+export const INITIAL_CLOCK: MatchClock = {
+  period: MatchPeriod.NOT_STARTED,
+  periodStartedAt: null,
+  stoppageMinutes: 0,
+};
+
+export const isClockRunning = (clock: MatchClock): boolean =>
+  !!PERIOD_SPANS[clock.period] && !!clock.periodStartedAt;
+
+// Milliseconds played in the current period, or 0 when the ball is not in play.
+const getPeriodElapsedMs = (clock: MatchClock, now: number): number => {
+  if (!isClockRunning(clock)) return 0;
+  return Math.max(0, now - new Date(clock.periodStartedAt!).getTime());
+};
+
+/**
+ * The minute to stamp on an event happening right now. Once regulation time in a
+ * period is up the minute is frozen at the period end and the overflow becomes
+ * added time, so a goal two minutes into first-half stoppage reads 45+2'.
+ */
+export const getEventTime = (clock: MatchClock | undefined, now: number = Date.now()): EventTime | null => {
+  if (!clock) return null;
+  const span = PERIOD_SPANS[clock.period];
+  if (!span) {
+    const breakMinute = BREAK_MINUTES[clock.period];
+    return breakMinute !== undefined ? { minute: breakMinute } : null;
+  }
+  const minute = span.start + Math.floor(getPeriodElapsedMs(clock, now) / 60000) + 1;
+  if (minute > span.end) {
+    return { minute: span.end, addedTime: minute - span.end };
+  }
+  return { minute };
+};
+
+export const formatEventTime = (time: EventTime): string =>
+  time.addedTime ? `${time.minute}+${time.addedTime}'` : `${time.minute}'`;
+
+// Running "mm:ss" display for the scoreboard, counting from the period's start minute.
+export const formatClockDisplay = (clock: MatchClock | undefined, now: number = Date.now()): string => {
+  if (!clock) return '00:00';
+  const span = PERIOD_SPANS[clock.period];
+  const baseMinute = span ? span.start : (BREAK_MINUTES[clock.period] ?? 0);
+  const totalSeconds = baseMinute * 60 + Math.floor(getPeriodElapsedMs(clock, now) / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+};
+
+export const compareEventTimes = (a: EventTime, b: EventTime): number =>
+  a.minute - b.minute || (a.addedTime || 0) - (b.addedTime || 0);
+
+export interface ClockTransition {
+  label: string;
+  period: MatchPeriod;
+}
+
+// The actions a scorer can take from the current period. Extra time is only
+// offered for matches whose format allows it.
+export const getClockTransitions = (clock: MatchClock, allowExtraTime: boolean): ClockTransition[] => {
+  switch (clock.period) {
+    case MatchPeriod.NOT_STARTED:
+      return [{ label: 'Kick-off', period: MatchPeriod.FIRST_HALF }];
+    case MatchPeriod.FIRST_HALF:
+      return [{ label: 'Half Time', period: MatchPeriod.HALF_TIME }];
+    case MatchPeriod.HALF_TIME:
+      return [{ label: 'Start Second Half', period: MatchPeriod.SECOND_HALF }];
+    case MatchPeriod.SECOND_HALF:
+      return allowExtraTime
+        ? [{ label: 'Full Time', period: MatchPeriod.FULL_TIME }, { label: 'Go to Extra Time', period: MatchPeriod.EXTRA_TIME_BREAK }]
+        : [{ label: 'Full Time', period: MatchPeriod.FULL_TIME }];
+    case MatchPeriod.EXTRA_TIME_BREAK:
+      return [{ label: 'Start Extra Time', period: MatchPeriod.EXTRA_TIME_FIRST_HALF }];
+    case MatchPeriod.EXTRA_TIME_FIRST_HALF:
+      return [{ label: 'Extra Time Half Time', period: MatchPeriod.EXTRA_TIME_HALF_TIME }];
+    case MatchPeriod.EXTRA_TIME_HALF_TIME:
+      return [{ label: 'Start Extra Time Second Half', period: MatchPeriod.EXTRA_TIME_SECOND_HALF }];
+    case MatchPeriod.EXTRA_TIME_SECOND_HALF:
+      return [{ label: 'Full Time', period: MatchPeriod.FULL_TIME }];
+    default:
+      return [];
+  }
+};
+
+export const advanceClock = (period: MatchPeriod, now: number = Date.now()): MatchClock => ({
+  period,
+  periodStartedAt: PERIOD_SPANS[period] ? new Date(now).toISOString() : null,
+  stoppageMinutes: 0,
+});
@@ -0,0 +1,105 @@
+import { Match, Goal, Card, CardType, MatchEvent, MatchEventType } from '../types';
+import { compareEventTimes, formatEventTime } from './matchClock';
+
+export type RecordedEvent =
+  | { kind: 'goal'; event: Goal }
+  | { kind: 'card'; event: Card }
+  | { kind: 'event'; event: MatchEvent };
+
+interface MatchEventMeta {
+  label: string;
+  icon: string;
+  color: string;
+  playerLabel: string; // Label of the player picker
+  quickAction: boolean; // Recorded from a team's quick-action buttons
+  describe: (player: string) => string;
+}
+
+// Display details for each event type. Adding a type to MatchEventType and here is
+// enough for it to be recorded, shown on the timelines and counted per player.
+export const MATCH_EVENT_META: Record<MatchEventType, MatchEventMeta> = {
+  [MatchEventType.PENALTY_MISSED]: { label: 'Penalty Missed', icon: '✗', color: 'text-red-400', playerLabel: 'Penalty taker', quickAction: true, describe: player => `penalty missed by ${player}` },
+  [MatchEventType.SHOT_ON_TARGET]: { label: 'Shot on Target', icon: '◎', color: 'text-green-300', playerLabel: 'Shooter', quickAction: true, describe: player => `shot on target by ${player}` },
+  [MatchEventType.SAVE]: { label: 'Save', icon: '🧤', color: 'text-blue-300', playerLabel: 'Goalkeeper', quickAction: true, describe: player => `save by ${player}` },
+  [MatchEventType.INJURY]: { label: 'Injury', icon: '✚', color: 'text-red-300', playerLabel: 'Injured player', quickAction: true, describe: player => `injury to ${player}` },
+  // Recorded by reviewing an existing goal or card, which the overturn removes.
+  [MatchEventType.VAR_OVERTURN]: { label: 'VAR Overturn', icon: 'VAR', color: 'text-purple-300', playerLabel: 'Player', quickAction: false, describe: player => `VAR overturn involving ${player}` },
+};
+
+export const QUICK_ACTION_EVENT_TYPES = (Object.keys(MATCH_EVENT_META) as MatchEventType[]).filter(type => MATCH_EVENT_META[type].quickAction);
+
+// The scoreline implied by a list of goals. Each goal is credited to the team that benefits from it,
+// so own goals need no special handling here.
+export const calculateMatchScore = (match: Match, goals: Goal[] = match.goals) => ({
+  scoreA: goals.filter(g => g.teamId === match.teamAId?._id).length,
+  scoreB: goals.filter(g => g.teamId === match.teamBId?._id).length,
+});
+
+// All goals, cards and other events of a match in timeline order.
+export const getMatchEvents = (match: Match): RecordedEvent[] => {
+  const goals: RecordedEvent[] = match.goals.map(event => ({ kind: 'goal', event }));
+  const cards: RecordedEvent[] = match.cards.map(event => ({ kind: 'card', event }));
+  const events: RecordedEvent[] = (match.events || []).map(event => ({ kind: 'event', event }));
+  return [...goals, ...cards, ...events].sort((a, b) => compareEventTimes(a.event, b.event));
+};
+
+/**
+ * The event the scorer entered most recently, which is what "undo" should remove.
+ * This is not necessarily the latest on the timeline, since minutes can be
+ * overridden, so the server's creation timestamp wins when both events have one.
+ */
+export const getLastRecordedEvent = (match: Match): RecordedEvent | null => {
+  const candidates: RecordedEvent[] = [];
+  const lastGoal = match.goals[match.goals.length - 1];
+  const lastCard = match.cards[match.cards.length - 1];
+  const lastEvent = match.events?.[match.events.length - 1];
+  if (lastGoal) candidates.push({ kind: 'goal', event: lastGoal });
+  if (lastCard) candidates.push({ kind: 'card', event: lastCard });
+  if (lastEvent) candidates.push({ kind: 'event', event: lastEvent });
+  return candidates.reduce<RecordedEvent | null>((latest, candidate) => {
+    if (!latest) return candidate;
+    if (latest.event.createdAt && candidate.event.createdAt) {
+      return candidate.event.createdAt > latest.event.createdAt ? candidate : latest;
+    }
+    return compareEventTimes(candidate.event, latest.event) > 0 ? candidate : latest;
+  }, null);
+};
+
+export const describeGoal = (goal: Goal): string => {
+  const scorer = goal.scorerId?.profile?.name || 'unknown player';
+  const kind = goal.isOwnGoal ? 'own goal' : goal.isPenalty ? 'penalty' : 'goal';
+  return `${kind} by ${scorer} (${formatEventTime(goal)})`;
+};
+
+export const describeCard = (card: Card): string => {
+  const player = card.playerId?.profile?.name || 'unknown player';
+  const kind = card.isSecondYellow ? 'second yellow (red)' : card.type.toLowerCase();
+  return `${kind} card for ${player} (${formatEventTime(card)})`;
+};
+
+export const describeMatchEvent = (event: MatchEvent): string => {
+  if (event.type === MatchEventType.VAR_OVERTURN) {
+    return `VAR overturned the ${event.note || 'decision'} (${formatEventTime(event)})`;
+  }
+  const player = event.playerId?.profile?.name || 'unknown player';
+  const summary = MATCH_EVENT_META[event.type]?.describe(player) || `event involving ${player}`;
+  return `${summary}${event.note ? `: ${event.note}` : ''} (${formatEventTime(event)})`;
+};
+
+export const describeRecordedEvent = (recorded: RecordedEvent): string =>
+  recorded.kind === 'goal' ? describeGoal(recorded.event)
+  : recorded.kind === 'card' ? describeCard(recorded.event)
+  : describeMatchEvent(recorded.event);
+
+// Players shown a red card, straight or for a second yellow, take no further part in the match.
+export const getSentOffPlayerIds = (match: Match): Set<string> =>
+  new Set(match.cards.filter(c => c.type === CardType.RED && c.playerId?._id).map(c => c.playerId._id));
+
+export const hasYellowCard = (match: Match, playerId: string): boolean =>
+  match.cards.some(c => c.type === CardType.YELLOW && c.playerId?._id === playerId);
+
+// The card to actually record: a yellow for a player already booked in this match becomes a red.
+export const resolveCardType = (match: Match, playerId: string, cardType: CardType): { cardType: CardType, isSecondYellow: boolean } =>
+  cardType === CardType.YELLOW && hasYellowCard(match, playerId)
+    ? { cardType: CardType.RED, isSecondYellow: true }
+    : { cardType, isSecondYellow: false };
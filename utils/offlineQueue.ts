@@ -0,0 +1,124 @@
+import { Tournament, Match, User, Goal, Card, MatchEvent, QueuedMatchEvent } from '../types';
+import { getTournamentPlayers } from './squads';
+
+// Goals, cards and other events recorded without a connection are kept in IndexedDB so they survive
+// a reload, and are replayed to the server in the order they were recorded.
+const DB_NAME = 'asl-offline';
+const STORE_NAME = 'matchEvents';
+
+const openQueueDb = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      // The auto-incrementing key doubles as the replay order.
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const runQueueRequest = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openQueueDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = action(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => {
+      db.close();
+      resolve(request.result);
+    };
+    transaction.onerror = () => {
+      db.close();
+      reject(transaction.error);
+    };
+  });
+};
+
+export const enqueueMatchEvent = async (event: Omit<QueuedMatchEvent, 'id'>): Promise<QueuedMatchEvent> => {
+  const id = await runQueueRequest('readwrite', store => store.add(event));
+  return { ...event, id: id as number } as QueuedMatchEvent;
+};
+
+export const getQueuedMatchEvents = async (): Promise<QueuedMatchEvent[]> => {
+  const events = await runQueueRequest<QueuedMatchEvent[]>('readonly', store => store.getAll());
+  return events.sort((a, b) => (a.id || 0) - (b.id || 0));
+};
+
+export const removeQueuedMatchEvent = (id: number): Promise<undefined> =>
+  runQueueRequest('readwrite', store => store.delete(id));
+
+// fetch() rejects with a TypeError when the request never reached the server;
+// HTTP errors are turned into plain Errors by the API client.
+export const isNetworkError = (error: unknown): boolean => error instanceof TypeError;
+
+// Adds goals, cards and other events that the server hasn't confirmed yet to a match,
+// keeping the score in step. `players` resolves the player IDs in their payloads.
+export const applyQueuedEventsToMatch = (match: Match, events: QueuedMatchEvent[], players: User[]): Match => {
+  if (events.length === 0) return match;
+  const findPlayer = (playerId?: string) => players.find(p => p._id === playerId);
+  const goals: Goal[] = [...match.goals];
+  const cards: Card[] = [...match.cards];
+  const otherEvents: MatchEvent[] = [...(match.events || [])];
+  let { scoreA, scoreB } = match;
+  events.forEach(event => {
+    if (event.kind === 'goal') {
+      const scorer = findPlayer(event.payload.scorerId);
+      if (!scorer) return;
+      goals.push({
+        scorerId: scorer,
+        assistId: findPlayer(event.payload.assistId),
+        minute: event.payload.minute ?? 0,
+        addedTime: event.payload.addedTime,
+        isOwnGoal: !!event.payload.isOwnGoal,
+        isPenalty: event.payload.isPenalty,
+        teamId: event.payload.benefitingTeamId,
+        createdAt: event.queuedAt,
+      });
+      if (event.payload.benefitingTeamId === match.teamAId?._id) scoreA++;
+      else if (event.payload.benefitingTeamId === match.teamBId?._id) scoreB++;
+    } else if (event.kind === 'event') {
+      otherEvents.push({
+        type: event.payload.type,
+        teamId: event.payload.teamId,
+        playerId: findPlayer(event.payload.playerId),
+        minute: event.payload.minute ?? 0,
+        addedTime: event.payload.addedTime,
+        note: event.payload.note,
+        createdAt: event.queuedAt,
+      });
+    } else {
+      const player = findPlayer(event.payload.playerId);
+      if (!player) return;
+      cards.push({
+        playerId: player,
+        minute: event.payload.minute ?? 0,
+        addedTime: event.payload.addedTime,
+        type: event.payload.cardType,
+        teamId: event.payload.teamId,
+        isSecondYellow: event.payload.isSecondYellow,
+        createdAt: event.queuedAt,
+      });
+    }
+  });
+  return { ...match, goals, cards, events: otherEvents, scoreA, scoreB };
+};
+
+/**
+ * Layers queued events on top of the last tournament data received from the server,
+ * so the score header and timeline reflect them before they are synced.
+ * Queued events have no _id, which keeps them out of edit/delete actions.
+ */
+export const applyQueuedEvents = (tournaments: Tournament[], events: QueuedMatchEvent[]): Tournament[] => {
+  if (events.length === 0) return tournaments;
+  return tournaments.map(tournament => {
+    const tournamentEvents = events.filter(e => e.tournamentId === tournament._id);
+    if (tournamentEvents.length === 0) return tournament;
+    const players = getTournamentPlayers(tournament);
+    return {
+      ...tournament,
+      matches: tournament.matches.map(match =>
+        applyQueuedEventsToMatch(match, tournamentEvents.filter(e => e.matchId === match._id), players)
+      ),
+    };
+  });
+};
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { User } from '../types';
+import { can, PermissionAction, PermissionResource } from './permissions';
+import { buildMatch, buildTeam, buildTournament, buildUser } from './testFixtures';
+
+const creator = buildUser('creator');
+const coOrganizer = buildUser('co-organizer');
+const assignedScorekeeper = buildUser('assigned-scorekeeper');
+const otherScorekeeper = buildUser('other-scorekeeper');
+const referee = buildUser('referee');
+const teamAdmin = buildUser('team-admin');
+const member = buildUser('member');
+
+const team = buildTeam('team', [teamAdmin, member]);
+
+const match = buildMatch({ teamAId: team, refereeId: referee, scorekeeperId: assignedScorekeeper });
+
+const tournament = buildTournament({
+  adminId: creator._id,
+  teams: [team],
+  matches: [match],
+  organizers: [coOrganizer],
+  scorekeepers: [assignedScorekeeper, otherScorekeeper],
+  referees: [referee],
+});
+
+const RESOURCES: { [A in PermissionAction]: PermissionResource<A> } = {
+  'team:manage': team,
+  'tournament:manage': tournament,
+  'tournament:manageStaff': tournament,
+  'squad:manage': { tournament, team },
+  'match:assignOfficials': { tournament, match },
+  'match:score': { tournament, match },
+};
+
+const ACTIONS = Object.keys(RESOURCES) as PermissionAction[];
+
+// The actions each role may perform; everything else is refused.
+const ROLES: [string, User | null, PermissionAction[]][] = [
+  ['creator', creator, ['tournament:manage', 'tournament:manageStaff', 'squad:manage', 'match:assignOfficials', 'match:score']],
+  ['co-organizer', coOrganizer, ['tournament:manage', 'tournament:manageStaff', 'squad:manage', 'match:assignOfficials', 'match:score']],
+  ['scorekeeper assigned to the match', assignedScorekeeper, ['match:score']],
+  ['scorekeeper not assigned to the match', otherScorekeeper, []],
+  ['referee', referee, []],
+  ['team admin', teamAdmin, ['team:manage', 'squad:manage']],
+  ['plain member', member, []],
+  ['logged-out user', null, []],
+];
+
+describe('can', () => {
+  describe.each(ROLES)('%s', (_, roleUser, allowed) => {
+    it.each(ACTIONS)('%s', action => {
+      expect(can(roleUser, action, RESOURCES[action])).toBe(allowed.includes(action));
+    });
+  });
+
+  it('refuses every action without a resource', () => {
+    ACTIONS.forEach(action => expect(can(creator, action, null)).toBe(false));
+  });
+});
@@ -0,0 +1,36 @@
+import { Match, Team, Tournament, User } from '../types';
+import { isOrganizer } from './tournamentRoles';
+
+// The resource each action is checked against.
+interface PermissionResources {
+  'team:manage': Team; // Edit details, members, admins and captains
+  'tournament:manage': Tournament; // Settings, fixtures, results, discipline and the bracket
+  'tournament:manageStaff': Tournament;
+  'squad:manage': { tournament: Tournament, team: Team };
+  'match:assignOfficials': { tournament: Tournament, match: Match };
+  'match:score': { tournament: Tournament, match: Match }; // Start the match and run live scoring
+}
+
+export type PermissionAction = keyof PermissionResources;
+export type PermissionResource<A extends PermissionAction> = PermissionResources[A];
+
+export const isTeamAdmin = (team: Team, userId: string): boolean =>
+  team.adminIds.some(admin => admin?._id === userId);
+
+const RULES: { [A in PermissionAction]: (user: User, resource: PermissionResources[A]) => boolean } = {
+  'team:manage': (user, team) => isTeamAdmin(team, user._id),
+  'tournament:manage': (user, tournament) => isOrganizer(tournament, user._id),
+  'tournament:manageStaff': (user, tournament) => isOrganizer(tournament, user._id),
+  // Team admins register their own players; organizers can change any squad.
+  'squad:manage': (user, { tournament, team }) => isOrganizer(tournament, user._id) || isTeamAdmin(team, user._id),
+  'match:assignOfficials': (user, { tournament }) => isOrganizer(tournament, user._id),
+  // Besides organizers, only the scorekeeper assigned to the match. Referees are assigned but don't score.
+  'match:score': (user, { tournament, match }) => isOrganizer(tournament, user._id) || match.scorekeeperId?._id === user._id,
+};
+
+/**
+ * Whether the user may perform an action. These checks only decide what the UI offers;
+ * the server enforces the same rules on every request. Logged-out users can do nothing.
+ */
+export const can = <A extends PermissionAction>(user: User | null | undefined, action: A, resource: PermissionResource<A> | null | undefined): boolean =>
+  !!user && !!resource && RULES[action](user, resource);
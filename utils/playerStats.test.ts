@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { CardType, Match, MatchEventType, MatchStatus, PlayerPosition, User } from '../types';
+import { calculateGoldenGlove, calculateLeaderRows, calculatePlayerStats, getCareerDefensiveRecord, getShotsOnTarget, rankLeaderRows } from './playerStats';
+import { buildCard, buildGoal, buildMatch, buildTeam, buildTournament, buildUser } from './testFixtures';
+
+const keeper = (id: string) => buildUser(id, { position: PlayerPosition.GOALKEEPER });
+const [firstChoice, backup, rivalKeeper] = ['first-choice', 'backup', 'rival-keeper'].map(keeper);
+const [defender, striker] = [buildUser('defender', { position: PlayerPosition.DEFENDER }), buildUser('striker', { position: PlayerPosition.FORWARD })];
+const home = buildTeam('home', [firstChoice, backup, defender]);
+const away = buildTeam('away', [rivalKeeper, striker]);
+
+const fixture = (matchNumber: number, homeKeeper: User, overrides: Partial<Match> = {}): Match => buildMatch({
+  _id: `match-${matchNumber}`,
+  matchNumber,
+  teamAId: home,
+  teamBId: away,
+  status: MatchStatus.FINISHED,
+  lineups: [
+    { teamId: 'home', starters: [homeKeeper, defender], bench: [homeKeeper === firstChoice ? backup : firstChoice] },
+    { teamId: 'away', starters: [rivalKeeper, striker], bench: [] },
+  ],
+  ...overrides,
+});
+
+const save = (minute: number) => ({ type: MatchEventType.SAVE, teamId: 'away', playerId: rivalKeeper, minute });
+
+const matches = [
+  fixture(1, firstChoice, { goals: [buildGoal(defender, 'home', 10), buildGoal(striker, 'away', 30)] }),
+  // The first choice goes off injured before the hour, so the backup concedes the only goal.
+  fixture(2, firstChoice, {
+    goals: [buildGoal(striker, 'away', 70)],
+    substitutions: [{ teamId: 'home', playerOffId: firstChoice, playerOnId: backup, minute: 40 }],
+    events: [save(20), save(55)],
+  }),
+  // The backup plays 70 minutes before being sent off; the goal after that isn't theirs.
+  fixture(3, backup, { goals: [buildGoal(striker, 'away', 80)], cards: [buildCard(backup, 'home', CardType.RED, 70)], events: [save(5)] }),
+  fixture(4, backup, { status: MatchStatus.LIVE, goals: [buildGoal(striker, 'away', 5)] }),
+];
+
+const tournament = buildTournament({ teams: [home, away], matches });
+
+describe('calculateGoldenGlove', () => {
+  it('ranks goalkeepers by clean sheets, then goals conceded while they were on the pitch', () => {
+    expect(calculateGoldenGlove(tournament).map(({ player, ...record }) => [player._id, record])).toEqual([
+      ['rival-keeper', { teamId: 'away', appearances: 3, cleanSheets: 2, goalsConceded: 1, saves: 3 }],
+      ['backup', { teamId: 'home', appearances: 2, cleanSheets: 1, goalsConceded: 1, saves: 0 }],
+      ['first-choice', { teamId: 'home', appearances: 2, cleanSheets: 0, goalsConceded: 1, saves: 0 }],
+    ]);
+  });
+
+  it('takes goalkeepers from the registered squads', () => {
+    const registered = { ...tournament, squads: [{ teamId: 'home', players: [firstChoice, defender] }, { teamId: 'away', players: [striker] }] };
+    expect(calculateGoldenGlove(registered).map(entry => entry.player._id)).toEqual(['first-choice']);
+  });
+});
+
+describe('getCareerDefensiveRecord', () => {
+  it('adds up tournaments, counting a whole match for players in matches without lineups', () => {
+    const older = buildTournament({ _id: 'older', teams: [home, away], matches: [fixture(1, firstChoice, { lineups: undefined })] });
+    expect(getCareerDefensiveRecord([tournament, older], 'defender')).toEqual({ appearances: 4, cleanSheets: 1, goalsConceded: 3, saves: 0 });
+  });
+});
+
+describe('calculatePlayerStats', () => {
+  it('credits scorers and assisters, but not own goals', () => {
+    const stats = calculatePlayerStats([buildMatch({
+      goals: [
+        buildGoal(striker, 'away', 10, { assistId: rivalKeeper, isPenalty: true }),
+        buildGoal(defender, 'away', 20, { isOwnGoal: true }),
+      ],
+      events: [{ type: MatchEventType.SHOT_ON_TARGET, teamId: 'away', playerId: striker, minute: 5 }],
+    })]);
+    const byPlayer = new Map(stats.map(s => [s.player._id, s]));
+    expect(byPlayer.get('striker')).toMatchObject({ goals: 1, penaltiesScored: 1 });
+    expect(getShotsOnTarget(byPlayer.get('striker')!)).toBe(2);
+    expect(byPlayer.get('rival-keeper')).toMatchObject({ goals: 0, assists: 1 });
+    expect(byPlayer.has('defender')).toBe(false);
+  });
+});
+
+describe('leaders', () => {
+  const reserve = buildUser('reserve');
+  const rows = calculateLeaderRows(buildTournament({ teams: [buildTeam('home', [...home.members, reserve]), away], matches }));
+  const row = (playerId: string) => rows.find(r => r.player._id === playerId);
+
+  it('totals finished matches and works out rates per match and per 90 minutes', () => {
+    expect(row('striker')).toMatchObject({ teamId: 'away', appearances: 3, minutes: 270, goals: 3, goalsPerMatch: 1, goalsPer90: 1 });
+    expect(row('backup')).toMatchObject({ appearances: 2, minutes: 120, redCards: 1 });
+    expect(row('reserve')).toMatchObject({ appearances: 0, minutes: 0, goalsPerMatch: null, goalsPer90: null });
+  });
+
+  it('shares ranks between level players and lists them by name', () => {
+    expect(rankLeaderRows(rows, 'goals').map(r => [r.player._id, r.rank])).toEqual([
+      ['striker', 1],
+      ['defender', 2],
+      ['backup', 3],
+      ['first-choice', 3],
+      ['reserve', 3],
+      ['rival-keeper', 3],
+    ]);
+  });
+
+  it('lists players without a rate last, whichever way the table is sorted', () => {
+    expect(rankLeaderRows(rows, 'goalsPer90', false).map(r => r.player._id).slice(-1)).toEqual(['reserve']);
+    expect(rankLeaderRows(rows, 'goalsPer90').map(r => r.player._id).slice(-1)).toEqual(['reserve']);
+  });
+});
@@ -0,0 +1,208 @@
+import { CardType, Match, MatchEventType, MatchStatus, PlayerPosition, Tournament, User } from '../types';
+import { getAppearance } from './lineups';
+import { getSquad, getSquadTeam, getTournamentPlayers } from './squads';
+
+export interface PlayerStats {
+  player: User;
+  goals: number; // Own goals are not counted
+  assists: number;
+  penaltiesScored: number;
+  events: Record<MatchEventType, number>; // How often the player was involved in each other event type
+}
+
+const emptyEventCounts = (): Record<MatchEventType, number> =>
+  Object.values(MatchEventType).reduce((counts, type) => ({ ...counts, [type]: 0 }), {} as Record<MatchEventType, number>);
+
+// A goal is a shot on target too, so scorers aren't penalised for not having their shots logged separately.
+export const getShotsOnTarget = (stats: PlayerStats): number => stats.goals + stats.events[MatchEventType.SHOT_ON_TARGET];
+
+export const getPenaltiesTaken = (stats: PlayerStats): number => stats.penaltiesScored + stats.events[MatchEventType.PENALTY_MISSED];
+
+// Per-player totals across the given matches, for every player involved in at least one event.
+export const calculatePlayerStats = (matches: Match[]): PlayerStats[] => {
+  const stats = new Map<string, PlayerStats>();
+  const statsFor = (player: User) => {
+    if (!stats.has(player._id)) {
+      stats.set(player._id, { player, goals: 0, assists: 0, penaltiesScored: 0, events: emptyEventCounts() });
+    }
+    return stats.get(player._id)!;
+  };
+
+  matches.forEach(match => {
+    match.goals.forEach(goal => {
+      if (goal.scorerId && !goal.isOwnGoal) {
+        const scorer = statsFor(goal.scorerId);
+        scorer.goals++;
+        if (goal.isPenalty) scorer.penaltiesScored++;
+      }
+      if (goal.assistId) statsFor(goal.assistId).assists++;
+    });
+    (match.events || []).forEach(event => {
+      if (!event.playerId) return;
+      const counts = statsFor(event.playerId).events;
+      counts[event.type] = (counts[event.type] || 0) + 1;
+    });
+  });
+  return [...stats.values()].filter(s => s.player.profile);
+};
+
+// Positions whose record is judged on the goals their team lets in.
+export const DEFENSIVE_POSITIONS = [PlayerPosition.GOALKEEPER, PlayerPosition.DEFENDER];
+
+// Minutes a player must be on the pitch for a clean sheet to count, as in most fantasy and award schemes.
+export const CLEAN_SHEET_MINUTES = 60;
+
+export interface DefensiveRecord {
+  appearances: number;
+  cleanSheets: number;
+  goalsConceded: number; // Only goals let in while the player was on the pitch
+  saves: number;
+}
+
+const emptyDefensiveRecord = (): DefensiveRecord => ({ appearances: 0, cleanSheets: 0, goalsConceded: 0, saves: 0 });
+
+/**
+ * A player's defensive contribution to one finished match. Goals conceded are limited to the
+ * player's time on the pitch when lineups were recorded; otherwise the player is assumed to
+ * have played the whole match.
+ */
+const addMatchToRecord = (record: DefensiveRecord, match: Match, playerId: string, tournament: Tournament) => {
+  const appearance = getAppearance(match, playerId, tournament);
+  if (!appearance) return;
+  const { onPitch } = appearance;
+  const conceded = match.goals.filter(g =>
+    g.teamId !== appearance.teamId && (!onPitch || (g.minute >= onPitch.from && g.minute <= onPitch.until))
+  ).length;
+  const playedEnough = appearance.minutes === null ? appearance.started : appearance.minutes >= CLEAN_SHEET_MINUTES;
+  record.appearances++;
+  record.goalsConceded += conceded;
+  if (conceded === 0 && playedEnough) record.cleanSheets++;
+  record.saves += (match.events || []).filter(e => e.type === MatchEventType.SAVE && e.playerId?._id === playerId).length;
+};
+
+export const isDefensivePlayer = (player: User): boolean =>
+  !!player.profile?.position && DEFENSIVE_POSITIONS.includes(player.profile.position);
+
+// A player's defensive record across all finished matches, for profile pages.
+export const getCareerDefensiveRecord = (tournaments: Tournament[], playerId: string): DefensiveRecord => {
+  const record = emptyDefensiveRecord();
+  tournaments.forEach(tournament => {
+    tournament.matches
+      .filter(m => m.status === MatchStatus.FINISHED)
+      .forEach(match => addMatchToRecord(record, match, playerId, tournament));
+  });
+  return record;
+};
+
+export interface GoldenGloveEntry extends DefensiveRecord {
+  player: User;
+  teamId: string;
+}
+
+/**
+ * The tournament's goalkeepers ranked for the Golden Glove: most clean sheets, then fewest
+ * goals conceded, then most saves. Goalkeepers are taken from the registered squads.
+ */
+export const calculateGoldenGlove = (tournament: Tournament): GoldenGloveEntry[] => {
+  const finishedMatches = tournament.matches.filter(m => m.status === MatchStatus.FINISHED);
+  return tournament.teams
+    .flatMap(team => getSquad(tournament, team._id)
+      .filter(player => player.profile.position === PlayerPosition.GOALKEEPER)
+      .map(player => {
+        const record = emptyDefensiveRecord();
+        finishedMatches.forEach(match => addMatchToRecord(record, match, player._id, tournament));
+        return { player, teamId: team._id, ...record };
+      }))
+    .filter(entry => entry.appearances > 0)
+    .sort((a, b) => b.cleanSheets - a.cleanSheets || a.goalsConceded - b.goalsConceded || b.saves - a.saves);
+};
+
+export interface LeaderRow {
+  player: User;
+  teamId: string | null; // The team the player is registered with
+  appearances: number;
+  minutes: number;
+  goals: number;
+  assists: number;
+  goalContributions: number; // Goals plus assists
+  yellowCards: number; // Includes the second yellow of a player sent off for two bookings
+  redCards: number;
+  potm: number;
+  goalsPerMatch: number | null; // null until the player has appeared
+  contributionsPerMatch: number | null;
+  goalsPer90: number | null; // null until minutes are known from lineups
+  contributionsPer90: number | null;
+}
+
+export type LeaderStat = Exclude<keyof LeaderRow, 'player' | 'teamId'>;
+
+const perMatch = (total: number, matches: number): number | null => matches > 0 ? total / matches : null;
+const per90 = (total: number, minutes: number): number | null => minutes > 0 ? total * 90 / minutes : null;
+
+/**
+ * One row per tournament player with their totals and rates from the finished matches.
+ * Live matches are left out so rates aren't skewed by a match still in progress.
+ */
+export const calculateLeaderRows = (tournament: Tournament): LeaderRow[] => {
+  const finishedMatches = tournament.matches.filter(m => m.status === MatchStatus.FINISHED);
+  const stats = new Map(calculatePlayerStats(finishedMatches).map(s => [s.player._id, s]));
+  return getTournamentPlayers(tournament).filter(p => p.profile).map(player => {
+    let appearances = 0;
+    let minutes = 0;
+    let yellowCards = 0;
+    let redCards = 0;
+    let potm = 0;
+    finishedMatches.forEach(match => {
+      const appearance = getAppearance(match, player._id, tournament);
+      if (appearance) {
+        appearances++;
+        minutes += appearance.minutes || 0;
+      }
+      match.cards.filter(c => c.playerId?._id === player._id).forEach(card => {
+        if (card.type === CardType.YELLOW || card.isSecondYellow) yellowCards++;
+        if (card.type === CardType.RED) redCards++;
+      });
+      if (match.playerOfTheMatchId?._id === player._id) potm++;
+    });
+    const goals = stats.get(player._id)?.goals || 0;
+    const assists = stats.get(player._id)?.assists || 0;
+    const goalContributions = goals + assists;
+    return {
+      player,
+      teamId: getSquadTeam(tournament, player._id)?._id || null,
+      appearances,
+      minutes,
+      goals,
+      assists,
+      goalContributions,
+      yellowCards,
+      redCards,
+      potm,
+      goalsPerMatch: perMatch(goals, appearances),
+      contributionsPerMatch: perMatch(goalContributions, appearances),
+      goalsPer90: per90(goals, minutes),
+      contributionsPer90: per90(goalContributions, minutes),
+    };
+  });
+};
+
+export type RankedLeaderRow = LeaderRow & { rank: number };
+
+/**
+ * Sorts rows by a stat and ranks them. Players level on the stat share a rank and the
+ * next rank is skipped (1, 2, 2, 4). Level players are listed by name, and players with
+ * no value for a rate are always listed last.
+ */
+export const rankLeaderRows = (rows: LeaderRow[], stat: LeaderStat, descending = true): RankedLeaderRow[] => {
+  const sorted = [...rows].sort((a, b) => {
+    const valueA = a[stat];
+    const valueB = b[stat];
+    if (valueA !== valueB) {
+      if (valueA === null) return 1;
+      if (valueB === null) return -1;
+      return descending ? valueB - valueA : valueA - valueB;
+    }
+    return a.player.profile.name.localeCompare(b.player.profile.name);
+  });
+  return sorted.map(row => ({ ...row, rank: sorted.findIndex(other => other[stat] === row[stat]) + 1 }));
+};
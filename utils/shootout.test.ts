@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { ShootoutKick } from '../types';
+import { getShootoutState, isPossibleShootoutScore, validateShootoutKick } from './shootout';
+import { buildMatch, buildTeam, buildUser } from './testFixtures';
+
+const match = buildMatch({ teamAId: buildTeam('home'), teamBId: buildTeam('away') });
+const taker = buildUser('taker');
+
+// Kicks from a string like "A+ B- A+": the kicking side, then whether they scored.
+const kicks = (sequence: string): ShootoutKick[] => sequence.split(' ').filter(Boolean).map(kick => ({
+  teamId: kick[0] === 'A' ? 'home' : 'away',
+  takerId: taker,
+  scored: kick[1] === '+',
+}));
+
+const stateAfter = (sequence: string) => getShootoutState(match, kicks(sequence));
+
+describe('getShootoutState', () => {
+  it('ends as soon as one team can no longer be caught', () => {
+    expect(stateAfter('A+ B- A+ B- A+')).toMatchObject({ scoreA: 3, scoreB: 0, winnerSlot: null, nextSlot: 'B' });
+    expect(stateAfter('A+ B- A+ B- A+ B-')).toMatchObject({ scoreA: 3, scoreB: 0, winnerSlot: 'A', nextSlot: null });
+  });
+
+  it('goes to sudden death when level after five kicks each, and ends on a round with the teams apart', () => {
+    const fiveEach = 'A+ B+ A+ B+ A+ B+ A+ B+ A+ B+';
+    expect(stateAfter(fiveEach)).toMatchObject({ scoreA: 5, scoreB: 5, winnerSlot: null, isSuddenDeath: true, nextSlot: 'A' });
+    expect(stateAfter(`${fiveEach} A-`).winnerSlot).toBeNull();
+    expect(stateAfter(`${fiveEach} A- B+`)).toMatchObject({ scoreA: 5, scoreB: 6, winnerSlot: 'B' });
+  });
+
+  it('lets either team kick first and alternates from there', () => {
+    expect(stateAfter('').nextSlot).toBe('A');
+    expect(stateAfter('B+').nextSlot).toBe('A');
+    expect(stateAfter('B+ A-').nextSlot).toBe('B');
+  });
+});
+
+describe('validateShootoutKick', () => {
+  it('makes teams kick in turn and stops once the shootout is decided', () => {
+    expect(validateShootoutKick({ ...match, shootoutKicks: [] }, 'away')).toBeNull();
+    expect(validateShootoutKick({ ...match, shootoutKicks: kicks('A+') }, 'home')).toBe('Teams must take their kicks in turn.');
+    expect(validateShootoutKick({ ...match, shootoutKicks: kicks('A+') }, 'away')).toBeNull();
+    expect(validateShootoutKick({ ...match, shootoutKicks: kicks('A+ B- A+ B- A+ B-') }, 'home')).toBe('The shootout has already been decided.');
+  });
+});
+
+describe('isPossibleShootoutScore', () => {
+  it('accepts scores a shootout can end on', () => {
+    expect(isPossibleShootoutScore(3, 0)).toBe(true);
+    expect(isPossibleShootoutScore(5, 3)).toBe(true);
+    expect(isPossibleShootoutScore(2, 4)).toBe(true);
+    expect(isPossibleShootoutScore(9, 8)).toBe(true);
+  });
+
+  it('rejects draws, negative scores and margins the shootout would have ended before', () => {
+    expect(isPossibleShootoutScore(4, 4)).toBe(false);
+    expect(isPossibleShootoutScore(-1, 0)).toBe(false);
+    expect(isPossibleShootoutScore(4, 0)).toBe(false);
+    expect(isPossibleShootoutScore(7, 5)).toBe(false);
+  });
+});
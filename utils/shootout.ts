@@ -0,0 +1,90 @@
+import { Match, MatchSlot, ShootoutKick } from '../types';
+
+// Kicks each team takes before the shootout goes to sudden death.
+export const SHOOTOUT_KICKS_PER_TEAM = 5;
+
+export interface ShootoutState {
+  scoreA: number;
+  scoreB: number;
+  kicksA: ShootoutKick[];
+  kicksB: ShootoutKick[];
+  nextSlot: MatchSlot | null; // null once the shootout is decided
+  isSuddenDeath: boolean;
+  winnerSlot: MatchSlot | null;
+}
+
+const otherSlot = (slot: MatchSlot): MatchSlot => slot === 'A' ? 'B' : 'A';
+
+/**
+ * Whether a shootout is over. In the first five rounds it ends as soon as one team can no
+ * longer be caught; in sudden death it ends when a round finishes with the teams apart.
+ */
+const getDecidedWinner = (scoreA: number, scoreB: number, takenA: number, takenB: number): MatchSlot | null => {
+  if (takenA <= SHOOTOUT_KICKS_PER_TEAM && takenB <= SHOOTOUT_KICKS_PER_TEAM) {
+    const remainingA = SHOOTOUT_KICKS_PER_TEAM - takenA;
+    const remainingB = SHOOTOUT_KICKS_PER_TEAM - takenB;
+    if (scoreA > scoreB + remainingB) return 'A';
+    if (scoreB > scoreA + remainingA) return 'B';
+    if (remainingA > 0 || remainingB > 0) return null;
+  }
+  if (takenA !== takenB || scoreA === scoreB) return null;
+  return scoreA > scoreB ? 'A' : 'B';
+};
+
+// The score and progress of a shootout from its kicks, which alternate starting with the first team to kick.
+export const getShootoutState = (match: Match, kicks: ShootoutKick[] = match.shootoutKicks || []): ShootoutState => {
+  const kicksA = kicks.filter(k => k.teamId === match.teamAId?._id);
+  const kicksB = kicks.filter(k => k.teamId === match.teamBId?._id);
+  const scoreA = kicksA.filter(k => k.scored).length;
+  const scoreB = kicksB.filter(k => k.scored).length;
+  const winnerSlot = getDecidedWinner(scoreA, scoreB, kicksA.length, kicksB.length);
+  const lastKick = kicks[kicks.length - 1];
+  const lastSlot: MatchSlot | null = !lastKick ? null : lastKick.teamId === match.teamAId?._id ? 'A' : 'B';
+  return {
+    scoreA,
+    scoreB,
+    kicksA,
+    kicksB,
+    nextSlot: winnerSlot ? null : lastSlot ? otherSlot(lastSlot) : 'A',
+    isSuddenDeath: Math.min(kicksA.length, kicksB.length) >= SHOOTOUT_KICKS_PER_TEAM,
+    winnerSlot,
+  };
+};
+
+// Reasons a new kick can't be added to the shootout, or null if it can.
+export const validateShootoutKick = (match: Match, teamId: string): string | null => {
+  const kicks = match.shootoutKicks || [];
+  const state = getShootoutState(match, kicks);
+  if (state.winnerSlot) return 'The shootout has already been decided.';
+  if (kicks.length > 0) {
+    const expectedTeamId = state.nextSlot === 'A' ? match.teamAId?._id : match.teamBId?._id;
+    if (teamId !== expectedTeamId) return 'Teams must take their kicks in turn.';
+  }
+  return null;
+};
+
+/**
+ * Whether a final shootout score could actually happen, for results entered without the
+ * individual kicks. A one-goal margin is always possible (e.g. in sudden death); wider
+ * margins are checked by playing out every sequence of the first five rounds.
+ */
+export const isPossibleShootoutScore = (scoreA: number, scoreB: number): boolean => {
+  if (scoreA < 0 || scoreB < 0 || scoreA === scoreB) return false;
+  if (Math.abs(scoreA - scoreB) === 1) return true;
+  const target = `${scoreA}-${scoreB}`;
+  const reachable = new Set<string>();
+  const play = (score: number[], taken: number[], slot: number) => {
+    const winner = getDecidedWinner(score[0], score[1], taken[0], taken[1]);
+    if (winner) {
+      reachable.add(`${score[0]}-${score[1]}`);
+      return;
+    }
+    if (taken[slot] >= SHOOTOUT_KICKS_PER_TEAM) return;
+    const nextTaken = taken.map((t, i) => i === slot ? t + 1 : t);
+    play(score.map((s, i) => i === slot ? s + 1 : s), nextTaken, 1 - slot);
+    play(score, nextTaken, 1 - slot);
+  };
+  play([0, 0], [0, 0], 0);
+  play([0, 0], [0, 0], 1);
+  return reachable.has(target);
+};
@@ -0,0 +1,60 @@
+import { Team, Tournament, User } from '../types';
+
+// Dates are compared as YYYY-MM-DD strings, in the user's local time.
+const toDateString = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const hasRegisteredSquad = (tournament: Tournament, teamId: string): boolean =>
+  !!tournament.squads?.some(s => s.teamId === teamId);
+
+/**
+ * The players a team registered for a tournament. Tournaments created before squads
+ * were recorded have no snapshot, so they fall back to the team's current members.
+ */
+export const getSquad = (tournament: Tournament, teamId: string | undefined): User[] => {
+  if (!teamId) return [];
+  const squad = tournament.squads?.find(s => s.teamId === teamId);
+  const players = squad ? squad.players : tournament.teams.find(t => t._id === teamId)?.members;
+  return (players || []).filter(p => p && p.profile);
+};
+
+// The team a player was registered with in a tournament.
+export const getSquadTeam = (tournament: Tournament, playerId: string): Team | undefined =>
+  tournament.teams.find(team => getSquad(tournament, team._id).some(p => p._id === playerId));
+
+// Every player known to the tournament, for resolving player IDs back to users. Includes
+// current members as well, so events recorded against them are never left unresolved.
+export const getTournamentPlayers = (tournament: Tournament): User[] => {
+  const players = new Map<string, User>();
+  tournament.teams.forEach(team => {
+    [...getSquad(tournament, team._id), ...(team.members || [])].forEach(p => {
+      if (p && !players.has(p._id)) players.set(p._id, p);
+    });
+  });
+  return [...players.values()];
+};
+
+export const isRegistrationOpen = (tournament: Tournament, now = new Date()): boolean =>
+  !tournament.registrationDeadline || toDateString(now) <= tournament.registrationDeadline;
+
+export const isTransferWindowOpen = (tournament: Tournament, now = new Date()): boolean => {
+  const { transferWindow } = tournament;
+  if (!transferWindow) return false;
+  const today = toDateString(now);
+  return transferWindow.opensOn <= today && today <= transferWindow.closesOn;
+};
+
+// Squads can change freely until the registration deadline, and afterwards only while the transfer window is open.
+export const canChangeSquads = (tournament: Tournament, now = new Date()): boolean =>
+  isRegistrationOpen(tournament, now) || isTransferWindowOpen(tournament, now);
+
+export const describeRegistrationStatus = (tournament: Tournament, now = new Date()): string => {
+  const { registrationDeadline, transferWindow } = tournament;
+  if (!registrationDeadline) return 'Squad registration is open.';
+  if (isRegistrationOpen(tournament, now)) return `Squad registration closes on ${registrationDeadline}.`;
+  if (isTransferWindowOpen(tournament, now)) return `Registration has closed. The transfer window is open until ${transferWindow!.closesOn}.`;
+  if (transferWindow && toDateString(now) < transferWindow.opensOn) {
+    return `Registration has closed. The transfer window opens on ${transferWindow.opensOn}.`;
+  }
+  return 'Registration has closed. Squads are locked.';
+};
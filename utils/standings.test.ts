@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { Match, MatchStatus, Team, TieBreaker } from '../types';
+import { calculateStandings, DEFAULT_POINTS_RULES } from './standings';
+import { buildMatch, buildTeam } from './testFixtures';
+
+const [a, b, c, d, e, f] = ['A', 'B', 'C', 'D', 'E', 'F'].map(id => buildTeam(id));
+
+let matchNumber = 0;
+const result = (home: Team, scoreA: number, away: Team, scoreB: number): Match => buildMatch({
+  _id: `match_${++matchNumber}`,
+  matchNumber,
+  teamAId: home,
+  teamBId: away,
+  scoreA,
+  scoreB,
+  status: MatchStatus.FINISHED,
+  winnerId: scoreA === scoreB ? null : scoreA > scoreB ? home._id : away._id,
+});
+
+describe('calculateStandings', () => {
+  // A, B, C and D finish on 9 points. In the matches between them A is clear on points, and B
+  // and C are level on points, goal difference and goals scored; B beat C, but C has the
+  // better goal difference overall.
+  const matches = [
+    result(a, 1, b, 0), result(a, 1, c, 0), result(a, 3, d, 0),
+    result(b, 1, c, 0), result(d, 1, b, 0), result(c, 1, d, 0),
+    result(b, 1, e, 0), result(b, 1, f, 0),
+    result(c, 5, e, 0), result(c, 1, f, 0),
+    result(d, 1, e, 0), result(d, 1, f, 0),
+  ];
+  const rules = { ...DEFAULT_POINTS_RULES, tieBreakers: [TieBreaker.HEAD_TO_HEAD, TieBreaker.GOAL_DIFFERENCE] };
+
+  it('applies head-to-head again to the teams it leaves level', () => {
+    const rows = calculateStandings(matches, [a, b, c, d, e, f], rules);
+    expect(rows.slice(0, 4).map(r => r.team.name)).toEqual(['A', 'B', 'C', 'D']);
+    expect(rows.slice(0, 3).map(r => r.decidedBy)).toEqual([TieBreaker.HEAD_TO_HEAD, TieBreaker.HEAD_TO_HEAD, TieBreaker.HEAD_TO_HEAD]);
+  });
+});
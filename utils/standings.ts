@@ -0,0 +1,220 @@
+import { CardType, Match, MatchStatus, PointsRules, Team, TieBreaker, Tournament, TournamentGroup } from '../types';
+import { countsTowardsTable, getMatchGroup, getTournamentFormat } from './tournamentFormat';
+
+export const DEFAULT_POINTS_RULES: PointsRules = {
+  win: 3,
+  draw: 1,
+  loss: 0,
+  tieBreakers: [TieBreaker.GOAL_DIFFERENCE, TieBreaker.GOALS_SCORED, TieBreaker.HEAD_TO_HEAD, TieBreaker.FAIR_PLAY, TieBreaker.DRAWING_OF_LOTS],
+  bonusPoints: [],
+  deductions: [],
+};
+
+export const TIE_BREAKER_LABELS: Record<TieBreaker, string> = {
+  [TieBreaker.GOAL_DIFFERENCE]: 'Goal difference',
+  [TieBreaker.GOALS_SCORED]: 'Goals scored',
+  [TieBreaker.HEAD_TO_HEAD]: 'Head-to-head',
+  [TieBreaker.FAIR_PLAY]: 'Fair play',
+  [TieBreaker.DRAWING_OF_LOTS]: 'Drawing of lots',
+};
+
+export const TIE_BREAKER_SHORT_LABELS: Record<TieBreaker, string> = {
+  [TieBreaker.GOAL_DIFFERENCE]: 'GD',
+  [TieBreaker.GOALS_SCORED]: 'GF',
+  [TieBreaker.HEAD_TO_HEAD]: 'H2H',
+  [TieBreaker.FAIR_PLAY]: 'FP',
+  [TieBreaker.DRAWING_OF_LOTS]: 'Lots',
+};
+
+// Fair-play points per card. The team with fewer points ranks higher.
+const FAIR_PLAY_POINTS: Record<CardType, number> = {
+  [CardType.YELLOW]: 1,
+  [CardType.RED]: 3,
+};
+
+export interface StandingRow {
+  team: Team;
+  p: number;
+  w: number;
+  d: number;
+  l: number;
+  gf: number;
+  ga: number;
+  gd: number;
+  adj: number; // Bonus points minus deductions
+  pts: number;
+  fairPlay: number;
+  decidedBy: TieBreaker | null; // Tie-breaker that put this team above the next one when level on points
+}
+
+type Tally = Pick<StandingRow, 'p' | 'w' | 'd' | 'l' | 'gf' | 'ga' | 'fairPlay'>;
+
+export const getPointsRules = (tournament: Tournament | null | undefined): PointsRules => ({
+  ...DEFAULT_POINTS_RULES,
+  ...tournament?.pointsRules,
+});
+
+// Results of the finished matches involving the given teams. Matches against other teams
+// still count for the team that is in the set.
+const tallyMatches = (matches: Match[], teamIds: Set<string>, bothTeams: boolean): Record<string, Tally> => {
+  const tallies: Record<string, Tally> = {};
+  teamIds.forEach(id => { tallies[id] = { p: 0, w: 0, d: 0, l: 0, gf: 0, ga: 0, fairPlay: 0 }; });
+
+  matches.filter(m => m.status === MatchStatus.FINISHED).forEach(m => {
+    const teamAId = m.teamAId?._id;
+    const teamBId = m.teamBId?._id;
+    if (!teamAId || !teamBId) return;
+    const hasA = teamIds.has(teamAId);
+    const hasB = teamIds.has(teamBId);
+    if (bothTeams ? !(hasA && hasB) : !(hasA || hasB)) return;
+
+    const record = (teamId: string, scored: number, conceded: number) => {
+      const tally = tallies[teamId];
+      if (!tally) return;
+      tally.p++;
+      tally.gf += scored;
+      tally.ga += conceded;
+      if (m.winnerId === teamId) tally.w++;
+      else if (m.winnerId === teamAId || m.winnerId === teamBId) tally.l++;
+      else tally.d++;
+    };
+    record(teamAId, m.scoreA, m.scoreB);
+    record(teamBId, m.scoreB, m.scoreA);
+    m.cards.forEach(card => {
+      if (tallies[card.teamId]) tallies[card.teamId].fairPlay += FAIR_PLAY_POINTS[card.type] || 0;
+    });
+  });
+  return tallies;
+};
+
+const pointsFor = (tally: Tally, rules: PointsRules) => tally.w * rules.win + tally.d * rules.draw + tally.l * rules.loss;
+
+// Higher keys rank higher; later entries only matter when the earlier ones are equal.
+const getTieBreakerKeys = (tieBreaker: TieBreaker, rows: StandingRow[], matches: Match[], rules: PointsRules): Map<string, number[]> => {
+  const keys = new Map<string, number[]>();
+  if (tieBreaker === TieBreaker.HEAD_TO_HEAD) {
+    // A mini-table of the matches between the tied teams only.
+    const miniTable = tallyMatches(matches, new Set(rows.map(r => r.team._id)), true);
+    rows.forEach(r => {
+      const tally = miniTable[r.team._id];
+      keys.set(r.team._id, [pointsFor(tally, rules), tally.gf - tally.ga, tally.gf]);
+    });
+    return keys;
+  }
+  const lotsOrder = rules.lotsOrder || [];
+  rows.forEach(r => {
+    switch (tieBreaker) {
+      case TieBreaker.GOAL_DIFFERENCE:
+        keys.set(r.team._id, [r.gd]);
+        break;
+      case TieBreaker.GOALS_SCORED:
+        keys.set(r.team._id, [r.gf]);
+        break;
+      case TieBreaker.FAIR_PLAY:
+        keys.set(r.team._id, [-r.fairPlay]);
+        break;
+      case TieBreaker.DRAWING_OF_LOTS: {
+        // Teams left out of the draw share last place until lots are drawn for them.
+        const position = lotsOrder.indexOf(r.team._id);
+        keys.set(r.team._id, [-(position === -1 ? lotsOrder.length : position)]);
+        break;
+      }
+    }
+  });
+  return keys;
+};
+
+const compareKeys = (a: number[], b: number[]): number => {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const diff = (b[i] || 0) - (a[i] || 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+};
+
+// Splits rows into runs of equal keys, keeping the order they are already in.
+const splitTies = <T>(rows: T[], keyOf: (row: T) => number[]): T[][] => {
+  const groups: T[][] = [];
+  rows.forEach(row => {
+    const last = groups[groups.length - 1];
+    if (last && compareKeys(keyOf(last[0]), keyOf(row)) === 0) last.push(row);
+    else groups.push([row]);
+  });
+  return groups;
+};
+
+const rankTiedRows = (rows: StandingRow[], tieBreakers: TieBreaker[], matches: Match[], rules: PointsRules): StandingRow[] => {
+  if (rows.length <= 1 || tieBreakers.length === 0) {
+    return [...rows].sort((a, b) => a.team.name.localeCompare(b.team.name));
+  }
+  const [tieBreaker, ...remaining] = tieBreakers;
+  const keys = getTieBreakerKeys(tieBreaker, rows, matches, rules);
+  const keyOf = (row: StandingRow) => keys.get(row.team._id) || [];
+  const groups = splitTies([...rows].sort((a, b) => compareKeys(keyOf(a), keyOf(b))), keyOf);
+  // Teams still level after head-to-head splits the group get a fresh mini-table of the matches
+  // between just them, before any later tie-breaker is used.
+  const next = tieBreaker === TieBreaker.HEAD_TO_HEAD && groups.length > 1 ? tieBreakers : remaining;
+  return groups.flatMap((group, i) => {
+    const ranked = rankTiedRows(group, next, matches, rules);
+    if (i < groups.length - 1) ranked[ranked.length - 1] = { ...ranked[ranked.length - 1], decidedBy: tieBreaker };
+    return ranked;
+  });
+};
+
+/**
+ * Builds a points table from finished matches. Teams level on points are separated by
+ * the rules' tie-breakers in order, and each row records which tie-breaker (if any)
+ * placed it above the team directly below.
+ */
+export const calculateStandings = (matches: Match[], teams: Team[], rules: PointsRules = DEFAULT_POINTS_RULES): StandingRow[] => {
+  const tallies = tallyMatches(matches, new Set(teams.map(t => t._id)), false);
+  const adjustmentFor = (teamId: string) =>
+    rules.bonusPoints.filter(b => b.teamId === teamId).reduce((sum, b) => sum + b.points, 0) -
+    rules.deductions.filter(d => d.teamId === teamId).reduce((sum, d) => sum + d.points, 0);
+
+  const rows: StandingRow[] = teams.map(team => {
+    const tally = tallies[team._id];
+    const adj = adjustmentFor(team._id);
+    return {
+      team,
+      ...tally,
+      gd: tally.gf - tally.ga,
+      adj,
+      pts: pointsFor(tally, rules) + adj,
+      decidedBy: null,
+    };
+  });
+
+  const byPoints = splitTies([...rows].sort((a, b) => b.pts - a.pts), row => [row.pts]);
+  return byPoints.flatMap(group => rankTiedRows(group, rules.tieBreakers, matches, rules));
+};
+
+export interface GroupStandings {
+  group: TournamentGroup;
+  rows: StandingRow[];
+}
+
+// One table per group, each built only from that group's matches.
+export const calculateGroupStandings = (tournament: Tournament): GroupStandings[] => {
+  const format = getTournamentFormat(tournament);
+  const rules = getPointsRules(tournament);
+  const tableMatches = tournament.matches.filter(m => countsTowardsTable(m, format));
+  return (tournament.groups || []).map(group => ({
+    group,
+    rows: calculateStandings(
+      tableMatches.filter(m => getMatchGroup(m, tournament.groups) === group.name),
+      tournament.teams.filter(t => group.teamIds.includes(t._id)),
+      rules
+    ),
+  }));
+};
+
+/**
+ * Ranks the teams finishing in the same position across all groups, e.g. the third-placed
+ * teams. Head-to-head and lots mean nothing between groups, so only the overall record counts.
+ */
+export const rankTeamsAtPosition = (groupStandings: GroupStandings[], position: number): (StandingRow & { groupName: string })[] =>
+  groupStandings
+    .filter(({ rows }) => rows.length >= position)
+    .map(({ group, rows }) => ({ ...rows[position - 1], groupName: group.name, decidedBy: null }))
+    .sort((a, b) => b.pts - a.pts || b.gd - a.gd || b.gf - a.gf || a.fairPlay - b.fairPlay || a.team.name.localeCompare(b.team.name));
@@ -0,0 +1,66 @@
+// Builders for the users, teams, matches and tournaments the unit tests work with. Each call
+// returns fresh objects, as a refetch from the API does; IDs double as names.
+import { Card, CardType, Goal, Match, MatchStatus, Team, Tournament, User } from '../types';
+
+export const buildUser = (id: string, profile: Partial<User['profile']> = {}): User => ({
+  _id: id,
+  email: `${id}@example.com`,
+  dob: '2000-01-01',
+  profile: { name: id, age: null, position: null, imageUrl: null, ...profile },
+});
+
+// The first member is the team's admin unless other admins are given.
+export const buildTeam = (id: string, members: User[] = [], adminIds: User[] = members.slice(0, 1)): Team => ({
+  _id: id,
+  name: id,
+  logoUrl: null,
+  adminIds,
+  members,
+  inviteCode: id.toUpperCase(),
+});
+
+export const buildMatch = (overrides: Partial<Match> = {}): Match => ({
+  _id: 'match',
+  matchNumber: 1,
+  teamAId: null,
+  teamBId: null,
+  scoreA: 0,
+  scoreB: 0,
+  status: MatchStatus.SCHEDULED,
+  goals: [],
+  cards: [],
+  round: 'League Match',
+  ...overrides,
+});
+
+export const buildTournament = (overrides: Partial<Tournament> = {}): Tournament => ({
+  _id: 'tournament',
+  name: 'Tournament',
+  logoUrl: null,
+  adminId: 'creator',
+  teams: [],
+  matches: [],
+  inviteCode: 'TOURN',
+  organizers: [],
+  scorekeepers: [],
+  referees: [],
+  ...overrides,
+});
+
+export const buildGoal = (scorer: User, teamId: string, minute: number, details: Partial<Goal> = {}): Goal => ({
+  _id: `goal-${scorer._id}-${minute}`,
+  scorerId: scorer,
+  teamId,
+  minute,
+  isOwnGoal: false,
+  ...details,
+});
+
+export const buildCard = (player: User, teamId: string, type: CardType, minute: number, details: Partial<Card> = {}): Card => ({
+  _id: `card-${player._id}-${minute}`,
+  playerId: player,
+  teamId,
+  type,
+  minute,
+  ...details,
+});
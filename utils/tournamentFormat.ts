@@ -0,0 +1,73 @@
+import { Match, Tournament, TournamentFormat, TournamentFormatType, TournamentGroup } from '../types';
+
+export const LEAGUE_ROUND = 'League Match';
+export const GROUP_ROUND = 'Group Stage';
+// Ordered from the earliest knockout round to the Final.
+export const KNOCKOUT_ROUNDS = ['Round of 16', 'Quarter-Final', 'Semi-Final', 'Eliminator', 'Final'];
+
+export const FORMAT_LABELS: Record<TournamentFormatType, string> = {
+  [TournamentFormatType.LEAGUE]: 'League',
+  [TournamentFormatType.KNOCKOUT]: 'Single Knockout',
+  [TournamentFormatType.GROUPS_KNOCKOUT]: 'Groups + Knockout',
+  [TournamentFormatType.DOUBLE_ROUND_ROBIN]: 'Double Round-Robin',
+};
+
+// Matches how tournaments behaved before formats were configurable: a league table,
+// with drawn knockout matches going straight to penalties.
+export const DEFAULT_TOURNAMENT_FORMAT: TournamentFormat = {
+  type: TournamentFormatType.LEAGUE,
+  groupCount: 1,
+  qualifiersPerGroup: 0,
+  bestThirdPlacedQualifiers: 0,
+  extraTime: false,
+  penalties: true,
+};
+
+export const getTournamentFormat = (tournament: Tournament | null | undefined): TournamentFormat => ({
+  ...DEFAULT_TOURNAMENT_FORMAT,
+  ...tournament?.format,
+});
+
+export const hasGroupStage = (format: TournamentFormat): boolean =>
+  format.type === TournamentFormatType.GROUPS_KNOCKOUT;
+
+// In a single knockout every match is a knockout tie; in the other formats only the
+// play-off rounds that follow the league or group stage are.
+export const isKnockoutMatch = (match: Match, format: TournamentFormat): boolean =>
+  format.type === TournamentFormatType.KNOCKOUT || KNOCKOUT_ROUNDS.includes(match.round);
+
+export const countsTowardsTable = (match: Match, format: TournamentFormat): boolean =>
+  !isKnockoutMatch(match, format);
+
+// "Group A", "Group B", ... for the configured number of groups.
+export const getGroupNames = (format: TournamentFormat): string[] =>
+  Array.from({ length: hasGroupStage(format) ? format.groupCount : 0 }, (_, i) => `Group ${String.fromCharCode(65 + i)}`);
+
+export const getTeamGroup = (groups: TournamentGroup[] | undefined, teamId: string | undefined): TournamentGroup | undefined =>
+  teamId ? groups?.find(g => g.teamIds.includes(teamId)) : undefined;
+
+// Matches scheduled before groups were labelled fall back to the group both teams are in.
+export const getMatchGroup = (match: Match, groups: TournamentGroup[] | undefined): string | undefined => {
+  if (match.group) return match.group;
+  const groupA = getTeamGroup(groups, match.teamAId?._id);
+  return groupA && groupA === getTeamGroup(groups, match.teamBId?._id) ? groupA.name : undefined;
+};
+
+// Rounds an admin can pick when adding a match by hand.
+export const getRoundOptions = (format: TournamentFormat): string[] => {
+  switch (format.type) {
+    case TournamentFormatType.KNOCKOUT:
+      return KNOCKOUT_ROUNDS;
+    case TournamentFormatType.GROUPS_KNOCKOUT:
+      return [GROUP_ROUND, ...KNOCKOUT_ROUNDS];
+    default:
+      return [LEAGUE_ROUND, ...KNOCKOUT_ROUNDS];
+  }
+};
+
+export const allowsExtraTime = (match: Match, format: TournamentFormat): boolean =>
+  isKnockoutMatch(match, format) && format.extraTime;
+
+// A shootout is only needed for a knockout tie that is still level once play is over.
+export const needsPenaltyShootout = (match: Match, format: TournamentFormat): boolean =>
+  isKnockoutMatch(match, format) && format.penalties && match.scoreA === match.scoreB;
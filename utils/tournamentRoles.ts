@@ -0,0 +1,33 @@
+import { Match, Tournament, TournamentStaffRole, User } from '../types';
+
+export const STAFF_ROLE_LABELS: Record<TournamentStaffRole, string> = {
+  organizer: 'Organizer',
+  scorekeeper: 'Scorekeeper',
+  referee: 'Referee',
+};
+
+const STAFF_FIELDS: Record<TournamentStaffRole, 'organizers' | 'scorekeepers' | 'referees'> = {
+  organizer: 'organizers',
+  scorekeeper: 'scorekeepers',
+  referee: 'referees',
+};
+
+export const getStaff = (tournament: Tournament, role: TournamentStaffRole): User[] =>
+  (tournament[STAFF_FIELDS[role]] || []).filter(u => u && u.profile);
+
+const hasStaffRole = (tournament: Tournament, role: TournamentStaffRole, userId: string): boolean =>
+  (tournament[STAFF_FIELDS[role]] || []).some(u => u?._id === userId);
+
+// The admin who created the tournament and its co-organizers can manage everything in it.
+export const isOrganizer = (tournament: Tournament, userId: string | undefined): boolean =>
+  !!userId && (tournament.adminId === userId || hasStaffRole(tournament, 'organizer', userId));
+
+export const isMatchOfficial = (match: Match, userId: string | undefined): boolean =>
+  !!userId && (match.refereeId?._id === userId || match.scorekeeperId?._id === userId);
+
+// Whether the user has any part in running the tournament, which is enough to follow its live updates.
+export const isTournamentStaff = (tournament: Tournament, userId: string): boolean =>
+  isOrganizer(tournament, userId) ||
+  hasStaffRole(tournament, 'scorekeeper', userId) ||
+  hasStaffRole(tournament, 'referee', userId) ||
+  (tournament.matches || []).some(m => isMatchOfficial(m, userId));
@@ -6,7 +6,10 @@ export default defineConfig(({ mode }) => {
     return {
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.LIVE_UPDATES_URL': JSON.stringify(env.LIVE_UPDATES_URL || ''),
+        'process.env.USE_MOCK_API': JSON.stringify(env.USE_MOCK_API || ''),
+        'process.env.API_URL': JSON.stringify(env.API_URL || '')
       },
       resolve: {
         alias: {